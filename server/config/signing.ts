@@ -0,0 +1,63 @@
+import fs from 'fs';
+import forge from 'node-forge';
+
+// Server-side credentials used to digitally sign PDFs
+export interface SigningCredentials {
+  certificate: forge.pki.Certificate;
+  chain: forge.pki.Certificate[]; // Intermediate certificates, if any
+  privateKey: forge.pki.PrivateKey;
+  tsaUrl?: string; // RFC 3161 timestamp authority
+  tsaTimeoutSeconds?: number; // How long to wait for the timestamp authority (default 15)
+}
+
+let cachedCredentials: SigningCredentials | null | undefined;
+
+// Load the X.509 certificate and private key configured through the environment:
+//   SIGNING_CERT_PATH        PEM certificate (may be followed by the intermediate chain)
+//   SIGNING_KEY_PATH         PEM private key
+//   SIGNING_KEY_PASSPHRASE   passphrase, if the private key is encrypted
+//   TSA_URL                  optional timestamp authority URL
+//   TSA_TIMEOUT_SECONDS      how long to wait for it (default 15)
+// Returns null when digital signing isn't configured.
+const getSigningCredentials = (): SigningCredentials | null => {
+  if (cachedCredentials !== undefined) {
+    return cachedCredentials;
+  }
+
+  const certPath = process.env.SIGNING_CERT_PATH;
+  const keyPath = process.env.SIGNING_KEY_PATH;
+
+  if (!certPath || !keyPath) {
+    cachedCredentials = null;
+    return cachedCredentials;
+  }
+
+  const certPem = fs.readFileSync(certPath, 'utf8');
+  const keyPem = fs.readFileSync(keyPath, 'utf8');
+
+  const [certificate, ...chain] = (certPem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [])
+    .map((pem) => forge.pki.certificateFromPem(pem));
+
+  if (!certificate) {
+    throw new Error(`No certificate found in ${certPath}`);
+  }
+
+  const privateKey = process.env.SIGNING_KEY_PASSPHRASE
+    ? forge.pki.decryptRsaPrivateKey(keyPem, process.env.SIGNING_KEY_PASSPHRASE)
+    : forge.pki.privateKeyFromPem(keyPem);
+
+  if (!privateKey) {
+    throw new Error(`Could not read the private key in ${keyPath}`);
+  }
+
+  cachedCredentials = {
+    certificate,
+    chain,
+    privateKey,
+    tsaUrl: process.env.TSA_URL || undefined,
+    tsaTimeoutSeconds: Number(process.env.TSA_TIMEOUT_SECONDS) || undefined,
+  };
+  return cachedCredentials;
+};
+
+export { getSigningCredentials };
@@ -0,0 +1,32 @@
+// server/controllers/adminController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { checkStorage, removeOrphanedFiles } from '../utils/orphanedFiles';
+
+// @desc    Reconcile stored files against the records: files no record references (at least an
+//          hour old) and referenced files that are missing from storage
+// @route   GET /api/admin/storage/orphans
+// @access  Private (admin)
+const getStorageOrphans = asyncHandler(async (req: Request, res: Response) => {
+  res.status(200).json(await checkStorage());
+});
+
+// @desc    Delete the files no record references, as reported by GET /api/admin/storage/orphans
+// @route   DELETE /api/admin/storage/orphans
+// @access  Private (admin)
+const deleteStorageOrphans = asyncHandler(async (req: Request, res: Response) => {
+  const report = await checkStorage();
+  const { removed, failed } = await removeOrphanedFiles(report);
+
+  res.status(200).json({
+    removed,
+    failed,
+    freedBytes: report.orphans
+      .filter((object) => removed.includes(object.key))
+      .reduce((total, object) => total + object.size, 0),
+    missing: report.missing,
+  });
+});
+
+export { deleteStorageOrphans, getStorageOrphans };
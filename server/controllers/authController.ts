@@ -2,8 +2,28 @@
 import { Request, Response } from 'express';
 import asyncHandler from 'express-async-handler';
 import { Types } from 'mongoose'; // <-- NEW IMPORT: ADD THIS LINE
-import User, { IUser } from '../models/User';
+import User, { hashUserToken, IUser } from '../models/User';
+import { validateAutoArchiveDays } from '../utils/deadlines';
 import generateToken from '../utils/generateToken';
+import { trySendMail } from '../utils/mailer';
+import { passwordResetMail, verifyEmailMail } from '../utils/mailTemplates';
+import {
+  clearRefreshCookie,
+  issueRefreshToken,
+  readRefreshToken,
+  revokeAllRefreshTokens,
+  revokeRefreshToken,
+  rotateRefreshToken,
+  setRefreshCookie,
+} from '../utils/refreshTokens';
+import {
+  checkSecondFactor,
+  createLoginChallenge,
+  isSecondFactorLocked,
+  readLoginChallenge,
+  recordFailedSecondFactor,
+  TWO_FACTOR_FIELDS,
+} from '../utils/twoFactor';
 
 // Extend the Request interface to include the user property
 declare module 'express' {
@@ -12,6 +32,24 @@ declare module 'express' {
   }
 }
 
+// Send the user's data with a new access token, and the refresh token both as an
+// HTTP-only cookie (browsers) and in the body (clients that can't use cookies)
+const sendAuthResponse = (res: Response, statusCode: number, user: IUser, refreshToken: string) => {
+  setRefreshCookie(res, refreshToken);
+  res.status(statusCode).json({
+    _id: user._id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    emailVerified: user.hasVerifiedEmail(),
+    twoFactorEnabled: user.twoFactorEnabled,
+    token: generateToken((user._id as Types.ObjectId).toHexString()),
+    refreshToken,
+  });
+};
+
+const PASSWORD_MIN_LENGTH = 6;
+
 // @desc    Register a new user
 // @route   POST /api/auth/register
 // @access  Public
@@ -26,21 +64,22 @@ const registerUser = asyncHandler(async (req: Request, res: Response) => {
     throw new Error('User with this email already exists');
   }
 
-  // Create new user
-  const user = await User.create({
+  // Create new user; the address has to be confirmed before it grants access to anything sent to it
+  const user = new User({
     name,
     email,
     password, // Password will be hashed by the pre-save hook in the User model
+    emailVerified: false,
   });
+  const verificationToken = user.createEmailVerificationToken();
+  await user.save();
 
   if (user) {
-    // If user created successfully, send back user data and a JWT
-    res.status(201).json({
-      _id: user._id,
-      name: user.name,
-      email: user.email,
-      token: generateToken((user._id as Types.ObjectId).toHexString()), // <-- UPDATED LINE
-    });
+    await trySendMail(verifyEmailMail(user.email, user.name, verificationToken));
+
+    // If user created successfully, send back user data and tokens
+    const { token: refreshToken } = await issueRefreshToken(user, req);
+    sendAuthResponse(res, 201, user, refreshToken);
   } else {
     res.status(400);
     throw new Error('Invalid user data provided');
@@ -58,16 +97,275 @@ const loginUser = asyncHandler(async (req: Request, res: Response) => {
 
   // If user exists AND password matches (using the method defined in User model)
   if (user && (await user.matchPassword(password))) {
-    res.json({
-      _id: user._id,
-      name: user.name,
-      email: user.email,
-      token: generateToken((user._id as Types.ObjectId).toHexString()), // <-- UPDATED LINE
-    });
+    // With two-factor enabled, the password only earns a challenge to answer with a code
+    if (user.twoFactorEnabled) {
+      res.status(200).json({
+        twoFactorRequired: true,
+        challengeToken: createLoginChallenge((user._id as Types.ObjectId).toHexString()),
+      });
+      return;
+    }
+
+    // Every login starts a new session (refresh token family)
+    const { token: refreshToken } = await issueRefreshToken(user, req);
+    sendAuthResponse(res, 200, user, refreshToken);
   } else {
     res.status(401); // Unauthorized
     throw new Error('Invalid email or password');
   }
 });
 
-export { loginUser, registerUser };
+// @desc    Complete a two-factor login with an authenticator code or a recovery code
+// @route   POST /api/auth/2fa/verify
+// @access  Public (challenge token from login)
+const verifyTwoFactorLogin = asyncHandler(async (req: Request, res: Response) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+
+  const challenge = typeof challengeToken === 'string' ? readLoginChallenge(challengeToken) : null;
+
+  if (!challenge) {
+    res.status(401);
+    throw new Error('Login challenge is invalid or has expired, please log in again');
+  }
+
+  if (!code && !recoveryCode) {
+    res.status(400);
+    throw new Error('An authentication code or a recovery code is required.');
+  }
+
+  const user = await User.findById(challenge.id).select(TWO_FACTOR_FIELDS);
+
+  if (!user || !user.twoFactorEnabled || user.changedPasswordAfter(challenge.issuedAt)) {
+    res.status(401);
+    throw new Error('Login challenge is invalid or has expired, please log in again');
+  }
+
+  // The lock holds across password logins, so a known password doesn't buy new guesses
+  if (isSecondFactorLocked(user)) {
+    res.status(429);
+    throw new Error('Too many invalid codes, please try again later');
+  }
+
+  const method = checkSecondFactor(user, { code, recoveryCode });
+
+  if (!method) {
+    const locked = recordFailedSecondFactor(user);
+    await user.save();
+    res.status(locked ? 429 : 401);
+    throw new Error(locked ? 'Too many invalid codes, please try again later' : 'Invalid authentication code');
+  }
+
+  user.twoFactorFailedAttempts = 0;
+  user.twoFactorLockedUntil = undefined;
+  await user.save();
+
+  const { token: refreshToken } = await issueRefreshToken(user, req);
+  sendAuthResponse(res, 200, user, refreshToken);
+});
+
+// @desc    Confirm an email address with the token sent by email
+// @route   POST /api/auth/verify-email
+// @access  Public
+const verifyEmail = asyncHandler(async (req: Request, res: Response) => {
+  const { token } = req.body;
+
+  if (!token || typeof token !== 'string') {
+    res.status(400);
+    throw new Error('Verification token is required.');
+  }
+
+  const user = await User.findOne({
+    emailVerificationTokenHash: hashUserToken(token),
+    emailVerificationExpires: { $gt: new Date() },
+  });
+
+  if (!user) {
+    res.status(400);
+    throw new Error('Verification link is invalid or has expired.');
+  }
+
+  // Tokens are single-use
+  user.emailVerified = true;
+  user.emailVerificationTokenHash = undefined;
+  user.emailVerificationExpires = undefined;
+  await user.save();
+
+  res.status(200).json({ message: 'Email verified successfully' });
+});
+
+// @desc    Send a new verification email
+// @route   POST /api/auth/resend-verification
+// @access  Private
+const resendVerification = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  if (req.user.hasVerifiedEmail()) {
+    res.status(400);
+    throw new Error('Email is already verified.');
+  }
+
+  const token = req.user.createEmailVerificationToken(); // Replaces any earlier token
+  await req.user.save();
+
+  const sent = await trySendMail(verifyEmailMail(req.user.email, req.user.name, token));
+  if (!sent) {
+    res.status(502);
+    throw new Error('Verification email could not be sent, please try again later.');
+  }
+
+  res.status(200).json({ message: 'Verification email sent' });
+});
+
+// @desc    Email a password reset link
+// @route   POST /api/auth/forgot-password
+// @access  Public
+const forgotPassword = asyncHandler(async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  if (!email || typeof email !== 'string') {
+    res.status(400);
+    throw new Error('Email is required.');
+  }
+
+  const user = await User.findOne({ email: email.trim().toLowerCase() });
+
+  if (user) {
+    const token = user.createPasswordResetToken(); // Replaces any earlier token
+    await user.save();
+    await trySendMail(passwordResetMail(user.email, user.name, token));
+  }
+
+  // Same answer either way, so this can't be used to find out who has an account
+  res.status(200).json({ message: 'If an account exists for that email, a reset link has been sent.' });
+});
+
+// @desc    Set a new password with the token sent by email
+// @route   POST /api/auth/reset-password
+// @access  Public
+const resetPassword = asyncHandler(async (req: Request, res: Response) => {
+  const { token, password } = req.body;
+
+  if (!token || typeof token !== 'string') {
+    res.status(400);
+    throw new Error('Reset token is required.');
+  }
+
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    res.status(400);
+    throw new Error(`Password must be at least ${PASSWORD_MIN_LENGTH} characters long`);
+  }
+
+  const user = await User.findOne({
+    passwordResetTokenHash: hashUserToken(token),
+    passwordResetExpires: { $gt: new Date() },
+  });
+
+  if (!user) {
+    res.status(400);
+    throw new Error('Reset link is invalid or has expired.');
+  }
+
+  user.password = password; // Hashed, and passwordChangedAt set, by the pre-save hook
+  user.passwordResetTokenHash = undefined;
+  user.passwordResetExpires = undefined;
+  // The link arrived by email, which proves the user owns the address
+  if (!user.hasVerifiedEmail()) {
+    user.emailVerified = true;
+  }
+  await user.save();
+
+  // Whoever knew the old password is logged out everywhere
+  await revokeAllRefreshTokens(user._id as Types.ObjectId, 'password_change');
+
+  res.status(200).json({ message: 'Password has been reset, please log in' });
+});
+
+// @desc    Exchange a refresh token for a new access token and a new refresh token
+// @route   POST /api/auth/refresh
+// @access  Public (refresh token in cookie or body)
+const refreshAccessToken = asyncHandler(async (req: Request, res: Response) => {
+  const presented = readRefreshToken(req);
+
+  if (!presented) {
+    res.status(401);
+    throw new Error('Not authorized, no refresh token');
+  }
+
+  try {
+    const { user, token: refreshToken } = await rotateRefreshToken(presented, req, res);
+    sendAuthResponse(res, 200, user, refreshToken);
+  } catch (error) {
+    // Don't leave a dead token in the browser
+    clearRefreshCookie(res);
+    throw error;
+  }
+});
+
+// @desc    Log out of the current session
+// @route   POST /api/auth/logout
+// @access  Public (refresh token in cookie or body)
+const logoutUser = asyncHandler(async (req: Request, res: Response) => {
+  const presented = readRefreshToken(req);
+
+  if (presented) {
+    await revokeRefreshToken(presented);
+  }
+  clearRefreshCookie(res);
+
+  res.status(200).json({ message: 'Logged out successfully' });
+});
+
+// @desc    Log out of every session of the authenticated user
+// @route   POST /api/auth/logout-all
+// @access  Private
+const logoutAllSessions = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  await revokeAllRefreshTokens(req.user._id as Types.ObjectId);
+  clearRefreshCookie(res);
+
+  // Access tokens already issued stay valid until they expire (minutes)
+  res.status(200).json({ message: 'Logged out of all sessions' });
+});
+
+// @desc    Get the authenticated user's settings
+// @route   GET /api/auth/settings
+// @access  Private
+const getSettings = asyncHandler(async (req: Request, res: Response) => {
+  res.status(200).json({ autoArchiveAfterDays: req.user!.autoArchiveAfterDays ?? null });
+});
+
+// @desc    Update the authenticated user's settings
+// @route   PUT /api/auth/settings  { autoArchiveAfterDays: number | null }
+// @access  Private
+const updateSettings = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  if (req.body.autoArchiveAfterDays !== undefined) {
+    user.autoArchiveAfterDays = validateAutoArchiveDays(req.body.autoArchiveAfterDays, res);
+  }
+  await user.save();
+
+  res.status(200).json({ autoArchiveAfterDays: user.autoArchiveAfterDays ?? null });
+});
+
+export {
+  forgotPassword,
+  getSettings,
+  loginUser,
+  logoutAllSessions,
+  logoutUser,
+  refreshAccessToken,
+  registerUser,
+  resendVerification,
+  resetPassword,
+  updateSettings,
+  verifyEmail,
+  verifyTwoFactorLogin,
+};
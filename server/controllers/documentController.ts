@@ -2,14 +2,24 @@
 
 import { Request, Response } from 'express';
 import asyncHandler from 'express-async-handler';
-import fs from 'fs/promises'; // Correct: Use fs/promises for async operations
-import { Types } from 'mongoose'; // For explicit type casting of ObjectId
-import path from 'path'; // For path manipulation
-
-// Import PDF-LIB for PDF manipulation
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib'; // Added rgb and StandardFonts for text signatures
-import Document from '../models/Document'; // Import Document model
+import { FilterQuery, Types } from 'mongoose'; // For explicit type casting of ObjectId
+import path from 'path';
+import Document, { IDocument, ISigner } from '../models/Document'; // Import Document model
 import { IUser } from '../models/User'; // Import IUser interface (for req.user typing)
+import { actorFromRequest, getAuditTrail, recordAuditEvent } from '../utils/auditLog';
+import { applyDeadlineChanges, cancelDeadlineJobs, scheduleDeadlineJobs } from '../utils/deadlines';
+import { authorizeDocument, findAuthorizedDocument } from '../utils/documentAccess';
+import { saveUploadedFile, sendPdfFile } from '../utils/documentFiles';
+import { normalizeNotes, normalizeTags, parseDocumentListQuery } from '../utils/documentQuery';
+import { addDocumentVersion } from '../utils/documentVersions';
+import { publishDocumentEvent } from '../utils/eventBus';
+import { findOrganizationForAction } from '../utils/organizationAccess';
+import { buildPdfFromUploads, IMAGE_PAGE_SIZES, ImagePageSize } from '../utils/pdfConvert';
+import { applySignatureToDocument, validateSigningRequest } from '../utils/pdfSignature';
+import { documentPermissions } from '../utils/policy';
+import { assertSignerCanSign, isSigningComplete } from '../utils/signingWorkflow';
+import { getStorage } from '../utils/storage';
+import { purgeDate } from '../utils/trash';
 
 // Extend the Request interface to include the user property (from authMiddleware)
 // and file property (from Multer)
@@ -20,28 +30,57 @@ declare module 'express' {
   }
 }
 
-// Define paths for uploads and signed documents
-const UPLOADS_DIR = path.join(__dirname, '../../uploads'); // Not directly used in this file, but good for context
-const SIGNED_DOCS_DIR = path.join(__dirname, '../../signed_documents');
+// Removed saveBase64ImageTemp as it's no longer used in applySignature for efficiency.
+
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
 
-// Ensure the signed documents directory exists on server startup
-const ensureSignedDocsDir = async () => {
-  try {
-    await fs.mkdir(SIGNED_DOCS_DIR, { recursive: true });
-    console.log(`Ensured signed documents directory exists: ${SIGNED_DOCS_DIR}`.green.bold);
-  } catch (error) {
-    console.error(`Error ensuring signed documents directory: ${error}`.red.bold);
+// The statuses a document can be given through PUT /api/docs/:id; 'declined' and 'expired' only
+// come out of the signing workflow and the deadline jobs
+const UPDATABLE_STATUSES: IDocument['status'][] = ['pending', 'signed', 'archived', 'reviewed'];
+
+// Check a status change asked for through PUT /api/docs/:id. While a document has signers, whether
+// it is pending or signed is up to them: it is completed (with its certificate) by the last
+// signature, so it can only be set back to the status its signers put it in (e.g. when unarchiving).
+// Sets a 400 status and throws otherwise.
+const validateStatusChange = (document: IDocument, status: unknown, res: Response): IDocument['status'] => {
+  if (typeof status !== 'string' || !UPDATABLE_STATUSES.includes(status as IDocument['status'])) {
+    res.status(400);
+    throw new Error(`status must be one of: ${UPDATABLE_STATUSES.join(', ')}.`);
   }
+
+  if (document.signers.length > 0 && status !== document.status && (status === 'pending' || status === 'signed')) {
+    const signersStatus = document.signers.some((signer) => signer.required && signer.status === 'declined')
+      ? 'declined'
+      : isSigningComplete(document)
+        ? 'signed'
+        : 'pending';
+    if (status !== signersStatus) {
+      res.status(400);
+      throw new Error(
+        `This document's signers have left it ${signersStatus}; it can't be marked ${status} by hand.`
+      );
+    }
+  }
+
+  return status as IDocument['status'];
 };
-ensureSignedDocsDir(); // Call this once when the server starts
 
-// Removed saveBase64ImageTemp as it's no longer used in applySignature for efficiency.
+// Mark a pending signer as having viewed the document
+const markSignerViewed = async (document: IDocument, signer?: ISigner) => {
+  if (signer && signer.status === 'pending') {
+    signer.status = 'viewed';
+    signer.viewedAt = new Date();
+    await document.save();
+  }
+};
 
-// @desc    Upload new document
-// @route   POST /api/docs/upload
+// @desc    Upload new document: one or more PDFs and PNG/JPEG images (field 'document'), merged into
+//          one PDF in the order given. Images become pages sized to the image, or fitted to A4 or Letter.
+// @route   POST /api/docs/upload  (multipart: document[], pageSize=fit|a4|letter, organization)
 // @access  Private
 const uploadDocument = asyncHandler(async (req: Request, res: Response) => {
-  if (!req.file) {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? (req.file ? [req.file] : []);
+  if (files.length === 0) {
     res.status(400);
     throw new Error('No file uploaded.');
   }
@@ -51,40 +90,89 @@ const uploadDocument = asyncHandler(async (req: Request, res: Response) => {
     throw new Error('Not authorized, no user token');
   }
 
-  const { originalname, filename, path: filePath, mimetype, size } = req.file;
+  const pageSize = (req.body.pageSize ?? 'fit') as ImagePageSize;
+  if (!IMAGE_PAGE_SIZES.includes(pageSize)) {
+    res.status(400);
+    throw new Error(`pageSize must be one of: ${IMAGE_PAGE_SIZES.join(', ')}.`);
+  }
+
+  // Uploading into an organization shares the document with its members
+  let organizationId: Types.ObjectId | undefined;
+  if (req.body.organization) {
+    const { organization } = await findOrganizationForAction(req, res, req.body.organization, 'add_documents');
+    organizationId = organization._id as Types.ObjectId;
+  }
 
-  const document = await Document.create({
+  // A single PDF is stored untouched (so any signatures inside it stay valid);
+  // anything else is converted and merged into a new PDF named after the first file
+  const [first] = files;
+  let bytes: Uint8Array = first.buffer;
+  let originalname = first.originalname;
+  if (files.length > 1 || first.mimetype !== 'application/pdf') {
+    try {
+      bytes = await buildPdfFromUploads(
+        files.map((file) => ({ originalName: file.originalname, bytes: file.buffer })),
+        pageSize
+      );
+    } catch (error) {
+      res.status(400);
+      throw error;
+    }
+    originalname = `${path.basename(first.originalname, path.extname(first.originalname))}.pdf`;
+  }
+
+  const { fileName: filename, filePath } = await saveUploadedFile(first.fieldname, originalname, bytes);
+
+  const document = new Document({
     user: req.user._id,
+    organization: organizationId,
     fileName: filename,
-    filePath: filePath, // This will be the path to the original file in 'uploads'
+    filePath: filePath, // Storage key of the original file, under 'uploads/'
     originalName: originalname,
-    fileType: mimetype,
-    fileSize: size,
+    fileType: 'application/pdf', // Images are converted, so documents are always PDFs
+    fileSize: bytes.length,
     uploadDate: new Date(),
     status: 'pending', // Default status for new uploads
   });
 
-  if (document) {
-    res.status(201).json({
-      message: 'Document uploaded successfully',
-      document: {
-        _id: document._id,
-        fileName: document.fileName,
-        originalName: document.originalName,
-        fileType: document.fileType,
-        fileSize: document.fileSize,
-        uploadDate: document.uploadDate,
-        status: document.status,
-      },
-    });
-  } else {
-    res.status(500);
-    throw new Error('Failed to save document metadata.');
-  }
+  // The upload becomes version 1 of the document's history
+  await addDocumentVersion(document, {
+    fileName: filename,
+    filePath,
+    bytes,
+    action: 'upload',
+    actor: actorFromRequest(req),
+  });
+  await document.save();
+
+  await recordAuditEvent(
+    req,
+    document,
+    'upload',
+    files.length > 1 || first.mimetype !== 'application/pdf' ? { sourceFiles: files.map((file) => file.originalname) } : undefined
+  );
+  publishDocumentEvent('document.uploaded', document);
+
+  res.status(201).json({
+    message: 'Document uploaded successfully',
+    document: {
+      _id: document._id,
+      fileName: document.fileName,
+      originalName: document.originalName,
+      fileType: document.fileType,
+      fileSize: document.fileSize,
+      organization: document.organization,
+      uploadDate: document.uploadDate,
+      status: document.status,
+      currentVersion: document.currentVersion,
+    },
+  });
 });
 
-// @desc    Get all documents for the authenticated user
-// @route   GET /api/docs
+// @desc    Get the authenticated user's documents, or those of one of their organizations, with
+//          optional filters, sorting and text search (see utils/documentQuery.ts). Returns an array of
+//          every match, or { documents, pagination } for one page when page or limit is given.
+// @route   GET /api/docs?organization=<id>&page=&limit=&status=&from=&to=&minSize=&maxSize=&tag=&q=&sort=
 // @access  Private
 const getMyDocuments = asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -92,9 +180,62 @@ const getMyDocuments = asyncHandler(async (req: Request, res: Response) => {
     throw new Error('Not authorized, no user token');
   }
 
-  const documents = await Document.find({ user: req.user._id }).sort({ uploadDate: -1 });
+  let baseFilter: FilterQuery<IDocument> = { user: req.user._id };
+  if (req.query.organization) {
+    const { organization } = await findOrganizationForAction(req, res, req.query.organization, 'list_documents');
+    baseFilter = { organization: organization._id };
+  }
+
+  const { filter, sort, projection, page, limit, paginated } = parseDocumentListQuery(req, res, baseFilter);
+
+  // Clients that don't ask for a page keep getting the plain array of every matching document
+  if (!paginated) {
+    res.status(200).json(await Document.find(filter, projection).sort(sort));
+    return;
+  }
 
-  res.status(200).json(documents);
+  const [documents, total] = await Promise.all([
+    Document.find(filter, projection)
+      .sort(sort)
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Document.countDocuments(filter),
+  ]);
+
+  res.status(200).json({
+    documents,
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  });
+});
+
+// @desc    Get the documents other users have shared with the authenticated user
+// @route   GET /api/docs/shared
+// @access  Private
+const getSharedDocuments = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const userId = req.user._id as Types.ObjectId;
+  const documents = await Document.find({ 'shares.user': userId })
+    .populate('user', 'name email')
+    .populate('shares.sharedBy', 'name email')
+    .sort({ uploadDate: -1 });
+
+  // Each document with who shared it and at what level; other users' shares aren't shown
+  const shared = documents.map((document) => {
+    const share = document.shares.find((entry) => entry.user.equals(userId))!;
+    const { shares, ...rest } = document.toObject();
+    return {
+      ...rest,
+      sharedBy: share.sharedBy,
+      permission: share.permission,
+      sharedAt: share.sharedAt,
+    };
+  });
+
+  res.status(200).json(shared);
 });
 
 
@@ -110,10 +251,8 @@ const getDocumentById = asyncHandler(async (req: Request, res: Response) => {
   const document = await Document.findById(req.params.id);
 
   if (document) {
-    if (document.user.toString() !== (req.user._id as Types.ObjectId).toString()) {
-      res.status(403); // Forbidden
-      throw new Error('Not authorized to view this document');
-    }
+    const { signer } = await authorizeDocument(req, res, document, 'view');
+    await markSignerViewed(document, signer);
     res.status(200).json(document);
   } else {
     res.status(404);
@@ -121,7 +260,8 @@ const getDocumentById = asyncHandler(async (req: Request, res: Response) => {
   }
 });
 
-// @desc    Delete a document
+// @desc    Delete a document: it moves to the trash, from which it can be restored until it is
+//          purged (see utils/trash.ts)
 // @route   DELETE /api/docs/:id
 // @access  Private
 const deleteDocument = asyncHandler(async (req: Request, res: Response) => {
@@ -133,29 +273,19 @@ const deleteDocument = asyncHandler(async (req: Request, res: Response) => {
   const document = await Document.findById(req.params.id);
 
   if (document) {
-    if (document.user.toString() !== (req.user._id as Types.ObjectId).toString()) {
-      res.status(403); // Forbidden
-      throw new Error('Not authorized to delete this document');
-    }
+    await authorizeDocument(req, res, document, 'delete');
 
-    // Delete the file that document.filePath currently points to (could be original or signed)
-    try {
-      await fs.access(document.filePath); // Check if file exists
-      await fs.unlink(document.filePath); // Delete the actual file
-      console.log(`Successfully deleted file: ${document.filePath}`);
-    } catch (error: any) {
-      // Log the error but don't stop execution if file doesn't exist (e.g., already deleted),
-      // as the document might still need to be removed from DB.
-      if (error.code === 'ENOENT') { // 'ENOENT' means file does not exist
-        console.warn(`File not found at ${document.filePath} for deletion, proceeding with DB removal.`);
-      } else {
-        console.error(`Error deleting file from filesystem at ${document.filePath}:`, error);
-      }
-    }
+    // Files stay until the document is purged
+    document.deletedAt = new Date();
+    document.deletedBy = req.user._id as Types.ObjectId;
+    await document.save();
+    await cancelDeadlineJobs(document);
 
-    await Document.deleteOne({ _id: document._id }); // Delete from database
+    const purgeAt = purgeDate(document);
+    await recordAuditEvent(req, document, 'delete', { trashed: true, purgeAt });
+    publishDocumentEvent('document.deleted', document, { trashed: true, purgeAt });
 
-    res.status(200).json({ message: 'Document removed' });
+    res.status(200).json({ message: 'Document moved to the trash', purgeAt });
   } else {
     res.status(404);
     throw new Error('Document not found');
@@ -174,29 +304,12 @@ const viewDocument = asyncHandler(async (req: Request, res: Response) => {
   const document = await Document.findById(req.params.id);
 
   if (document) {
-    // Ensure the document belongs to the authenticated user
-    if (document.user.toString() !== (req.user._id as Types.ObjectId).toString()) {
-      res.status(403); // Forbidden
-      throw new Error('Not authorized to view this document');
-    }
-
-    const filePathToServe = document.filePath;
+    // Owners, members of its organization and its signers may open it
+    const { signer } = await authorizeDocument(req, res, document, 'view');
+    await markSignerViewed(document, signer);
 
-    try {
-      // Check if the file exists before sending
-      await fs.access(filePathToServe); // Throws an error if file does not exist
-
-      // Set headers for PDF viewing
-      res.setHeader('Content-Type', 'application/pdf');
-      // FIX: Use encodeURIComponent directly, remove deprecated escape
-      const safeOriginalName = encodeURIComponent(document.originalName);
-      res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${safeOriginalName}`);
-      res.sendFile(filePathToServe); // Send the file
-    } catch (fileError) {
-      console.error(`File not found at ${filePathToServe}:`, fileError);
-      res.status(404);
-      throw new Error('File not found on server.');
-    }
+    await sendPdfFile(res, document.filePath, document.originalName);
+    await recordAuditEvent(req, document, 'view');
   } else {
     res.status(404);
     throw new Error('Document metadata not found.');
@@ -204,7 +317,31 @@ const viewDocument = asyncHandler(async (req: Request, res: Response) => {
 });
 
 
-// @desc    Apply a signature to a document
+// @desc    Get a short-lived URL to download the current file of a document
+// @route   GET /api/docs/:id/download-url?disposition=attachment
+// @access  Private (anyone who may view the document)
+const getDocumentDownloadUrl = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view');
+  const disposition = req.query.disposition === 'attachment' ? 'attachment' : 'inline';
+
+  const expiresAt = new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000);
+  const url = await getStorage().signedUrl(document.filePath, {
+    expiresInSeconds: DOWNLOAD_URL_TTL_SECONDS,
+    fileName: document.originalName,
+    contentType: 'application/pdf',
+    disposition,
+  });
+
+  // Whoever follows the link sees the file, so issuing it counts as viewing
+  await recordAuditEvent(req, document, 'view', { via: 'download_url' });
+
+  res.status(200).json({ url, expiresAt });
+});
+
+
+// @desc    Apply a signature to a document. Positions and sizes are given in pixels of the rendered
+//          page (with pdfPageDimensions), PDF points or page fractions, chosen with units
+//          (see utils/pdfSignature.ts and GET /api/docs/:id/pages).
 // @route   POST /api/docs/sign/:id
 // @access  Private
 const applySignature = asyncHandler(async (req: Request, res: Response) => {
@@ -214,77 +351,8 @@ const applySignature = asyncHandler(async (req: Request, res: Response) => {
   }
 
   const documentId = req.params.id;
-  const {
-    signatureData, // Base64 string for image, or plain text for text signature
-    signaturePosition, // {x: number, y: number} from frontend
-    pdfPageDimensions, // {width: number, height: number} of rendered PDF on frontend
-    pageNumber,
-    signatureType, // 'draw', 'upload', 'text'
-    signatureFileExtension // 'png', 'jpeg' (only for image types)
-  } = req.body;
-
-  // --- START: Detailed Validation Checks ---
-  console.log('--- Inside applySignature controller ---'.cyan.bold);
-  console.log('Full Request Body Received (first 500 chars):', JSON.stringify(req.body).substring(0, 500) + '...');
-  console.log('Validating incoming data...');
-
-  if (!signatureData || typeof signatureData !== 'string' || signatureData.trim() === '') {
-    console.error('Validation Error: signatureData is missing, not a string, or empty.');
-    res.status(400);
-    throw new Error('Missing or empty signature data.');
-  }
-
-  if (!signaturePosition || typeof signaturePosition.x !== 'number' || typeof signaturePosition.y !== 'number') {
-    console.error('Validation Error: Invalid signaturePosition.');
-    res.status(400);
-    throw new Error('Invalid signaturePosition. Must be an object with numeric x and y.');
-  }
-
-  if (!pdfPageDimensions || typeof pdfPageDimensions.width !== 'number' || typeof pdfPageDimensions.height !== 'number' || pdfPageDimensions.width <= 0 || pdfPageDimensions.height <= 0) {
-    console.error('Validation Error: Invalid pdfPageDimensions.');
-    res.status(400);
-    throw new Error('Invalid PDF container dimensions. Must be an object with positive numeric width and height.');
-  }
-
-  if (typeof pageNumber !== 'number' || pageNumber < 1) {
-    console.error('Validation Error: Invalid pageNumber.');
-    res.status(400);
-    throw new Error('Invalid page number. Must be a positive integer.');
-  }
-
-  if (!signatureType || !['draw', 'upload', 'text'].includes(signatureType)) {
-    console.error('Validation Error: Invalid signatureType.');
-    res.status(400);
-    throw new Error('Invalid signature type. Must be "draw", "upload", or "text".');
-  }
-
-  // Validate signatureData format based on type
-  if (signatureType === 'draw' || signatureType === 'upload') {
-    if (!signatureData.startsWith('data:image/')) {
-        console.error('Validation Error: Image signatureData does not start with data:image/.');
-        res.status(400);
-        throw new Error('Image signature data must be a valid data URL (e.g., data:image/png;base64,...).');
-    }
-    // Ensure signatureFileExtension is provided and valid for image types
-    if (!signatureFileExtension || typeof signatureFileExtension !== 'string' || !['png', 'jpeg', 'jpg'].includes(signatureFileExtension.toLowerCase())) {
-        console.error('Validation Error: Invalid or missing signatureFileExtension for image type.');
-        res.status(400);
-        throw new Error('Missing or invalid signature file extension for image types. Must be "png" or "jpeg".'); // FIX: Removed extra 'new' here
-    }
-  } else if (signatureType === 'text') {
-      // No specific format validation for text beyond being a non-empty string
-  }
-
-  console.log('Data validation passed.');
-  // --- END: Detailed Validation Checks ---
 
-  // Log parsed data for debugging purposes
-  console.log('signatureData length:', signatureData.length);
-  console.log('signaturePosition:', signaturePosition);
-  console.log('pdfPageDimensions:', pdfPageDimensions);
-  console.log('pageNumber:', pageNumber);
-  console.log('signatureType:', signatureType);
-  console.log('signatureFileExtension:', signatureFileExtension);
+  const payload = validateSigningRequest(req.body, res);
 
   try {
     const document = await Document.findById(documentId);
@@ -294,127 +362,44 @@ const applySignature = asyncHandler(async (req: Request, res: Response) => {
       throw new Error('Document not found.');
     }
 
-    if (document.user.toString() !== (req.user._id as Types.ObjectId).toString()) {
-      res.status(403); // Forbidden
-      throw new Error('Not authorized to sign this document.');
-    }
+    // Documents without signers are signed by their owner. Otherwise the caller
+    // must be one of the signers, and it must be their turn.
+    let signer: ISigner | undefined;
+    if (document.signers.length > 0) {
+      signer = (await documentPermissions(req.user, document)).signer;
 
-    // Read the current version of the PDF (could be original or already signed)
-    const existingPdfBytes = await fs.readFile(document.filePath);
-    const pdfDoc = await PDFDocument.load(existingPdfBytes);
-    const pages = pdfDoc.getPages();
+      if (!signer) {
+        res.status(403); // Forbidden
+        throw new Error('You are not a signer on this document.');
+      }
 
-    if (pageNumber < 1 || pageNumber > pages.length) {
-      res.status(400);
-      throw new Error(`Page number ${pageNumber} is out of bounds. Document has ${pages.length} pages.`);
-    }
+      assertSignerCanSign(document, signer, res);
+    } else {
+      await authorizeDocument(req, res, document, 'sign');
 
-    const targetPage = pages[pageNumber - 1]; // PDF-LIB pages are 0-indexed
-
-    // Get the actual dimensions of the PDF page at its original size (in PDF points)
-    const pdfPageOriginalWidth = targetPage.getWidth();
-    const pdfPageOriginalHeight = targetPage.getHeight();
-
-    // Calculate scaling factors from frontend rendered dimensions to PDF original dimensions
-    const scaleX = pdfPageOriginalWidth / pdfPageDimensions.width;
-    const scaleY = pdfPageOriginalHeight / pdfPageDimensions.height;
-
-    let finalSignatureWidth: number;
-    let finalSignatureHeight: number;
-
-    // Calculate position based on frontend coordinates and PDF scaling
-    // Frontend signaturePosition.x/y are top-left of the draggable element
-    let finalX = signaturePosition.x * scaleX;
-    let finalY: number; // Will be calculated based on type
-
-    if (signatureType === 'text') {
-      const font = await pdfDoc.embedFont(StandardFonts.Helvetica); // Or another font like TimesRoman
-      const fontSize = 24; // Default font size for text signatures on PDF
-      const textWidth = font.widthOfTextAtSize(signatureData, fontSize);
-      const textHeight = font.heightAtSize(fontSize);
-
-      finalSignatureWidth = textWidth;
-      finalSignatureHeight = textHeight;
-
-      // For text, pdf-lib's drawText uses the baseline of the text.
-      // Frontend Y is top of the element.
-      // So, pdfY = pdfPageHeight - (frontendTopY * scaleY) - scaledTextHeight
-      finalY = pdfPageOriginalHeight - (signaturePosition.y * scaleY) - finalSignatureHeight;
-
-      targetPage.drawText(signatureData, {
-        x: finalX,
-        y: finalY,
-        font: font,
-        size: fontSize,
-        color: rgb(0, 0, 0), // Black color for text signatures
-      });
-
-    } else { // 'draw' or 'upload' image signatures
-      const base64ImagePart = signatureData.split(',')[1];
-      const signatureImageBytes = Buffer.from(base64ImagePart, 'base64');
-
-      let embeddedSignatureImage;
-      if (signatureData.startsWith('data:image/png')) {
-        embeddedSignatureImage = await pdfDoc.embedPng(signatureImageBytes);
-      } else if (signatureData.startsWith('data:image/jpeg') || signatureData.startsWith('data:image/jpg')) {
-        embeddedSignatureImage = await pdfDoc.embedJpg(signatureImageBytes);
-      } else {
-        // This should ideally be caught by initial validation, but as a safeguard
+      if (document.status === 'expired') {
         res.status(400);
-        throw new Error('Unsupported signature image format. Only PNG and JPEG are supported.');
+        throw new Error('This document expired and can no longer be signed; move its due date to reopen it.');
       }
-
-      // Frontend image display size (e.g., 150px width, auto height with max-height)
-      // We need to scale the *embedded image's intrinsic dimensions* to the PDF.
-      // If frontend has a fixed display width, we can use that as a reference for scaling.
-      const frontendDisplayWidth = 150; // As per frontend CSS
-      // Calculate frontend display height based on aspect ratio
-      const frontendDisplayHeight = embeddedSignatureImage.height * (frontendDisplayWidth / embeddedSignatureImage.width);
-
-      // Scale these frontend display dimensions to PDF units
-      finalSignatureWidth = frontendDisplayWidth * scaleX;
-      finalSignatureHeight = frontendDisplayHeight * scaleY;
-
-      // PDF-lib's drawImage uses the bottom-left corner.
-      // Frontend Y is top-left of the draggable element.
-      // So, pdfY = pdfPageHeight - (frontendTopY * scaleY) - scaledImageHeight
-      finalY = pdfPageOriginalHeight - (signaturePosition.y * scaleY) - finalSignatureHeight;
-
-      targetPage.drawImage(embeddedSignatureImage, {
-        x: finalX,
-        y: finalY,
-        width: finalSignatureWidth,
-        height: finalSignatureHeight,
-      });
     }
 
-    // Ensure signature stays within page bounds (optional, but good practice)
-    // This clamps the position to prevent drawing outside the page
-    finalX = Math.max(0, Math.min(finalX, pdfPageOriginalWidth - finalSignatureWidth));
-    finalY = Math.max(0, Math.min(finalY, pdfPageOriginalHeight - finalSignatureHeight));
-
-
-    const modifiedPdfBytes = await pdfDoc.save();
+    const previousStatus = document.status;
+    await applySignatureToDocument(document, payload, req, res, signer);
 
-    // Generate a new unique filename for the signed version
-    const originalExt = path.extname(document.originalName);
-    const baseName = path.basename(document.originalName, originalExt);
-    const newFileName = `${baseName}_signed_${Date.now()}.pdf`;
-    const newFilePath = path.join(SIGNED_DOCS_DIR, newFileName); // Save to signed_documents folder
-
-    await fs.writeFile(newFilePath, modifiedPdfBytes);
-
-    // Update document metadata in DB
-    document.filePath = newFilePath; // CRITICAL: Update filePath to point to the new signed file
-    document.fileName = newFileName; // Update fileName to reflect the new file
-    document.status = 'signed'; // Set status to 'signed'
-    document.lastSignedAt = new Date(); // Track when it was signed
-    await document.save();
+    publishDocumentEvent('document.signed', document, {
+      signer: signer ? { email: signer.email, name: signer.name } : { email: req.user.email, name: req.user.name },
+      digitallySigned: !!payload.digitalSignature,
+    });
+    if (document.status !== previousStatus) {
+      publishDocumentEvent('document.status_changed', document, { from: previousStatus, to: document.status });
+    }
 
     res.status(200).json({
       message: 'Document signed successfully!',
       documentId: document._id,
       newStatus: document.status,
+      signers: document.signers,
+      digitallySigned: !!payload.digitalSignature,
       // Provide a relative URL that the frontend can use to view the updated document
       // Assuming you have a static route for /signed_documents or view endpoint
       signedDocumentUrl: `/api/docs/view/${document._id}`,
@@ -433,7 +418,11 @@ const applySignature = asyncHandler(async (req: Request, res: Response) => {
 });
 
 
-// @desc    Update document metadata (e.g., status)
+// @desc    Update document metadata (status, tags, notes, organization) and its signing deadline:
+//          dueDate (ISO date or null), reminderSchedule ({ daysBefore: [3, 1], overdueEveryDays: 1 } or null)
+//          and gracePeriodDays (days after the due date before a pending document expires; default 0).
+//          Overdue reminders are only sent during the grace period. A document with signers is only
+//          completed by their signatures, so its status can't be set to pending or signed by hand.
 // @route   PUT /api/docs/:id
 // @access  Private
 const updateDocument = asyncHandler(async (req: Request, res: Response) => {
@@ -445,21 +434,58 @@ const updateDocument = asyncHandler(async (req: Request, res: Response) => {
   const document = await Document.findById(req.params.id);
 
   if (document) {
-    // Ensure the document belongs to the authenticated user
-    if (document.user.toString() !== (req.user._id as Types.ObjectId).toString()) {
-      res.status(403); // Forbidden
-      throw new Error('Not authorized to update this document');
+    const permissions = await authorizeDocument(req, res, document, 'update');
+
+    // Moving a document into or out of an organization is up to its owner, who must be
+    // allowed to add documents to the new organization. null makes it personal again.
+    if (req.body.organization !== undefined) {
+      if (!permissions.isOwner) {
+        res.status(403); // Forbidden
+        throw new Error('Only the owner can move this document to another organization');
+      }
+      if (req.body.organization === null) {
+        document.organization = undefined;
+      } else {
+        const { organization } = await findOrganizationForAction(req, res, req.body.organization, 'add_documents');
+        document.organization = organization._id as Types.ObjectId;
+      }
+    }
+
+    if (req.body.tags !== undefined) {
+      document.tags = normalizeTags(req.body.tags, res);
+    }
+    if (req.body.notes !== undefined) {
+      document.notes = normalizeNotes(req.body.notes, res);
     }
 
-    document.status = req.body.status || document.status;
+    const previousStatus = document.status;
+    const deadlineChanged = applyDeadlineChanges(document, req.body, res);
+    if (req.body.status !== undefined) {
+      document.status = validateStatusChange(document, req.body.status, res);
+    }
     const updatedDocument = await document.save();
 
+    if (deadlineChanged || previousStatus !== updatedDocument.status) {
+      await scheduleDeadlineJobs(updatedDocument);
+    }
+
+    if (previousStatus !== updatedDocument.status) {
+      await recordAuditEvent(req, updatedDocument, 'status_change', { from: previousStatus, to: updatedDocument.status });
+      publishDocumentEvent('document.status_changed', updatedDocument, { from: previousStatus, to: updatedDocument.status });
+    }
+
     res.status(200).json({
       message: 'Document updated successfully',
       document: {
         _id: updatedDocument._id,
         originalName: updatedDocument.originalName,
+        organization: updatedDocument.organization,
         status: updatedDocument.status,
+        tags: updatedDocument.tags,
+        notes: updatedDocument.notes,
+        dueDate: updatedDocument.dueDate,
+        reminderSchedule: updatedDocument.reminderSchedule,
+        gracePeriodDays: updatedDocument.gracePeriodDays,
       },
     });
   } else {
@@ -469,8 +495,20 @@ const updateDocument = asyncHandler(async (req: Request, res: Response) => {
 });
 
 
+// @desc    Get the audit trail of a document
+// @route   GET /api/docs/:id/audit
+// @access  Private (owner, organization admin or manager)
+const getDocumentAudit = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view_audit');
+
+  const events = await getAuditTrail(document._id as Types.ObjectId);
+
+  res.status(200).json(events);
+});
+
+
 // IMPORTANT: Export all functions that will be used in your routes
 export {
-  applySignature, deleteDocument, getDocumentById, getMyDocuments, // Ensure applySignature is exported
-  updateDocument, uploadDocument, viewDocument
+  applySignature, deleteDocument, getDocumentAudit, getDocumentById, getMyDocuments, // Ensure applySignature is exported
+  getDocumentDownloadUrl, getSharedDocuments, updateDocument, uploadDocument, viewDocument
 };
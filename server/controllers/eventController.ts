@@ -0,0 +1,25 @@
+// server/controllers/eventController.ts
+
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { openEventStream } from '../utils/eventStream';
+
+// @desc    Stream real-time events about the documents the user may view, as Server-Sent Events:
+//          document.uploaded, document.signed, document.status_changed and document.deleted.
+//          Reconnect with the Last-Event-ID header (or ?lastEventId=) to receive missed events; a
+//          'resync' event means they are gone and the client should reload. The stream ends with a
+//          'token_expired' event when the access token expires; reconnect with a fresh one.
+// @route   GET /api/events  (Bearer token, or ?access_token= for EventSource)
+// @access  Private
+const streamEvents = (req: Request, res: Response) => {
+  const lastEventId =
+    req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+  // protect has verified the token; only its expiry is needed here
+  const token = req.headers.authorization!.split(' ')[1];
+  const { exp } = (jwt.decode(token) ?? {}) as { exp?: number };
+
+  openEventStream(res, req.user!, lastEventId, exp ? new Date(exp * 1000) : undefined);
+};
+
+export { streamEvents };
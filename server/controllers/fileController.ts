@@ -0,0 +1,22 @@
+// server/controllers/fileController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { sendStoredFile } from '../utils/documentFiles';
+import { verifySignedUrl } from '../utils/storage/localDriver';
+
+// @desc    Serve a stored file through a signed URL issued by the local storage driver
+// @route   GET /api/files?key=&expires=&disposition=&name=&type=&signature=
+// @access  Public (the signature is the authorization)
+const serveSignedFile = asyncHandler(async (req: Request, res: Response) => {
+  const signed = verifySignedUrl(req.query);
+
+  if (!signed) {
+    res.status(403); // Forbidden
+    throw new Error('This file link is invalid or has expired.');
+  }
+
+  await sendStoredFile(res, signed.key, signed.contentType, signed.fileName, signed.disposition);
+});
+
+export { serveSignedFile };
@@ -0,0 +1,105 @@
+// server/controllers/fontController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { Types } from 'mongoose';
+import Font, { IFont } from '../models/Font';
+import { SIGNATURE_FONTS } from '../models/SavedSignature';
+import { removeStoredFile } from '../utils/documentFiles';
+import { sha256 } from '../utils/fileHash';
+import { BUNDLED_FONTS, forgetFont, inspectFontFile } from '../utils/fonts';
+import { getStorage } from '../utils/storage';
+
+const MAX_FONT_NAME_LENGTH = 60;
+
+// Shape of an uploaded font as returned to the client
+const uploadedFontSummary = (font: IFont) => ({
+  id: font._id,
+  name: font.name,
+  type: 'uploaded',
+  family: font.family,
+  glyphCount: font.glyphCount,
+  createdAt: font.createdAt,
+});
+
+// @desc    List the fonts that can be used for typed signatures: standard PDF fonts (Latin only),
+//          bundled handwriting fonts and fonts uploaded by admins. Use the id as the sign request's font.
+// @route   GET /api/fonts
+// @access  Private
+const getFonts = asyncHandler(async (req: Request, res: Response) => {
+  const uploaded = await Font.find().sort({ name: 1 });
+
+  res.status(200).json({
+    fonts: [
+      ...SIGNATURE_FONTS.map((id) => ({ id, name: id, type: 'standard', scripts: ['latin'] })),
+      ...Object.entries(BUNDLED_FONTS).map(([id, font]) => ({ id, name: font.name, type: 'bundled', scripts: font.scripts })),
+      ...uploaded.map(uploadedFontSummary),
+    ],
+  });
+});
+
+// @desc    Upload a TrueType font for typed signatures
+// @route   POST /api/fonts  (multipart: font, name?)
+// @access  Private (admins)
+const uploadFont = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.file) {
+    res.status(400);
+    throw new Error('No font file uploaded.');
+  }
+
+  let inspected;
+  try {
+    inspected = inspectFontFile(req.file.buffer);
+  } catch (error) {
+    res.status(400);
+    throw error;
+  }
+
+  const name = typeof req.body.name === 'string' && req.body.name.trim() ? req.body.name.trim() : inspected.family;
+  if (name.length > MAX_FONT_NAME_LENGTH) {
+    res.status(400);
+    throw new Error(`name must be at most ${MAX_FONT_NAME_LENGTH} characters.`);
+  }
+
+  if (await Font.exists({ name })) {
+    res.status(400);
+    throw new Error(`A font named "${name}" already exists.`);
+  }
+
+  const font = new Font({
+    name,
+    family: inspected.family,
+    fileName: req.file.originalname,
+    fileSize: req.file.size,
+    sha256: sha256(req.file.buffer),
+    glyphCount: inspected.glyphCount,
+    uploadedBy: req.user!._id,
+  });
+  font.filePath = `fonts/${(font._id as Types.ObjectId).toString()}.ttf`;
+
+  await getStorage().put(font.filePath, req.file.buffer, 'font/ttf');
+  await font.save();
+
+  res.status(201).json(uploadedFontSummary(font));
+});
+
+// @desc    Delete an uploaded font. Saved signatures using it can no longer be signed with
+//          until their style is changed.
+// @route   DELETE /api/fonts/:id
+// @access  Private (admins)
+const deleteFont = asyncHandler(async (req: Request, res: Response) => {
+  const font = Types.ObjectId.isValid(req.params.id) ? await Font.findById(req.params.id) : null;
+
+  if (!font) {
+    res.status(404);
+    throw new Error('Font not found');
+  }
+
+  await removeStoredFile(font.filePath);
+  await font.deleteOne();
+  forgetFont(req.params.id);
+
+  res.status(200).json({ message: 'Font deleted successfully', id: font._id });
+});
+
+export { deleteFont, getFonts, uploadFont };
@@ -0,0 +1,121 @@
+// server/controllers/formController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import Document, { IDocument } from '../models/Document';
+import { actorFromRequest, recordAuditEvent } from '../utils/auditLog';
+import { findAuthorizedDocument } from '../utils/documentAccess';
+import { loadDocumentPdf, saveSignedFile } from '../utils/documentFiles';
+import { addDocumentVersion } from '../utils/documentVersions';
+import { fillFormFields, flattenForm, listFormFields } from '../utils/pdfForm';
+import { canOnDocument, documentPermissions } from '../utils/policy';
+import { assertSignerCanSign } from '../utils/signingWorkflow';
+
+// Load the document and make sure the caller may fill its form: the owner (or someone it is
+// shared with to sign) while it is pending, or a signer whose turn it is. Sets the matching
+// status and throws otherwise.
+const findFillableDocument = async (req: Request, res: Response): Promise<IDocument> => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const document = await Document.findById(req.params.id);
+
+  if (!document) {
+    res.status(404);
+    throw new Error('Document not found');
+  }
+
+  const permissions = await documentPermissions(req.user, document);
+  const canSign = canOnDocument(permissions, 'sign');
+  const signer = permissions.signer;
+
+  if (signer && !canSign) {
+    assertSignerCanSign(document, signer, res);
+  } else if (!canSign) {
+    res.status(403); // Forbidden
+    throw new Error('Not authorized to fill this document');
+  } else if (document.status !== 'pending') {
+    res.status(400);
+    throw new Error(`This document is ${document.status} and can no longer be filled.`);
+  }
+
+  return document;
+};
+
+// @desc    List the interactive form fields of a document's current revision
+// @route   GET /api/docs/:id/form
+// @access  Private (anyone who may view the document)
+const getFormFields = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view');
+  const pdfDoc = await loadDocumentPdf(document, res);
+
+  res.status(200).json({
+    documentId: document._id,
+    currentVersion: document.currentVersion,
+    fields: listFormFields(pdfDoc),
+  });
+});
+
+// @desc    Fill form fields by name, optionally flattening the form, as a new revision
+// @route   POST /api/docs/:id/form
+// @access  Private (owner, or the signer whose turn it is)
+const fillForm = asyncHandler(async (req: Request, res: Response) => {
+  const { values, flatten = false } = req.body;
+
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    res.status(400);
+    throw new Error('values must be an object mapping field names to values.');
+  }
+
+  if (typeof flatten !== 'boolean') {
+    res.status(400);
+    throw new Error('flatten must be a boolean.');
+  }
+
+  if (Object.keys(values).length === 0 && !flatten) {
+    res.status(400);
+    throw new Error('Nothing to do: provide values to fill or set flatten to true.');
+  }
+
+  const document = await findFillableDocument(req, res);
+  const pdfDoc = await loadDocumentPdf(document, res);
+
+  const filled = fillFormFields(pdfDoc, values, res);
+
+  let modifiedPdfBytes: Uint8Array;
+  try {
+    if (flatten) {
+      flattenForm(pdfDoc);
+    }
+    modifiedPdfBytes = await pdfDoc.save();
+  } catch (error) {
+    // Typically a value the form's font can't display
+    res.status(400);
+    throw new Error(`Failed to update the form: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { fileName, filePath } = await saveSignedFile(document.originalName, modifiedPdfBytes);
+  await addDocumentVersion(document, {
+    fileName,
+    filePath,
+    bytes: modifiedPdfBytes,
+    action: 'form_fill',
+    actor: actorFromRequest(req),
+    pageCount: pdfDoc.getPageCount(),
+  });
+  await document.save();
+
+  await recordAuditEvent(req, document, 'form_fill', { fields: filled, flattened: flatten });
+
+  res.status(200).json({
+    message: flatten ? 'Form filled and flattened' : 'Form filled',
+    documentId: document._id,
+    currentVersion: document.currentVersion,
+    filled,
+    fields: listFormFields(pdfDoc),
+  });
+});
+
+export { fillForm, getFormFields };
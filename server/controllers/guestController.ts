@@ -0,0 +1,294 @@
+// server/controllers/guestController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { Types } from 'mongoose';
+import SigningLink from '../models/SigningLink';
+import User from '../models/User';
+import { recordAuditEvent, recordDecline } from '../utils/auditLog';
+import { findAuthorizedDocument } from '../utils/documentAccess';
+import { publishDocumentEvent } from '../utils/eventBus';
+import { trySendMail } from '../utils/mailer';
+import { signingRequestMail } from '../utils/mailTemplates';
+import { sendPdfFile } from '../utils/documentFiles';
+import { applySignatureToDocument, validateSigningRequest } from '../utils/pdfSignature';
+import { DEFAULT_LINK_TTL_HOURS, issueSigningLink, revokeSigningLinks } from '../utils/signingLinks';
+import { assertSignerCanSign, findSignerByEmail, isSignersTurn } from '../utils/signingWorkflow';
+
+const MAX_LINK_TTL_HOURS = 24 * 30;
+
+// The guest's signer entry on the linked document
+const findGuestSigner = (req: Request, res: Response) => {
+  const signer = findSignerByEmail(req.guestDocument!, req.signingLink!.email);
+
+  if (!signer) {
+    // The signer was removed after the link was issued
+    res.status(403); // Forbidden
+    throw new Error('This signing link is no longer valid for this document');
+  }
+
+  return signer;
+};
+
+// Mark the request's signing link as used before acting on it. Links are single-use, and the
+// update only matches an unused link, so of two concurrent requests only one gets through.
+// Sets a 410 status and throws if the link was used or revoked meanwhile.
+const claimSigningLink = async (req: Request, res: Response): Promise<Date> => {
+  const usedAt = new Date();
+  const claimed = await SigningLink.findOneAndUpdate(
+    { _id: req.signingLink!._id, usedAt: null, revokedAt: null },
+    { usedAt },
+    { new: true }
+  );
+
+  if (!claimed) {
+    res.status(410); // Gone
+    throw new Error('This signing link has already been used');
+  }
+
+  req.signingLink = claimed;
+  return usedAt;
+};
+
+// Hand a claimed link back when the action it was claimed for failed, so the guest can try again
+const releaseSigningLink = async (req: Request, usedAt: Date): Promise<void> => {
+  await SigningLink.updateOne({ _id: req.signingLink!._id, usedAt }, { $unset: { usedAt: 1 } });
+};
+
+// @desc    Create a signing link for a guest signer
+// @route   POST /api/docs/:id/links
+// @access  Private (owner, organization admin or manager)
+const createSigningLink = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'manage_signers');
+  const { email, name, expiresInHours, sendEmail = true } = req.body;
+
+  if (!email || typeof email !== 'string' || !/.+@.+\..+/.test(email)) {
+    res.status(400);
+    throw new Error('A valid signer email is required.');
+  }
+
+  const ttlHours = expiresInHours ?? DEFAULT_LINK_TTL_HOURS;
+  if (typeof ttlHours !== 'number' || ttlHours <= 0 || ttlHours > MAX_LINK_TTL_HOURS) {
+    res.status(400);
+    throw new Error(`expiresInHours must be a number between 0 and ${MAX_LINK_TTL_HOURS}.`);
+  }
+
+  if (typeof sendEmail !== 'boolean') {
+    res.status(400);
+    throw new Error('sendEmail must be a boolean.');
+  }
+
+  if (document.status !== 'pending') {
+    res.status(400);
+    throw new Error(`Signing links cannot be created for a ${document.status} document.`);
+  }
+
+  // A guest signs as a regular signer, so make sure they are on the signer list
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!findSignerByEmail(document, normalizedEmail)) {
+    const existingUser = await User.findOne({ email: normalizedEmail, emailVerified: { $ne: false } });
+    const lastOrder = document.signers.reduce((max, signer) => Math.max(max, signer.order), 0);
+    document.signers.push({
+      user: existingUser?._id,
+      email: normalizedEmail,
+      name: name || existingUser?.name,
+      order: lastOrder + 1,
+      required: true,
+      status: 'pending',
+    });
+    await document.save();
+  }
+
+  // Only one live link per signer: issuing a new one revokes the previous ones
+  await revokeSigningLinks(document, normalizedEmail);
+  const { link, token, url: signingUrl } = await issueSigningLink(
+    document,
+    normalizedEmail,
+    req.user!._id as Types.ObjectId,
+    ttlHours
+  );
+
+  // Mail the link to the signer unless the owner wants to pass it on themselves
+  const emailSent = sendEmail
+    ? await trySendMail(signingRequestMail({
+      to: normalizedEmail,
+      recipientName: findSignerByEmail(document, normalizedEmail)?.name,
+      senderName: req.user!.name,
+      documentName: document.originalName,
+      url: signingUrl,
+      expiresAt: link.expiresAt,
+    }))
+    : false;
+
+  // The raw token is only returned here; the database only keeps its hash
+  res.status(201).json({
+    _id: link._id,
+    email: link.email,
+    expiresAt: link.expiresAt,
+    token,
+    signingUrl,
+    emailSent,
+  });
+});
+
+// @desc    List the signing links of a document
+// @route   GET /api/docs/:id/links
+// @access  Private (owner, organization admin or manager)
+const getSigningLinks = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'manage_signers');
+
+  const links = await SigningLink.find({ document: document._id })
+    .select('-tokenHash')
+    .sort({ createdAt: -1 });
+
+  res.status(200).json(links);
+});
+
+// @desc    Revoke a signing link
+// @route   DELETE /api/docs/:id/links/:linkId
+// @access  Private (owner, organization admin or manager)
+const revokeSigningLink = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'manage_signers');
+
+  const link = await SigningLink.findOne({ _id: req.params.linkId, document: document._id });
+
+  if (!link) {
+    res.status(404);
+    throw new Error('Signing link not found');
+  }
+
+  if (!link.revokedAt) {
+    link.revokedAt = new Date();
+    await link.save();
+  }
+
+  res.status(200).json({ message: 'Signing link revoked' });
+});
+
+// @desc    Get the document behind a signing link (metadata only)
+// @route   GET /api/guest/:token
+// @access  Public (signing link)
+const getGuestDocument = asyncHandler(async (req: Request, res: Response) => {
+  const document = req.guestDocument!;
+  const signer = findGuestSigner(req, res);
+
+  res.status(200).json({
+    _id: document._id,
+    originalName: document.originalName,
+    status: document.status,
+    signer: {
+      email: signer.email,
+      name: signer.name,
+      status: signer.status,
+    },
+    isMyTurn: document.status === 'pending' && isSignersTurn(document, signer),
+    expiresAt: req.signingLink!.expiresAt,
+  });
+});
+
+// @desc    View the PDF behind a signing link
+// @route   GET /api/guest/:token/view
+// @access  Public (signing link)
+const viewGuestDocument = asyncHandler(async (req: Request, res: Response) => {
+  const document = req.guestDocument!;
+  const signer = findGuestSigner(req, res);
+
+  if (signer.status === 'pending') {
+    signer.status = 'viewed';
+    signer.viewedAt = new Date();
+    await document.save();
+  }
+
+  await sendPdfFile(res, document.filePath, document.originalName);
+  await recordAuditEvent(req, document, 'view');
+});
+
+// @desc    Apply a guest signature through a signing link
+// @route   POST /api/guest/:token/sign
+// @access  Public (signing link)
+const applyGuestSignature = asyncHandler(async (req: Request, res: Response) => {
+  const document = req.guestDocument!;
+  const signer = findGuestSigner(req, res);
+  const payload = validateSigningRequest(req.body, res);
+
+  assertSignerCanSign(document, signer, res);
+
+  const usedAt = await claimSigningLink(req, res);
+  const previousStatus = document.status;
+  try {
+    await applySignatureToDocument(document, payload, req, res, signer);
+  } catch (err) {
+    await releaseSigningLink(req, usedAt);
+    console.error('Error processing guest PDF signature:'.red.bold, err);
+    if (res.statusCode === 200) {
+      res.status(500);
+    }
+    throw new Error(
+      `Failed to apply signature to PDF: ${(err instanceof Error && err.message) || 'Internal server error'}`
+    );
+  }
+
+  publishDocumentEvent('document.signed', document, {
+    signer: { email: signer.email, name: signer.name },
+    digitallySigned: !!payload.digitalSignature,
+  });
+  if (document.status !== previousStatus) {
+    publishDocumentEvent('document.status_changed', document, { from: previousStatus, to: document.status });
+  }
+
+  res.status(200).json({
+    message: 'Document signed successfully!',
+    documentId: document._id,
+    newStatus: document.status,
+    digitallySigned: !!payload.digitalSignature,
+  });
+});
+
+// @desc    Decline to sign through a signing link
+// @route   POST /api/guest/:token/decline
+// @access  Public (signing link)
+const declineGuestSignature = asyncHandler(async (req: Request, res: Response) => {
+  const document = req.guestDocument!;
+  const signer = findGuestSigner(req, res);
+  const { reason } = req.body;
+
+  if (!reason || typeof reason !== 'string' || reason.trim() === '') {
+    res.status(400);
+    throw new Error('A reason is required to decline signing.');
+  }
+
+  assertSignerCanSign(document, signer, res);
+
+  const usedAt = await claimSigningLink(req, res);
+  signer.status = 'declined';
+  signer.declinedAt = new Date();
+  signer.declineReason = reason.trim();
+
+  // A required signer declining stops the whole workflow
+  if (signer.required) {
+    document.status = 'declined';
+  }
+  try {
+    await document.save();
+  } catch (error) {
+    await releaseSigningLink(req, usedAt);
+    throw error;
+  }
+
+  await recordDecline(req, document, signer);
+  if (document.status === 'declined') {
+    publishDocumentEvent('document.status_changed', document, { from: 'pending', to: 'declined' });
+  }
+
+  res.status(200).json({ message: 'Signing declined', newStatus: document.status });
+});
+
+export {
+  applyGuestSignature,
+  createSigningLink,
+  declineGuestSignature,
+  getGuestDocument,
+  getSigningLinks,
+  revokeSigningLink,
+  viewGuestDocument,
+};
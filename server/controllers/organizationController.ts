@@ -0,0 +1,327 @@
+// server/controllers/organizationController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { isValidObjectId, Types } from 'mongoose';
+import Document from '../models/Document';
+import Membership, { IMembership, ORGANIZATION_ROLES, OrganizationRole } from '../models/Membership';
+import Organization, { IOrganization } from '../models/Organization';
+import { hashUserToken } from '../models/User';
+import { trySendMail } from '../utils/mailer';
+import { organizationInviteMail } from '../utils/mailTemplates';
+import { findOrganizationForAction } from '../utils/organizationAccess';
+import { canManageRole, canOnOrganization } from '../utils/policy';
+
+// Validate an organization name. Sets a 400 status and throws on invalid input.
+const validateName = (value: unknown, res: Response): string => {
+  if (typeof value !== 'string' || value.trim() === '' || value.trim().length > 100) {
+    res.status(400);
+    throw new Error('Organization name is required (at most 100 characters).');
+  }
+  return value.trim();
+};
+
+// Validate a role. Sets a 400 status and throws on invalid input.
+const validateRole = (value: unknown, res: Response): OrganizationRole => {
+  if (typeof value !== 'string' || !ORGANIZATION_ROLES.includes(value as OrganizationRole)) {
+    res.status(400);
+    throw new Error(`role must be one of: ${ORGANIZATION_ROLES.join(', ')}.`);
+  }
+  return value as OrganizationRole;
+};
+
+// Load the membership in req.params.memberId of the given organization.
+// Sets a 404 status and throws if there is none.
+const findMember = async (req: Request, res: Response, organization: IOrganization): Promise<IMembership> => {
+  const member = isValidObjectId(req.params.memberId)
+    ? await Membership.findOne({ _id: req.params.memberId, organization: organization._id })
+    : null;
+
+  if (!member) {
+    res.status(404);
+    throw new Error('Member not found');
+  }
+
+  return member;
+};
+
+// Every organization keeps at least one active owner. Sets a 400 status and throws if
+// `member` is the last one.
+const assertNotLastOwner = async (member: IMembership, res: Response): Promise<void> => {
+  if (member.role !== 'owner' || member.status !== 'active') {
+    return;
+  }
+
+  const otherOwners = await Membership.countDocuments({
+    organization: member.organization,
+    role: 'owner',
+    status: 'active',
+    _id: { $ne: member._id },
+  });
+
+  if (otherOwners === 0) {
+    res.status(400);
+    throw new Error('An organization must keep at least one owner.');
+  }
+};
+
+// @desc    Create an organization, with the authenticated user as its owner
+// @route   POST /api/orgs
+// @access  Private
+const createOrganization = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const name = validateName(req.body.name, res);
+
+  const organization = await Organization.create({ name, createdBy: req.user._id });
+  const membership = await Membership.create({
+    organization: organization._id,
+    user: req.user._id,
+    email: req.user.email,
+    role: 'owner',
+    status: 'active',
+    joinedAt: new Date(),
+  });
+
+  res.status(201).json({ ...organization.toObject(), role: membership.role });
+});
+
+// @desc    Get the organizations the authenticated user belongs to, with their role in each
+// @route   GET /api/orgs
+// @access  Private
+const getMyOrganizations = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const memberships = await Membership.find({ user: req.user._id, status: 'active' }).populate<{
+    organization: IOrganization | null;
+  }>('organization');
+
+  const organizations = memberships
+    .filter((membership) => membership.organization)
+    .map((membership) => ({
+      ...membership.organization!.toObject(),
+      role: membership.role,
+      joinedAt: membership.joinedAt,
+    }));
+
+  res.status(200).json(organizations);
+});
+
+// @desc    Get an organization and its members
+// @route   GET /api/orgs/:id
+// @access  Private (members)
+const getOrganization = asyncHandler(async (req: Request, res: Response) => {
+  const { organization, membership } = await findOrganizationForAction(req, res, req.params.id, 'view');
+
+  // Pending invitations are only shown to those who manage members
+  const filter: Record<string, unknown> = { organization: organization._id };
+  if (!canOnOrganization(membership.role, 'manage_members')) {
+    filter.status = 'active';
+  }
+  const members = await Membership.find(filter).populate('user', 'name email').sort({ createdAt: 1 });
+
+  res.status(200).json({ ...organization.toObject(), role: membership.role, members });
+});
+
+// @desc    Rename an organization
+// @route   PUT /api/orgs/:id
+// @access  Private (owner or admin)
+const updateOrganization = asyncHandler(async (req: Request, res: Response) => {
+  const { organization } = await findOrganizationForAction(req, res, req.params.id, 'update');
+
+  organization.name = validateName(req.body.name, res);
+  await organization.save();
+
+  res.status(200).json(organization);
+});
+
+// @desc    Delete an organization. Its documents stay with their uploaders.
+// @route   DELETE /api/orgs/:id
+// @access  Private (owner)
+const deleteOrganization = asyncHandler(async (req: Request, res: Response) => {
+  const { organization } = await findOrganizationForAction(req, res, req.params.id, 'delete');
+
+  await Document.updateMany({ organization: organization._id }, { $unset: { organization: 1 } });
+  // Trashed ones too, so restoring one doesn't bring back a reference to the deleted organization
+  await Document.updateMany(
+    { organization: organization._id, deletedAt: { $ne: null } },
+    { $unset: { organization: 1 } }
+  );
+  await Membership.deleteMany({ organization: organization._id });
+  await Organization.deleteOne({ _id: organization._id });
+
+  res.status(200).json({ message: 'Organization removed' });
+});
+
+// @desc    Invite someone to an organization by email (or re-send a pending invitation)
+// @route   POST /api/orgs/:id/members
+// @access  Private (owner or admin)
+const inviteMember = asyncHandler(async (req: Request, res: Response) => {
+  const { organization, membership } = await findOrganizationForAction(req, res, req.params.id, 'manage_members');
+  const { email } = req.body;
+
+  if (!email || typeof email !== 'string' || !/.+@.+\..+/.test(email)) {
+    res.status(400);
+    throw new Error('A valid email is required.');
+  }
+
+  const role = validateRole(req.body.role ?? 'member', res);
+
+  if (!canManageRole(membership.role, role)) {
+    res.status(403); // Forbidden
+    throw new Error(`Your role (${membership.role}) cannot invite members with the ${role} role.`);
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  let member = await Membership.findOne({ organization: organization._id, email: normalizedEmail });
+
+  if (member && member.status === 'active') {
+    res.status(400);
+    throw new Error('This person is already a member of the organization.');
+  }
+
+  if (!member) {
+    member = new Membership({ organization: organization._id, email: normalizedEmail });
+  }
+  member.role = role;
+  member.invitedBy = req.user!._id as Types.ObjectId;
+  const token = member.createInvitationToken(); // Replaces the token of an earlier invitation
+  await member.save();
+
+  const emailSent = await trySendMail(
+    organizationInviteMail({
+      to: member.email,
+      inviterName: req.user!.name,
+      organizationName: organization.name,
+      role,
+      token,
+    })
+  );
+
+  res.status(201).json({
+    member: {
+      _id: member._id,
+      email: member.email,
+      role: member.role,
+      status: member.status,
+    },
+    emailSent,
+  });
+});
+
+// @desc    Accept an invitation with the token sent by email. The account must have verified the
+//          address the invitation was sent to.
+// @route   POST /api/orgs/invitations/accept
+// @access  Private
+const acceptInvitation = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const { token } = req.body;
+
+  if (!token || typeof token !== 'string') {
+    res.status(400);
+    throw new Error('Invitation token is required.');
+  }
+
+  const member = await Membership.findOne({
+    invitationTokenHash: hashUserToken(token),
+    invitationExpires: { $gt: new Date() },
+    status: 'invited',
+  });
+
+  if (!member) {
+    res.status(400);
+    throw new Error('Invitation is invalid or has expired.');
+  }
+
+  // The invitation belongs to the address it was sent to
+  if (member.email !== req.user.email) {
+    res.status(403); // Forbidden
+    throw new Error('This invitation was sent to a different email address.');
+  }
+  // ...and only to someone who has shown they own it
+  if (!req.user.hasVerifiedEmail()) {
+    res.status(403); // Forbidden
+    throw new Error('Please verify your email address before accepting this invitation.');
+  }
+
+  member.user = req.user._id as Types.ObjectId;
+  member.status = 'active';
+  member.joinedAt = new Date();
+  member.invitationTokenHash = undefined; // Tokens are single-use
+  member.invitationExpires = undefined;
+  await member.save();
+
+  const organization = await Organization.findById(member.organization);
+
+  res.status(200).json({ message: 'Invitation accepted', organization, role: member.role });
+});
+
+// @desc    Change a member's role
+// @route   PUT /api/orgs/:id/members/:memberId
+// @access  Private (owner or admin)
+const updateMember = asyncHandler(async (req: Request, res: Response) => {
+  const { organization, membership } = await findOrganizationForAction(req, res, req.params.id, 'manage_members');
+  const member = await findMember(req, res, organization);
+  const role = validateRole(req.body.role, res);
+
+  // Both the current and the new role must be within the caller's reach
+  if (!canManageRole(membership.role, member.role) || !canManageRole(membership.role, role)) {
+    res.status(403); // Forbidden
+    throw new Error(`Your role (${membership.role}) cannot change this member's role to ${role}.`);
+  }
+
+  if (role !== 'owner') {
+    await assertNotLastOwner(member, res);
+  }
+
+  member.role = role;
+  await member.save();
+
+  res.status(200).json(member);
+});
+
+// @desc    Remove a member or cancel an invitation. Members may also remove themselves (leave).
+// @route   DELETE /api/orgs/:id/members/:memberId
+// @access  Private (owner or admin, or the member themselves)
+const removeMember = asyncHandler(async (req: Request, res: Response) => {
+  const { organization, membership } = await findOrganizationForAction(req, res, req.params.id, 'view');
+  const member = await findMember(req, res, organization);
+
+  const isSelf = (member._id as Types.ObjectId).equals(membership._id as Types.ObjectId);
+  const canRemove =
+    isSelf || (canOnOrganization(membership.role, 'manage_members') && canManageRole(membership.role, member.role));
+
+  if (!canRemove) {
+    res.status(403); // Forbidden
+    throw new Error(`Your role (${membership.role}) cannot remove this member.`);
+  }
+
+  await assertNotLastOwner(member, res);
+
+  // Documents the member uploaded stay in the organization
+  await Membership.deleteOne({ _id: member._id });
+
+  res.status(200).json({ message: isSelf ? 'You left the organization' : 'Member removed' });
+});
+
+export {
+  acceptInvitation,
+  createOrganization,
+  deleteOrganization,
+  getMyOrganizations,
+  getOrganization,
+  inviteMember,
+  removeMember,
+  updateMember,
+  updateOrganization,
+};
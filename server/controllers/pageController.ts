@@ -0,0 +1,319 @@
+// server/controllers/pageController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { Types } from 'mongoose';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import Document, { IDocument, VersionAction } from '../models/Document';
+import { actorFromRequest, recordAuditEvent } from '../utils/auditLog';
+import { authorizeDocument, findAuthorizedDocument } from '../utils/documentAccess';
+import { loadDocumentPdf, saveSignedFile, saveUploadedFile } from '../utils/documentFiles';
+import { addDocumentVersion } from '../utils/documentVersions';
+import { publishDocumentEvent } from '../utils/eventBus';
+import { findOrganizationForAction } from '../utils/organizationAccess';
+import { describePages } from '../utils/pageGeometry';
+import {
+  carriesSignatures,
+  copyPagesToNewPdf,
+  deletePdfPages,
+  parsePageNumbers,
+  remapPlacedFields,
+  reorderPdfPages,
+  ROTATION_ANGLES,
+  rotatePdfPages,
+} from '../utils/pdfPages';
+
+const MAX_MERGE_DOCUMENTS = 20;
+
+// Load a document the caller may update, with its PDF. Editing the pages of a signed
+// document invalidates its signatures, so that needs confirm: true in the body;
+// sets a 409 status and throws without it.
+const findEditablePdf = async (
+  req: Request,
+  res: Response
+): Promise<{ document: IDocument; pdfDoc: PDFDocument; signed: boolean }> => {
+  const document = await findAuthorizedDocument(req, res, 'update');
+  const pdfDoc = await loadDocumentPdf(document, res);
+  const signed = carriesSignatures(document, pdfDoc);
+
+  if (signed && req.body.confirm !== true) {
+    res.status(409); // Conflict
+    throw new Error(
+      'This document already carries signatures, which editing its pages will invalidate. ' +
+        'Send confirm: true to edit it anyway.'
+    );
+  }
+
+  return { document, pdfDoc, signed };
+};
+
+// Store the edited PDF as a new revision of the document and audit the change
+const saveEditedRevision = async (
+  req: Request,
+  document: IDocument,
+  pdfDoc: PDFDocument,
+  details: Record<string, unknown>
+): Promise<void> => {
+  const bytes = await pdfDoc.save();
+  const { fileName, filePath } = await saveSignedFile(document.originalName, bytes);
+
+  await addDocumentVersion(document, {
+    fileName,
+    filePath,
+    bytes,
+    action: 'page_edit',
+    actor: actorFromRequest(req),
+    pageCount: pdfDoc.getPageCount(),
+  });
+  await document.save();
+
+  await recordAuditEvent(req, document, 'page_edit', details);
+};
+
+// Create a document owned by the caller from a new PDF (extracted or merged pages), in the
+// organization named in the body if any. Sets the matching status and throws if the caller
+// can't add documents to it.
+const createDerivedDocument = async (
+  req: Request,
+  res: Response,
+  originalName: string,
+  pdfDoc: PDFDocument,
+  action: Extract<VersionAction, 'extract' | 'merge'>,
+  details: Record<string, unknown>
+): Promise<IDocument> => {
+  let organizationId: Types.ObjectId | undefined;
+  if (req.body.organization) {
+    const { organization } = await findOrganizationForAction(req, res, req.body.organization, 'add_documents');
+    organizationId = organization._id as Types.ObjectId;
+  }
+
+  const bytes = await pdfDoc.save();
+  const { fileName, filePath } = await saveUploadedFile('document', originalName, bytes);
+
+  const document = new Document({
+    user: req.user!._id,
+    organization: organizationId,
+    fileName,
+    filePath,
+    originalName,
+    fileType: 'application/pdf',
+    fileSize: bytes.length,
+    uploadDate: new Date(),
+    status: 'pending',
+  });
+
+  await addDocumentVersion(document, {
+    fileName,
+    filePath,
+    bytes,
+    action,
+    actor: actorFromRequest(req),
+    pageCount: pdfDoc.getPageCount(),
+  });
+  await document.save();
+
+  await recordAuditEvent(req, document, 'upload', details);
+  publishDocumentEvent('document.uploaded', document, { via: action });
+  return document;
+};
+
+// Shape of a document created by extract or merge, as returned to the client
+const derivedSummary = (document: IDocument) => ({
+  _id: document._id,
+  fileName: document.fileName,
+  originalName: document.originalName,
+  fileType: document.fileType,
+  fileSize: document.fileSize,
+  organization: document.organization,
+  uploadDate: document.uploadDate,
+  status: document.status,
+  currentVersion: document.currentVersion,
+});
+
+const baseName = (originalName: string) => path.basename(originalName, path.extname(originalName));
+
+// @desc    Page count and, for each page, its displayed size in points, rotation, crop box and media box.
+//          Positions sent to the sign endpoint in points or fractions refer to these displayed sizes.
+// @route   GET /api/docs/:id/pages
+// @access  Private (anyone who may view the document)
+const getPages = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view');
+  const pdfDoc = await loadDocumentPdf(document, res);
+
+  res.status(200).json({
+    documentId: document._id,
+    currentVersion: document.currentVersion,
+    pageCount: pdfDoc.getPageCount(),
+    pages: describePages(pdfDoc),
+  });
+});
+
+// @desc    Rotate pages clockwise by a multiple of 90 degrees (all pages if none are given), as a new revision.
+//          Fields placed on them turn with the page.
+// @route   POST /api/docs/:id/pages/rotate  { pages?: [1, 2] | "1-3", degrees: 90, confirm? }
+// @access  Private (owner, organization admin or manager)
+const rotatePages = asyncHandler(async (req: Request, res: Response) => {
+  const angle = Number(req.body.degrees);
+  if (!ROTATION_ANGLES.includes(angle)) {
+    res.status(400);
+    throw new Error(`degrees must be one of: ${ROTATION_ANGLES.join(', ')}.`);
+  }
+
+  const { document, pdfDoc, signed } = await findEditablePdf(req, res);
+  const pageCount = pdfDoc.getPageCount();
+  const pages =
+    req.body.pages === undefined
+      ? Array.from({ length: pageCount }, (_, i) => i + 1)
+      : parsePageNumbers(req.body.pages, pageCount, res);
+
+  rotatePdfPages(pdfDoc, pages, angle, document.fields);
+  await saveEditedRevision(req, document, pdfDoc, {
+    operation: 'rotate',
+    pages,
+    degrees: angle,
+    signaturesInvalidated: signed,
+  });
+
+  res.status(200).json({
+    message: `Rotated ${pages.length} page(s)`,
+    documentId: document._id,
+    currentVersion: document.currentVersion,
+    pageCount,
+  });
+});
+
+// @desc    Delete pages, as a new revision. Fields placed on them are removed.
+// @route   POST /api/docs/:id/pages/delete  { pages: [2] | "2,4-5", confirm? }
+// @access  Private (owner, organization admin or manager)
+const deletePages = asyncHandler(async (req: Request, res: Response) => {
+  const { document, pdfDoc, signed } = await findEditablePdf(req, res);
+  const pageCount = pdfDoc.getPageCount();
+  const pages = parsePageNumbers(req.body.pages, pageCount, res);
+
+  if (pages.length >= pageCount) {
+    res.status(400);
+    throw new Error('A document must keep at least one page; delete the document instead.');
+  }
+
+  deletePdfPages(pdfDoc, pages);
+  const removedFields = remapPlacedFields(document.fields, (pageNumber) =>
+    pages.includes(pageNumber) ? undefined : pageNumber - pages.filter((deleted) => deleted < pageNumber).length
+  );
+  await saveEditedRevision(req, document, pdfDoc, {
+    operation: 'delete',
+    pages,
+    removedFields,
+    signaturesInvalidated: signed,
+  });
+
+  res.status(200).json({
+    message: `Deleted ${pages.length} page(s)`,
+    documentId: document._id,
+    currentVersion: document.currentVersion,
+    pageCount: pdfDoc.getPageCount(),
+    removedFields,
+  });
+});
+
+// @desc    Reorder pages, as a new revision. order lists every old page number in its new position.
+// @route   POST /api/docs/:id/pages/reorder  { order: [3, 1, 2], confirm? }
+// @access  Private (owner, organization admin or manager)
+const reorderPages = asyncHandler(async (req: Request, res: Response) => {
+  const { document, pdfDoc, signed } = await findEditablePdf(req, res);
+  const pageCount = pdfDoc.getPageCount();
+  const order = parsePageNumbers(req.body.order, pageCount, res, 'order');
+
+  if (order.length !== pageCount) {
+    res.status(400);
+    throw new Error(`order must list each of the ${pageCount} pages exactly once.`);
+  }
+
+  reorderPdfPages(pdfDoc, order);
+  remapPlacedFields(document.fields, (pageNumber) => order.indexOf(pageNumber) + 1);
+  await saveEditedRevision(req, document, pdfDoc, { operation: 'reorder', order, signaturesInvalidated: signed });
+
+  res.status(200).json({
+    message: 'Pages reordered',
+    documentId: document._id,
+    currentVersion: document.currentVersion,
+    pageCount,
+  });
+});
+
+// @desc    Copy pages into a new document owned by the caller; the source is left unchanged
+// @route   POST /api/docs/:id/pages/extract  { pages: "3-5", organization? }
+// @access  Private (owner, organization admin or manager of the source)
+const extractPages = asyncHandler(async (req: Request, res: Response) => {
+  const source = await findAuthorizedDocument(req, res, 'update');
+  const sourcePdf = await loadDocumentPdf(source, res);
+  const pages = parsePageNumbers(req.body.pages, sourcePdf.getPageCount(), res);
+
+  const pdfDoc = await copyPagesToNewPdf([{ pdfDoc: sourcePdf, pageNumbers: pages }]);
+  const range = typeof req.body.pages === 'string' ? req.body.pages.replace(/\s/g, '') : pages.join(',');
+  const originalName = `${baseName(source.originalName)} (pages ${range}).pdf`;
+  const document = await createDerivedDocument(req, res, originalName, pdfDoc, 'extract', {
+    extractedFrom: source._id,
+    sourceVersion: source.currentVersion,
+    pages,
+  });
+
+  res.status(201).json({
+    message: `Extracted ${pages.length} page(s) into a new document`,
+    document: derivedSummary(document),
+  });
+});
+
+// @desc    Merge several documents, in the order given, into a new document owned by the caller
+// @route   POST /api/docs/merge  { documents: [id, id, ...], name?, organization? }
+// @access  Private (owner, organization admin or manager of every source)
+const mergeDocuments = asyncHandler(async (req: Request, res: Response) => {
+  const { documents: ids, name } = req.body;
+
+  if (!Array.isArray(ids) || ids.length < 2 || ids.length > MAX_MERGE_DOCUMENTS) {
+    res.status(400);
+    throw new Error(`documents must list between 2 and ${MAX_MERGE_DOCUMENTS} document IDs.`);
+  }
+
+  if (ids.some((id) => typeof id !== 'string' || !Types.ObjectId.isValid(id))) {
+    res.status(400);
+    throw new Error('documents must contain valid document IDs.');
+  }
+
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    res.status(400);
+    throw new Error('name must be a non-empty string.');
+  }
+
+  // Load and authorize every source before copying anything
+  const sources: { document: IDocument; pdfDoc: PDFDocument }[] = [];
+  for (const id of ids as string[]) {
+    const document = await Document.findById(id);
+    if (!document) {
+      res.status(404);
+      throw new Error(`Document ${id} not found`);
+    }
+    await authorizeDocument(req, res, document, 'update');
+    sources.push({ document, pdfDoc: await loadDocumentPdf(document, res) });
+  }
+
+  const pdfDoc = await copyPagesToNewPdf(
+    sources.map((source) => ({
+      pdfDoc: source.pdfDoc,
+      pageNumbers: source.pdfDoc.getPageIndices().map((index) => index + 1),
+    }))
+  );
+  const originalName = name
+    ? `${baseName(name.trim())}.pdf`
+    : `${baseName(sources[0].document.originalName)} (merged).pdf`;
+  const document = await createDerivedDocument(req, res, originalName, pdfDoc, 'merge', {
+    mergedFrom: sources.map((source) => ({ document: source.document._id, version: source.document.currentVersion })),
+  });
+
+  res.status(201).json({
+    message: `Merged ${sources.length} documents into a new document`,
+    document: derivedSummary(document),
+  });
+});
+
+export { deletePages, extractPages, getPages, mergeDocuments, reorderPages, rotatePages };
@@ -0,0 +1,257 @@
+// server/controllers/savedSignatureController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { Types } from 'mongoose';
+import SavedSignature, { ISavedSignature } from '../models/SavedSignature';
+import { removeStoredFile, sendStoredFile } from '../utils/documentFiles';
+import { sha256 } from '../utils/fileHash';
+import { fontExists } from '../utils/fonts';
+import { decodeImageDataUrl, normalizeSignatureImage, saveSignatureImage } from '../utils/signatureImages';
+
+const MAX_SIGNATURE_TEXT_LENGTH = 100;
+const DEFAULT_STYLE = { font: 'Helvetica', color: '#000000' };
+
+// Validate the style of a text signature, filling in defaults. Sets a 400 status and throws on invalid input.
+const validateStyle = async (value: unknown, res: Response): Promise<{ font: string; color: string }> => {
+  let style: unknown = value ?? {};
+  if (typeof style === 'string') {
+    // Multipart bodies carry objects as JSON strings
+    try {
+      style = JSON.parse(style);
+    } catch (error) {
+      res.status(400);
+      throw new Error('style must be valid JSON.');
+    }
+  }
+  if (!style || typeof style !== 'object') {
+    res.status(400);
+    throw new Error('style must be an object.');
+  }
+
+  const requested = style as { font?: unknown; color?: unknown };
+  const font = requested.font ?? DEFAULT_STYLE.font;
+  const color = requested.color ?? DEFAULT_STYLE.color;
+
+  if (typeof font !== 'string' || !(await fontExists(font))) {
+    res.status(400);
+    throw new Error('style.font must be the id of a font listed by GET /api/fonts.');
+  }
+  if (typeof color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+    res.status(400);
+    throw new Error('style.color must be a hex color such as #1a237e.');
+  }
+
+  return { font, color };
+};
+
+const validateText = (text: unknown, res: Response): string => {
+  if (typeof text !== 'string' || text.trim() === '' || text.length > MAX_SIGNATURE_TEXT_LENGTH) {
+    res.status(400);
+    throw new Error(`text must be a non-empty string of at most ${MAX_SIGNATURE_TEXT_LENGTH} characters.`);
+  }
+  return text.trim();
+};
+
+// Find a saved signature owned by the current user, setting a 401/404 status and throwing otherwise.
+// Other users' signatures are reported as missing rather than forbidden.
+const findOwnedSignature = async (req: Request, res: Response): Promise<ISavedSignature> => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const signature = Types.ObjectId.isValid(req.params.id)
+    ? await SavedSignature.findOne({ _id: req.params.id, user: req.user._id })
+    : null;
+
+  if (!signature) {
+    res.status(404);
+    throw new Error('Saved signature not found');
+  }
+
+  return signature;
+};
+
+// Make this signature the only default of its kind for its owner
+const makeDefault = async (signature: ISavedSignature) => {
+  await SavedSignature.updateMany(
+    { user: signature.user, kind: signature.kind, _id: { $ne: signature._id } },
+    { isDefault: false }
+  );
+  signature.isDefault = true;
+};
+
+// @desc    List the authenticated user's saved signatures and initials
+// @route   GET /api/signatures?kind=signature|initials
+// @access  Private
+const getSavedSignatures = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const filter: Record<string, unknown> = { user: req.user._id };
+  if (req.query.kind === 'signature' || req.query.kind === 'initials') {
+    filter.kind = req.query.kind;
+  }
+
+  const signatures = await SavedSignature.find(filter).sort({ kind: 1, isDefault: -1, createdAt: -1 });
+
+  res.status(200).json(signatures);
+});
+
+// @desc    Save a signature or initials, from an uploaded image, an image data URL or styled text
+// @route   POST /api/signatures
+// @access  Private
+const createSavedSignature = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const { name, kind = 'signature', text, style, imageData } = req.body;
+  const isDefault = req.body.isDefault === true || req.body.isDefault === 'true';
+
+  if (!name || typeof name !== 'string' || name.trim() === '') {
+    res.status(400);
+    throw new Error('name is required.');
+  }
+
+  if (kind !== 'signature' && kind !== 'initials') {
+    res.status(400);
+    throw new Error('kind must be "signature" or "initials".');
+  }
+
+  const imageBytes = req.file?.buffer ?? (typeof imageData === 'string' ? decodeImageDataUrl(imageData) : undefined);
+  if (imageData !== undefined && !req.file && !imageBytes) {
+    res.status(400);
+    throw new Error('imageData must be a PNG or JPEG data URL (e.g., data:image/png;base64,...).');
+  }
+  if (!imageBytes && text === undefined) {
+    res.status(400);
+    throw new Error('Provide an image (file or imageData) or text.');
+  }
+
+  const signature = new SavedSignature({
+    user: req.user._id,
+    name: name.trim(),
+    kind,
+    format: imageBytes ? 'image' : 'text',
+  });
+
+  if (imageBytes) {
+    let normalized;
+    try {
+      normalized = normalizeSignatureImage(imageBytes);
+    } catch (error) {
+      res.status(400);
+      throw error;
+    }
+    signature.filePath = await saveSignatureImage(
+      (req.user._id as Types.ObjectId).toString(),
+      (signature._id as Types.ObjectId).toString(),
+      normalized.png
+    );
+    signature.fileSize = normalized.png.length;
+    signature.width = normalized.width;
+    signature.height = normalized.height;
+    signature.sha256 = sha256(normalized.png);
+  } else {
+    signature.text = validateText(text, res);
+    signature.style = (await validateStyle(style, res)) as ISavedSignature['style'];
+  }
+
+  // The first signature of a kind becomes the default automatically
+  const hasDefault = await SavedSignature.exists({ user: req.user._id, kind, isDefault: true });
+  if (isDefault || !hasDefault) {
+    await makeDefault(signature);
+  }
+
+  try {
+    await signature.save();
+  } catch (error) {
+    if (signature.filePath) {
+      await removeStoredFile(signature.filePath);
+    }
+    throw error;
+  }
+
+  res.status(201).json(signature);
+});
+
+// @desc    Get the PNG of an image signature
+// @route   GET /api/signatures/:id/image
+// @access  Private (owner)
+const getSavedSignatureImage = asyncHandler(async (req: Request, res: Response) => {
+  const signature = await findOwnedSignature(req, res);
+
+  if (signature.format !== 'image' || !signature.filePath) {
+    res.status(400);
+    throw new Error('This saved signature is text, not an image.');
+  }
+
+  await sendStoredFile(res, signature.filePath, 'image/png');
+});
+
+// @desc    Rename a saved signature, change its text or style, or make it the default
+// @route   PUT /api/signatures/:id
+// @access  Private (owner)
+const updateSavedSignature = asyncHandler(async (req: Request, res: Response) => {
+  const signature = await findOwnedSignature(req, res);
+  const { name, text, style, isDefault } = req.body;
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim() === '') {
+      res.status(400);
+      throw new Error('name must be a non-empty string.');
+    }
+    signature.name = name.trim();
+  }
+
+  if (text !== undefined || style !== undefined) {
+    if (signature.format !== 'text') {
+      res.status(400);
+      throw new Error('Only text signatures have text and style; upload a new image instead.');
+    }
+    if (text !== undefined) {
+      signature.text = validateText(text, res);
+    }
+    if (style !== undefined) {
+      signature.style = (await validateStyle({ font: signature.style?.font, color: signature.style?.color, ...style }, res)) as ISavedSignature['style'];
+    }
+  }
+
+  if (isDefault === true) {
+    await makeDefault(signature);
+  } else if (isDefault === false) {
+    signature.isDefault = false;
+  }
+
+  const updatedSignature = await signature.save();
+
+  res.status(200).json(updatedSignature);
+});
+
+// @desc    Delete a saved signature
+// @route   DELETE /api/signatures/:id
+// @access  Private (owner)
+const deleteSavedSignature = asyncHandler(async (req: Request, res: Response) => {
+  const signature = await findOwnedSignature(req, res);
+
+  // Documents already signed with it keep their stamped copy; only the saved image goes
+  if (signature.filePath) {
+    await removeStoredFile(signature.filePath);
+  }
+  await signature.deleteOne();
+
+  res.status(200).json({ message: 'Saved signature removed successfully' });
+});
+
+export {
+  createSavedSignature,
+  deleteSavedSignature,
+  getSavedSignatureImage,
+  getSavedSignatures,
+  updateSavedSignature,
+};
@@ -0,0 +1,153 @@
+// server/controllers/shareController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { Types } from 'mongoose';
+import { IDocument, IDocumentShare, SharePermission } from '../models/Document';
+import User from '../models/User';
+import { recordAuditEvent } from '../utils/auditLog';
+import { authorizeDocument, findAuthorizedDocument } from '../utils/documentAccess';
+
+const SHARE_PERMISSIONS: SharePermission[] = ['view', 'sign', 'manage'];
+
+// Validate a share permission. Sets a 400 status and throws on invalid input.
+const validatePermission = (value: unknown, res: Response): SharePermission => {
+  if (typeof value !== 'string' || !SHARE_PERMISSIONS.includes(value as SharePermission)) {
+    res.status(400);
+    throw new Error(`permission must be one of: ${SHARE_PERMISSIONS.join(', ')}.`);
+  }
+  return value as SharePermission;
+};
+
+// Shares at 'manage' can share the document in turn, so only the owner and organization admins
+// may grant, change or revoke them. Sets a 403 status and throws if the user may not.
+const authorizeSharePermissions = async (
+  req: Request,
+  res: Response,
+  document: IDocument,
+  ...permissions: SharePermission[]
+): Promise<void> => {
+  if (permissions.includes('manage')) {
+    await authorizeDocument(req, res, document, 'share_manage');
+  }
+};
+
+// Shape of the share list returned by every route in this controller, with names and emails
+const shareSummary = async (document: IDocument) => {
+  await document.populate([
+    { path: 'shares.user', select: 'name email' },
+    { path: 'shares.sharedBy', select: 'name email' },
+  ]);
+  return { documentId: document._id, shares: document.shares };
+};
+
+// The share in req.params.shareId. Sets a 404 status and throws if there is none.
+const findShare = (document: IDocument, req: Request, res: Response): IDocumentShare => {
+  const share = document.shares.id(req.params.shareId);
+
+  if (!share) {
+    res.status(404);
+    throw new Error('Share not found');
+  }
+
+  return share;
+};
+
+// @desc    Get the users a document is shared with
+// @route   GET /api/docs/:id/shares
+// @access  Private (owner, organization admin or manager)
+const getShares = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'share');
+  res.status(200).json(await shareSummary(document));
+});
+
+// @desc    Share a document with a registered user
+// @route   POST /api/docs/:id/shares
+// @access  Private (owner, organization admin or manager; 'manage' itself only by the owner or an admin)
+const shareDocument = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'share');
+  const { email } = req.body;
+
+  if (!email || typeof email !== 'string' || !/.+@.+\..+/.test(email)) {
+    res.status(400);
+    throw new Error('A valid email is required.');
+  }
+
+  const permission = validatePermission(req.body.permission ?? 'view', res);
+  await authorizeSharePermissions(req, res, document, permission);
+
+  // Only accounts that have confirmed the address can receive a share, like signers
+  const recipient = await User.findOne({ email: email.trim().toLowerCase(), emailVerified: { $ne: false } });
+
+  if (!recipient) {
+    res.status(404);
+    throw new Error('No registered user with this email.');
+  }
+
+  const recipientId = recipient._id as Types.ObjectId;
+
+  if (document.user.equals(recipientId)) {
+    res.status(400);
+    throw new Error('The owner already has full access to this document.');
+  }
+
+  if (document.shares.some((share) => share.user.equals(recipientId))) {
+    res.status(400);
+    throw new Error('The document is already shared with this user; change the permission instead.');
+  }
+
+  document.shares.push({
+    user: recipientId,
+    permission,
+    sharedBy: req.user!._id as Types.ObjectId,
+    sharedAt: new Date(),
+  });
+  await document.save();
+
+  await recordAuditEvent(req, document, 'share', { userId: recipientId, email: recipient.email, permission });
+
+  res.status(201).json(await shareSummary(document));
+});
+
+// @desc    Change the permission of a share
+// @route   PUT /api/docs/:id/shares/:shareId
+// @access  Private (owner, organization admin or manager; to or from 'manage' only by the owner or an admin)
+const updateShare = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'share');
+  const share = findShare(document, req, res);
+  const permission = validatePermission(req.body.permission, res);
+  await authorizeSharePermissions(req, res, document, share.permission, permission);
+
+  const previous = share.permission;
+  share.permission = permission;
+  await document.save();
+
+  if (previous !== permission) {
+    await recordAuditEvent(req, document, 'share', { userId: share.user, from: previous, permission });
+  }
+
+  res.status(200).json(await shareSummary(document));
+});
+
+// @desc    Stop sharing a document with a user. Users may also remove their own share.
+// @route   DELETE /api/docs/:id/shares/:shareId
+// @access  Private (owner, organization admin or manager, or the user it is shared with; 'manage'
+//          shares only by the owner or an admin)
+const revokeShare = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view');
+  const share = findShare(document, req, res);
+
+  if (!share.user.equals(req.user!._id as Types.ObjectId)) {
+    await authorizeDocument(req, res, document, 'share');
+    await authorizeSharePermissions(req, res, document, share.permission);
+  }
+
+  document.shares.pull(share._id);
+  await document.save();
+
+  await recordAuditEvent(req, document, 'unshare', { userId: share.user, permission: share.permission });
+
+  res.status(200).json({ message: 'Share removed' });
+});
+
+export { getShares, revokeShare, shareDocument, updateShare };
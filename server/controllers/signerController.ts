@@ -0,0 +1,243 @@
+// server/controllers/signerController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import Document, { IDocument } from '../models/Document';
+import User from '../models/User';
+import { recordDecline } from '../utils/auditLog';
+import { findAuthorizedDocument } from '../utils/documentAccess';
+import { publishDocumentEvent } from '../utils/eventBus';
+import { completeDocument } from '../utils/pdfSignature';
+import {
+  findSignerForUser,
+  isSignersTurn,
+  isSigningComplete,
+  normalizeSignerOrder,
+  sortedSigners,
+} from '../utils/signingWorkflow';
+
+// Shape of the signer list returned by every route in this controller
+const signerSummary = (document: IDocument) => ({
+  documentId: document._id,
+  status: document.status,
+  signingOrder: document.signingOrder,
+  signers: sortedSigners(document),
+});
+
+// Signers can only be changed while the document is still being signed
+const assertSignersEditable = (document: IDocument, res: Response) => {
+  if (document.status !== 'pending') {
+    res.status(400);
+    throw new Error(`Signers cannot be changed once a document is ${document.status}.`);
+  }
+};
+
+// @desc    Get the signers of a document
+// @route   GET /api/docs/:id/signers
+// @access  Private (owner, organization admin or manager)
+const getSigners = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'manage_signers');
+  res.status(200).json(signerSummary(document));
+});
+
+// @desc    Add a signer to a document
+// @route   POST /api/docs/:id/signers
+// @access  Private (owner, organization admin or manager)
+const addSigner = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'manage_signers');
+  assertSignersEditable(document, res);
+
+  const { email, name, required } = req.body;
+
+  if (!email || typeof email !== 'string' || !/.+@.+\..+/.test(email)) {
+    res.status(400);
+    throw new Error('A valid signer email is required.');
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  if (document.signers.some((signer) => signer.email === normalizedEmail)) {
+    res.status(400);
+    throw new Error('This email is already a signer on the document.');
+  }
+
+  if (required !== undefined && typeof required !== 'boolean') {
+    res.status(400);
+    throw new Error('required must be a boolean.');
+  }
+
+  // Link the signer to an existing account when there is one (and it owns the address)
+  const existingUser = await User.findOne({ email: normalizedEmail, emailVerified: { $ne: false } });
+  const lastOrder = document.signers.reduce((max, signer) => Math.max(max, signer.order), 0);
+
+  document.signers.push({
+    user: existingUser?._id,
+    email: normalizedEmail,
+    name: name || existingUser?.name,
+    order: lastOrder + 1,
+    required: required ?? true,
+    status: 'pending',
+  });
+  await document.save();
+
+  res.status(201).json(signerSummary(document));
+});
+
+// @desc    Remove a signer from a document. If every remaining required signer has signed, the document
+//          is completed (status signed, with its certificate of completion).
+// @route   DELETE /api/docs/:id/signers/:signerId
+// @access  Private (owner, organization admin or manager)
+const removeSigner = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'manage_signers');
+  assertSignersEditable(document, res);
+
+  const signer = document.signers.id(req.params.signerId);
+
+  if (!signer) {
+    res.status(404);
+    throw new Error('Signer not found');
+  }
+
+  if (signer.status === 'signed') {
+    res.status(400);
+    throw new Error('A signer who has already signed cannot be removed.');
+  }
+
+  document.signers.pull(signer._id);
+  normalizeSignerOrder(document);
+
+  // Removing the last signer the document was waiting on completes it, as their signature would have
+  if (isSigningComplete(document)) {
+    await completeDocument(document, req, 'signer_removed');
+    publishDocumentEvent('document.status_changed', document, { from: 'pending', to: 'signed' });
+  } else {
+    await document.save();
+  }
+
+  res.status(200).json(signerSummary(document));
+});
+
+// @desc    Reorder signers and/or switch between sequential and parallel signing
+// @route   PUT /api/docs/:id/signers/order
+// @access  Private (owner, organization admin or manager)
+const reorderSigners = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'manage_signers');
+  assertSignersEditable(document, res);
+
+  const { signerIds, signingOrder } = req.body;
+
+  if (signingOrder !== undefined) {
+    if (!['sequential', 'parallel'].includes(signingOrder)) {
+      res.status(400);
+      throw new Error('signingOrder must be "sequential" or "parallel".');
+    }
+    document.signingOrder = signingOrder;
+  }
+
+  if (signerIds !== undefined) {
+    // signerIds must list every signer exactly once
+    const currentIds = document.signers.map((signer) => signer._id.toString());
+    if (
+      !Array.isArray(signerIds) ||
+      signerIds.length !== currentIds.length ||
+      new Set(signerIds).size !== signerIds.length ||
+      !signerIds.every((id: unknown) => typeof id === 'string' && currentIds.includes(id))
+    ) {
+      res.status(400);
+      throw new Error('signerIds must contain every signer ID of this document exactly once.');
+    }
+
+    signerIds.forEach((id: string, index: number) => {
+      document.signers.id(id)!.order = index + 1;
+    });
+  }
+
+  await document.save();
+
+  res.status(200).json(signerSummary(document));
+});
+
+// @desc    Decline to sign a document
+// @route   POST /api/docs/:id/decline
+// @access  Private (signer)
+const declineSignature = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const document = await Document.findById(req.params.id);
+
+  if (!document) {
+    res.status(404);
+    throw new Error('Document not found');
+  }
+
+  const signer = findSignerForUser(document, req.user);
+
+  if (!signer) {
+    res.status(403); // Forbidden
+    throw new Error('You are not a signer on this document.');
+  }
+
+  if (document.status !== 'pending' || !isSignersTurn(document, signer)) {
+    res.status(400);
+    throw new Error('This document cannot be declined right now.');
+  }
+
+  const { reason } = req.body;
+
+  if (!reason || typeof reason !== 'string' || reason.trim() === '') {
+    res.status(400);
+    throw new Error('A reason is required to decline signing.');
+  }
+
+  signer.status = 'declined';
+  signer.declinedAt = new Date();
+  signer.declineReason = reason.trim();
+
+  // A required signer declining stops the whole workflow
+  if (signer.required) {
+    document.status = 'declined';
+  }
+  await document.save();
+
+  await recordDecline(req, document, signer);
+  if (document.status === 'declined') {
+    publishDocumentEvent('document.status_changed', document, { from: 'pending', to: 'declined' });
+  }
+
+  res.status(200).json(signerSummary(document));
+});
+
+// @desc    Get documents where the authenticated user is a signer
+// @route   GET /api/docs/assigned
+// @access  Private
+const getAssignedDocuments = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  // Matching by email requires a verified address
+  const matches: Record<string, unknown>[] = [{ 'signers.user': req.user._id }];
+  if (req.user.hasVerifiedEmail()) {
+    matches.push({ 'signers.email': req.user.email.toLowerCase() });
+  }
+  const documents = await Document.find({ $or: matches }).sort({ uploadDate: -1 });
+
+  res.status(200).json(
+    documents.map((document) => {
+      const signer = findSignerForUser(document, req.user!)!;
+      return {
+        _id: document._id,
+        originalName: document.originalName,
+        status: document.status,
+        uploadDate: document.uploadDate,
+        signer,
+        isMyTurn: document.status === 'pending' && isSignersTurn(document, signer),
+      };
+    })
+  );
+});
+
+export { addSigner, declineSignature, getAssignedDocuments, getSigners, removeSigner, reorderSigners };
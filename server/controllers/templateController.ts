@@ -0,0 +1,395 @@
+// server/controllers/templateController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { Types } from 'mongoose';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import Document from '../models/Document';
+import { FIELD_TYPES, FieldType } from '../models/PlacedField';
+import Template, { ITemplate } from '../models/Template';
+import User from '../models/User';
+import { actorFromRequest, recordAuditEvent } from '../utils/auditLog';
+import { removeStoredFile, saveUploadedFile, sendPdfFile } from '../utils/documentFiles';
+import { addDocumentVersion } from '../utils/documentVersions';
+import { publishDocumentEvent } from '../utils/eventBus';
+import { sha256 } from '../utils/fileHash';
+import { isDimensions, isPoint } from '../utils/pageGeometry';
+import { readStoredFile } from '../utils/storage';
+
+const MAX_TEMPLATE_FIELDS = 100;
+
+// Multipart bodies carry arrays as JSON strings; JSON bodies carry them as-is
+const parseJsonField = (value: unknown, name: string, res: Response): unknown => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    res.status(400);
+    throw new Error(`${name} must be valid JSON.`);
+  }
+};
+
+// Validate a list of signer role names. Sets a 400 status and throws on invalid input.
+const validateRoles = (value: unknown, res: Response): string[] => {
+  const roles = parseJsonField(value ?? [], 'roles', res);
+
+  if (!Array.isArray(roles) || roles.some((role) => typeof role !== 'string' || role.trim() === '')) {
+    res.status(400);
+    throw new Error('roles must be an array of non-empty strings.');
+  }
+
+  const trimmed = roles.map((role: string) => role.trim());
+  if (new Set(trimmed).size !== trimmed.length) {
+    res.status(400);
+    throw new Error('roles must not contain duplicates.');
+  }
+
+  return trimmed;
+};
+
+// Validate the field layout of a template against its roles and page count.
+// Only placement is stored here; values are supplied by each signer at signing time.
+const validateTemplateFields = (value: unknown, roles: string[], pageCount: number, res: Response) => {
+  const fields = parseJsonField(value ?? [], 'fields', res);
+
+  if (!Array.isArray(fields) || fields.length > MAX_TEMPLATE_FIELDS) {
+    res.status(400);
+    throw new Error(`fields must be an array of at most ${MAX_TEMPLATE_FIELDS} entries.`);
+  }
+
+  return fields.map((value: unknown, index: number) => {
+    const fail = (message: string): never => {
+      res.status(400);
+      throw new Error(`Field ${index + 1}: ${message}`);
+    };
+
+    if (!value || typeof value !== 'object') {
+      return fail('must be an object.');
+    }
+    const field = value as Record<string, unknown>;
+    const { type, pageNumber, position, pdfPageDimensions: dimensions, role, fontSize, dateFormat, label } = field;
+    if (!FIELD_TYPES.includes(type as FieldType)) {
+      return fail(`type must be one of ${FIELD_TYPES.join(', ')}.`);
+    }
+    if (typeof pageNumber !== 'number' || !Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      return fail(`pageNumber must be between 1 and ${pageCount}.`);
+    }
+    if (!isPoint(position)) {
+      return fail('position must be an object with numeric x and y.');
+    }
+    if (!isDimensions(dimensions)) {
+      return fail('pdfPageDimensions must be an object with positive numeric width and height.');
+    }
+    if (typeof role !== 'string' || !roles.includes(role)) {
+      return fail(`role must be one of the template roles (${roles.join(', ') || 'none defined'}).`);
+    }
+    if (fontSize !== undefined && (typeof fontSize !== 'number' || fontSize < 6 || fontSize > 72)) {
+      return fail('fontSize must be a number between 6 and 72.');
+    }
+    if (dateFormat !== undefined && (typeof dateFormat !== 'string' || dateFormat.length > 40)) {
+      return fail('dateFormat must be a string of at most 40 characters.');
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      return fail('label must be a string.');
+    }
+
+    return {
+      type: type as FieldType,
+      pageNumber,
+      position: { x: position.x, y: position.y },
+      pdfPageDimensions: { width: dimensions.width, height: dimensions.height },
+      role,
+      required: field.required !== false,
+      label: label as string | undefined,
+      dateFormat: dateFormat as string | undefined,
+      fontSize: fontSize as number | undefined,
+    };
+  });
+};
+
+// Find a template owned by the current user, setting a 401/404/403 status and throwing otherwise
+const findOwnedTemplate = async (req: Request, res: Response): Promise<ITemplate> => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const template = await Template.findById(req.params.id);
+
+  if (!template) {
+    res.status(404);
+    throw new Error('Template not found');
+  }
+
+  if (template.user.toString() !== (req.user._id as Types.ObjectId).toString()) {
+    res.status(403); // Forbidden
+    throw new Error('Not authorized to access this template');
+  }
+
+  return template;
+};
+
+// @desc    Create a template from an uploaded PDF and a field layout
+// @route   POST /api/templates
+// @access  Private
+const createTemplate = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.file) {
+    res.status(400);
+    throw new Error('No file uploaded.');
+  }
+
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const { originalname, fieldname, buffer: bytes, size } = req.file;
+
+  let pageCount: number;
+  try {
+    pageCount = (await PDFDocument.load(bytes)).getPageCount();
+  } catch (error) {
+    res.status(400);
+    throw new Error('The uploaded file is not a readable PDF.');
+  }
+
+  const roles = validateRoles(req.body.roles, res);
+  const fields = validateTemplateFields(req.body.fields, roles, pageCount, res);
+
+  // Only stored once the template is known to be valid
+  const { fileName, filePath } = await saveUploadedFile(fieldname, originalname, bytes);
+
+  try {
+    const template = await Template.create({
+      user: req.user._id,
+      name: req.body.name || path.basename(originalname, path.extname(originalname)),
+      description: req.body.description,
+      fileName,
+      filePath,
+      originalName: originalname,
+      fileSize: size,
+      sha256: sha256(bytes),
+      pageCount,
+      roles,
+      fields,
+    });
+
+    res.status(201).json(template);
+  } catch (error) {
+    await removeStoredFile(filePath);
+    throw error;
+  }
+});
+
+// @desc    Get all templates of the authenticated user
+// @route   GET /api/templates
+// @access  Private
+const getTemplates = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const templates = await Template.find({ user: req.user._id }).sort({ updatedAt: -1 });
+
+  res.status(200).json(templates);
+});
+
+// @desc    Get a single template by ID
+// @route   GET /api/templates/:id
+// @access  Private (owner)
+const getTemplateById = asyncHandler(async (req: Request, res: Response) => {
+  const template = await findOwnedTemplate(req, res);
+
+  res.status(200).json(template);
+});
+
+// @desc    View the template's PDF
+// @route   GET /api/templates/:id/view
+// @access  Private (owner)
+const viewTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const template = await findOwnedTemplate(req, res);
+
+  await sendPdfFile(res, template.filePath, template.originalName);
+});
+
+// @desc    Update a template's name, description, roles or field layout
+// @route   PUT /api/templates/:id
+// @access  Private (owner)
+const updateTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const template = await findOwnedTemplate(req, res);
+  const { name, description, roles, fields } = req.body;
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim() === '') {
+      res.status(400);
+      throw new Error('name must be a non-empty string.');
+    }
+    template.name = name;
+  }
+
+  if (description !== undefined) {
+    template.description = description;
+  }
+
+  // Roles and fields are checked together so the layout never refers to a missing role
+  if (roles !== undefined || fields !== undefined) {
+    const newRoles = roles !== undefined ? validateRoles(roles, res) : template.roles;
+    const newFields = validateTemplateFields(
+      fields !== undefined ? fields : template.fields.map((field) => field.toObject()),
+      newRoles,
+      template.pageCount,
+      res
+    );
+    template.roles = newRoles;
+    template.set('fields', newFields);
+  }
+
+  const updatedTemplate = await template.save();
+
+  res.status(200).json(updatedTemplate);
+});
+
+// @desc    Delete a template
+// @route   DELETE /api/templates/:id
+// @access  Private (owner)
+const deleteTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const template = await findOwnedTemplate(req, res);
+
+  // Documents created from the template have their own copies of the file
+  await removeStoredFile(template.filePath);
+  await template.deleteOne();
+
+  res.status(200).json({ message: 'Template removed successfully' });
+});
+
+// @desc    Create a document from a template, assigning each role to a signer
+// @route   POST /api/templates/:id/instantiate
+// @access  Private (owner)
+const instantiateTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const template = await findOwnedTemplate(req, res);
+  const { name, roles = {}, signingOrder } = req.body;
+
+  if (typeof roles !== 'object' || Array.isArray(roles)) {
+    res.status(400);
+    throw new Error('roles must be an object mapping each role to { email, name }.');
+  }
+
+  if (signingOrder !== undefined && !['sequential', 'parallel'].includes(signingOrder)) {
+    res.status(400);
+    throw new Error('signingOrder must be "sequential" or "parallel".');
+  }
+
+  // Every role of the template needs a signer, and one person can't fill two roles
+  const assignments = template.roles.map((role) => {
+    const assignee = roles[role];
+    if (!assignee || typeof assignee.email !== 'string' || !/.+@.+\..+/.test(assignee.email)) {
+      res.status(400);
+      throw new Error(`A valid signer email is required for role "${role}".`);
+    }
+    return { role, email: assignee.email.trim().toLowerCase(), name: assignee.name };
+  });
+
+  const emails = assignments.map((assignment) => assignment.email);
+  if (new Set(emails).size !== emails.length) {
+    res.status(400);
+    throw new Error('Each role must be assigned to a different signer.');
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = await readStoredFile(template.filePath);
+  } catch (error) {
+    console.error(`Template file missing at ${template.filePath}:`, error);
+    res.status(404);
+    throw new Error('Template file not found on server.');
+  }
+
+  // The document gets its own copy so deleting the template never breaks it
+  const { fileName, filePath } = await saveUploadedFile('document', template.originalName, bytes);
+
+  const originalExt = path.extname(template.originalName);
+  const originalName = typeof name === 'string' && name.trim() !== ''
+    ? `${path.basename(name.trim(), originalExt)}${originalExt || '.pdf'}`
+    : template.originalName;
+
+  // Only accounts that have confirmed their address are linked
+  const existingUsers = await User.find({ email: { $in: emails }, emailVerified: { $ne: false } });
+
+  const document = new Document({
+    user: req.user!._id,
+    fileName,
+    filePath,
+    originalName,
+    fileType: 'application/pdf',
+    fileSize: bytes.length,
+    uploadDate: new Date(),
+    status: 'pending',
+    signingOrder: signingOrder || 'sequential',
+    template: template._id,
+    signers: assignments.map((assignment, index) => ({
+      user: existingUsers.find((user) => user.email === assignment.email)?._id,
+      email: assignment.email,
+      name: assignment.name,
+      order: index + 1, // Roles are listed in signing order
+      required: true,
+      status: 'pending',
+    })),
+  });
+
+  // Place the template's fields, assigned to the signer who took each role
+  const signerIdByRole = new Map(
+    assignments.map((assignment, index) => [assignment.role, document.signers[index]._id])
+  );
+  document.set(
+    'fields',
+    template.fields.map((field) => ({
+      type: field.type,
+      pageNumber: field.pageNumber,
+      position: field.position,
+      pdfPageDimensions: field.pdfPageDimensions,
+      role: field.role,
+      signer: field.role ? signerIdByRole.get(field.role) : undefined,
+      required: field.required,
+      label: field.label,
+      dateFormat: field.dateFormat,
+      fontSize: field.fontSize,
+    }))
+  );
+
+  try {
+    await addDocumentVersion(document, {
+      fileName,
+      filePath,
+      bytes,
+      action: 'template',
+      actor: actorFromRequest(req),
+      pageCount: template.pageCount,
+    });
+    await document.save();
+  } catch (error) {
+    await removeStoredFile(filePath);
+    throw error;
+  }
+
+  await recordAuditEvent(req, document, 'upload', { templateId: template._id });
+  publishDocumentEvent('document.uploaded', document, { via: 'template', templateId: template._id });
+
+  res.status(201).json({
+    message: 'Document created from template',
+    document,
+  });
+});
+
+export {
+  createTemplate,
+  deleteTemplate,
+  getTemplateById,
+  getTemplates,
+  instantiateTemplate,
+  updateTemplate,
+  viewTemplate,
+};
@@ -0,0 +1,108 @@
+// server/controllers/trashController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { Types } from 'mongoose';
+import Document, { IDocument } from '../models/Document';
+import { recordAuditEvent } from '../utils/auditLog';
+import { scheduleDeadlineJobs } from '../utils/deadlines';
+import { authorizeDocument } from '../utils/documentAccess';
+import { publishDocumentEvent } from '../utils/eventBus';
+import { canOnDocument, documentPermissions } from '../utils/policy';
+import { purgeDate, purgeDocument, trashFilter } from '../utils/trash';
+
+// Load the trashed document in req.params.id and make sure the authenticated user may delete it
+// (which is also what restoring and purging take). Sets the matching status (401/404/403) and throws otherwise.
+const findTrashedDocument = async (req: Request, res: Response): Promise<IDocument> => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const document = await Document.findOne({ _id: req.params.id, deletedAt: { $ne: null } });
+
+  if (!document) {
+    res.status(404);
+    throw new Error('Document not found in the trash');
+  }
+
+  await authorizeDocument(req, res, document, 'delete');
+
+  return document;
+};
+
+// @desc    Get the documents in the authenticated user's trash (ones they own or deleted), most
+//          recently deleted first, with when each will be purged
+// @route   GET /api/docs/trash
+// @access  Private
+const getTrash = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const documents = await Document.find(trashFilter(req.user._id as Types.ObjectId))
+    .populate('deletedBy', 'name email')
+    .sort({ deletedAt: -1 });
+
+  res.status(200).json(documents.map((document) => ({ ...document.toObject(), purgeAt: purgeDate(document) })));
+});
+
+// @desc    Restore a document from the trash
+// @route   POST /api/docs/:id/restore
+// @access  Private (anyone who may delete the document)
+const restoreDocument = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findTrashedDocument(req, res);
+
+  const deletedAt = document.deletedAt;
+  document.deletedAt = undefined;
+  document.deletedBy = undefined;
+  await document.save();
+
+  // Deadline jobs were cancelled with the deletion; a due date that passed meanwhile expires it now
+  await scheduleDeadlineJobs(document);
+
+  await recordAuditEvent(req, document, 'restore', { deletedAt });
+  publishDocumentEvent('document.restored', document);
+
+  res.status(200).json(document);
+});
+
+// @desc    Delete a document in the trash for good, with every stored version of its file
+// @route   DELETE /api/docs/trash/:id
+// @access  Private (anyone who may delete the document)
+const purgeTrashedDocument = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findTrashedDocument(req, res);
+
+  await recordAuditEvent(req, document, 'purge');
+  await purgeDocument(document);
+
+  res.status(200).json({ message: 'Document deleted permanently' });
+});
+
+// @desc    Empty the authenticated user's trash. Documents they may no longer delete (e.g. ones they
+//          deleted from an organization they have since left) are skipped.
+// @route   DELETE /api/docs/trash
+// @access  Private
+const emptyTrash = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const documents = await Document.find(trashFilter(req.user._id as Types.ObjectId));
+
+  let purged = 0;
+  for (const document of documents) {
+    if (!canOnDocument(await documentPermissions(req.user, document), 'delete')) {
+      continue;
+    }
+    await recordAuditEvent(req, document, 'purge', { emptiedTrash: true });
+    await purgeDocument(document);
+    purged += 1;
+  }
+
+  res.status(200).json({ purged, skipped: documents.length - purged });
+});
+
+export { emptyTrash, getTrash, purgeTrashedDocument, restoreDocument };
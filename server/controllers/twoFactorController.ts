@@ -0,0 +1,137 @@
+// server/controllers/twoFactorController.ts
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import QRCode from 'qrcode';
+import User, { IUser } from '../models/User';
+import { generateRecoveryCodes, generateTotpSecret, totpUri, verifyTotp } from '../utils/totp';
+import { hashRecoveryCodes, TWO_FACTOR_FIELDS } from '../utils/twoFactor';
+
+// Name shown for the account in authenticator apps
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Document Signature App';
+
+// Load the authenticated user with the given hidden fields. Sets a 401 status and throws
+// when there's no user on the request.
+const loadUser = async (req: Request, res: Response, fields: string): Promise<IUser> => {
+  const user = req.user ? await User.findById(req.user._id).select(fields) : null;
+  if (!user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+  return user;
+};
+
+// Changes that weaken or reset two-factor protection need the password again
+const requirePassword = async (user: IUser, password: unknown, res: Response): Promise<void> => {
+  if (typeof password !== 'string' || !(await user.matchPassword(password))) {
+    res.status(401);
+    throw new Error('Incorrect password');
+  }
+};
+
+// @desc    Start two-factor enrollment: create a secret to add to an authenticator app
+// @route   POST /api/auth/2fa/setup
+// @access  Private
+const setupTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const user = await loadUser(req, res, '+twoFactorPendingSecret');
+
+  if (user.twoFactorEnabled) {
+    res.status(400);
+    throw new Error('Two-factor authentication is already enabled.');
+  }
+
+  // Starting again replaces a secret that was never confirmed
+  const secret = generateTotpSecret();
+  user.twoFactorPendingSecret = secret;
+  await user.save();
+
+  const otpauthUrl = totpUri(secret, user.email, TOTP_ISSUER);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  res.status(200).json({ secret, otpauthUrl, qrCode });
+});
+
+// @desc    Finish enrollment with a first code from the authenticator app
+// @route   POST /api/auth/2fa/enable
+// @access  Private
+const enableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const { code } = req.body;
+  const user = await loadUser(req, res, '+twoFactorPendingSecret');
+
+  if (user.twoFactorEnabled) {
+    res.status(400);
+    throw new Error('Two-factor authentication is already enabled.');
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    res.status(400);
+    throw new Error('Start two-factor setup first.');
+  }
+
+  const step = typeof code === 'string' ? verifyTotp(user.twoFactorPendingSecret, code) : null;
+
+  if (step === null) {
+    res.status(400);
+    throw new Error('Invalid authentication code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  user.twoFactorEnabled = true;
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorLastUsedStep = step;
+  user.twoFactorRecoveryCodes = hashRecoveryCodes(recoveryCodes);
+  user.twoFactorFailedAttempts = 0;
+  user.twoFactorLockedUntil = undefined;
+  await user.save();
+
+  // The only time the recovery codes are shown
+  res.status(200).json({ message: 'Two-factor authentication enabled', recoveryCodes });
+});
+
+// @desc    Turn two-factor authentication off
+// @route   POST /api/auth/2fa/disable
+// @access  Private
+const disableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const user = await loadUser(req, res, `+password +twoFactorPendingSecret ${TWO_FACTOR_FIELDS}`);
+
+  if (!user.twoFactorEnabled) {
+    res.status(400);
+    throw new Error('Two-factor authentication is not enabled.');
+  }
+
+  await requirePassword(user, req.body.password, res);
+
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = undefined;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorLastUsedStep = undefined;
+  user.twoFactorRecoveryCodes = undefined;
+  user.twoFactorFailedAttempts = undefined;
+  user.twoFactorLockedUntil = undefined;
+  await user.save();
+
+  res.status(200).json({ message: 'Two-factor authentication disabled' });
+});
+
+// @desc    Replace the recovery codes with a new set
+// @route   POST /api/auth/2fa/recovery-codes
+// @access  Private
+const regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response) => {
+  const user = await loadUser(req, res, '+password +twoFactorRecoveryCodes');
+
+  if (!user.twoFactorEnabled) {
+    res.status(400);
+    throw new Error('Two-factor authentication is not enabled.');
+  }
+
+  await requirePassword(user, req.body.password, res);
+
+  // Any codes left from the previous set stop working
+  const recoveryCodes = generateRecoveryCodes();
+  user.twoFactorRecoveryCodes = hashRecoveryCodes(recoveryCodes);
+  await user.save();
+
+  res.status(200).json({ recoveryCodes });
+});
+
+export { disableTwoFactor, enableTwoFactor, regenerateRecoveryCodes, setupTwoFactor };
@@ -0,0 +1,83 @@
+// server/controllers/verifyController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import Document, { IDocument } from '../models/Document';
+import { sha256 } from '../utils/fileHash';
+import { canOnDocument, DocumentPermissions, documentPermissions } from '../utils/policy';
+
+// Documents considered when a hash matches several (e.g. copies of the same template)
+const MAX_MATCHES = 100;
+
+// @desc    Check whether a PDF (or its SHA-256) matches a revision this server produced. matchCount
+//          tells how many documents have that revision (e.g. copies of one template).
+// @route   POST /api/verify
+// @access  Public (owners and managers see more detail when authenticated)
+const verifyDocument = asyncHandler(async (req: Request, res: Response) => {
+  let hash: string;
+
+  if (req.file) {
+    hash = sha256(req.file.buffer);
+  } else if (typeof req.body.hash === 'string' && /^[a-f0-9]{64}$/i.test(req.body.hash.trim())) {
+    hash = req.body.hash.trim().toLowerCase();
+  } else {
+    res.status(400);
+    throw new Error('Upload a PDF as "document" or provide its SHA-256 as "hash".');
+  }
+
+  // Every document created from the same template starts with the same file, so a hash can
+  // match several documents. Oldest first: without a better choice, report the original.
+  const matches = await Document.find({ 'versions.sha256': hash }).sort({ createdAt: 1 }).limit(MAX_MATCHES);
+
+  if (matches.length === 0) {
+    res.status(200).json({ match: false, sha256: hash });
+    return;
+  }
+
+  // Prefer a match the caller manages, then one they may view
+  const permissions = new Map<IDocument, DocumentPermissions>();
+  if (req.user) {
+    for (const candidate of matches) {
+      permissions.set(candidate, await documentPermissions(req.user, candidate));
+    }
+  }
+  const allowed = (candidate: IDocument, action: 'view' | 'view_audit') =>
+    permissions.has(candidate) && canOnDocument(permissions.get(candidate)!, action);
+  const document =
+    matches.find((candidate) => allowed(candidate, 'view_audit')) ??
+    matches.find((candidate) => allowed(candidate, 'view')) ??
+    matches[0];
+  const version = document.versions.find((candidate) => candidate.sha256 === hash)!;
+
+  // Anyone holding the file may learn that it is genuine and when it was produced,
+  // but nothing about the document itself unless they manage it. When several documents
+  // match, the ID is only given if the caller may view the one reported.
+  const result = {
+    match: true,
+    sha256: hash,
+    matchCount: matches.length,
+    multipleMatches: matches.length > 1,
+    documentId: matches.length === 1 || allowed(document, 'view') ? document._id : undefined,
+    versionNumber: version.versionNumber,
+    isLatestVersion: version.versionNumber === document.currentVersion,
+    action: version.action,
+    createdAt: version.createdAt,
+    signedAt: version.action === 'sign' ? version.createdAt : undefined,
+    documentStatus: document.status,
+  };
+
+  if (allowed(document, 'view_audit')) {
+    res.status(200).json({
+      ...result,
+      originalName: document.originalName,
+      fileName: version.fileName,
+      signedBy: version.action === 'sign' ? version.actor : undefined,
+      signers: document.signers,
+    });
+    return;
+  }
+
+  res.status(200).json(result);
+});
+
+export { verifyDocument };
@@ -0,0 +1,108 @@
+// server/controllers/versionController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import path from 'path';
+import { IDocument, IDocumentVersion } from '../models/Document';
+import { findAuthorizedDocument } from '../utils/documentAccess';
+import { sendPdfFile } from '../utils/documentFiles';
+import { findVersion, seedInitialVersion } from '../utils/documentVersions';
+
+// Resolve a version number from the request, setting a 400/404 status and throwing if it's invalid
+const resolveVersion = (document: IDocument, value: unknown, res: Response): IDocumentVersion => {
+  const versionNumber = Number(value);
+
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    res.status(400);
+    throw new Error('Version must be a positive integer.');
+  }
+
+  const version = findVersion(document, versionNumber);
+
+  if (!version) {
+    res.status(404);
+    throw new Error(`Version ${versionNumber} not found`);
+  }
+
+  return version;
+};
+
+// Metadata exposed for a version (the storage path stays internal)
+const versionSummary = (version: IDocumentVersion) => ({
+  versionNumber: version.versionNumber,
+  fileName: version.fileName,
+  fileSize: version.fileSize,
+  sha256: version.sha256,
+  pageCount: version.pageCount,
+  action: version.action,
+  actor: version.actor,
+  createdAt: version.createdAt,
+});
+
+// @desc    List every version of a document
+// @route   GET /api/docs/:id/versions
+// @access  Private (anyone who may view the document)
+const getVersions = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view');
+
+  // Older documents get their current file recorded as version 1 on first access
+  if (document.versions.length === 0) {
+    await seedInitialVersion(document);
+    await document.save();
+  }
+
+  res.status(200).json({
+    documentId: document._id,
+    currentVersion: document.currentVersion,
+    versions: document.versions.map(versionSummary),
+  });
+});
+
+// @desc    View or download a specific version of a document
+// @route   GET /api/docs/:id/versions/:version/view?download=true
+// @access  Private (anyone who may view the document)
+const viewVersion = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view');
+  const version = resolveVersion(document, req.params.version, res);
+
+  const originalExt = path.extname(document.originalName);
+  const baseName = path.basename(document.originalName, originalExt);
+  const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+
+  await sendPdfFile(res, version.filePath, `${baseName}_v${version.versionNumber}.pdf`, disposition);
+});
+
+// @desc    Compare the metadata of two versions of a document
+// @route   GET /api/docs/:id/versions/diff?from=1&to=2
+// @access  Private (anyone who may view the document)
+const diffVersions = asyncHandler(async (req: Request, res: Response) => {
+  const document = await findAuthorizedDocument(req, res, 'view');
+  const from = resolveVersion(document, req.query.from, res);
+  const to = resolveVersion(document, req.query.to, res);
+
+  // Versions created after `from`, up to and including `to`
+  const [lower, upper] = [from.versionNumber, to.versionNumber].sort((a, b) => a - b);
+  const intermediate = document.versions
+    .filter((version) => version.versionNumber > lower && version.versionNumber <= upper)
+    .map((version) => ({
+      versionNumber: version.versionNumber,
+      action: version.action,
+      actor: version.actor,
+      createdAt: version.createdAt,
+    }));
+
+  res.status(200).json({
+    from: versionSummary(from),
+    to: versionSummary(to),
+    changes: {
+      contentChanged: from.sha256 !== to.sha256,
+      fileSizeDelta: to.fileSize - from.fileSize,
+      pageCountDelta:
+        from.pageCount !== undefined && to.pageCount !== undefined ? to.pageCount - from.pageCount : null,
+      elapsedMs: to.createdAt.getTime() - from.createdAt.getTime(),
+      versions: intermediate,
+    },
+  });
+});
+
+export { diffVersions, getVersions, viewVersion };
@@ -0,0 +1,246 @@
+// server/controllers/webhookController.ts
+
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { FilterQuery, Types } from 'mongoose';
+import Webhook, { IWebhook, WEBHOOK_EVENTS, WebhookEvent } from '../models/Webhook';
+import WebhookDelivery, { IWebhookDelivery } from '../models/WebhookDelivery';
+import { attemptDelivery, createDelivery, generateWebhookSecret, webhookUrlError } from '../utils/webhooks';
+
+const MAX_WEBHOOKS_PER_USER = 10;
+const MAX_DESCRIPTION_LENGTH = 200;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Shape of a webhook as returned to the client; the secret is only included when it is issued
+const webhookSummary = (webhook: IWebhook) => ({
+  _id: webhook._id,
+  url: webhook.url,
+  description: webhook.description,
+  events: webhook.events,
+  active: webhook.active,
+  createdAt: webhook.createdAt,
+  updatedAt: webhook.updatedAt,
+});
+
+// Check a webhook URL: absolute http(s), on a host with only public addresses (see utils/webhooks.ts)
+const validateUrl = async (value: unknown, res: Response): Promise<string> => {
+  let url: URL | undefined;
+  try {
+    url = typeof value === 'string' ? new URL(value.trim()) : undefined;
+  } catch (error) {
+    url = undefined;
+  }
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    res.status(400);
+    throw new Error('url must be an absolute http or https URL.');
+  }
+
+  const error = await webhookUrlError(url.toString());
+  if (error) {
+    res.status(400);
+    throw new Error(`url is not allowed: ${error}.`);
+  }
+  return url.toString();
+};
+
+const validateEvents = (value: unknown, res: Response): WebhookEvent[] => {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((event) => !WEBHOOK_EVENTS.includes(event as WebhookEvent))
+  ) {
+    res.status(400);
+    throw new Error(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}.`);
+  }
+  return [...new Set(value as WebhookEvent[])];
+};
+
+const validateDescription = (value: unknown, res: Response): string | undefined => {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > MAX_DESCRIPTION_LENGTH) {
+    res.status(400);
+    throw new Error(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters.`);
+  }
+  return value.trim();
+};
+
+// Load one of the caller's webhooks. Sets a 404 status and throws if there is no such webhook.
+const findOwnWebhook = async (req: Request, res: Response, select = ''): Promise<IWebhook> => {
+  const webhook = Types.ObjectId.isValid(req.params.id)
+    ? await Webhook.findOne({ _id: req.params.id, user: req.user!._id }).select(select)
+    : null;
+
+  if (!webhook) {
+    res.status(404);
+    throw new Error('Webhook not found');
+  }
+  return webhook;
+};
+
+// @desc    List the authenticated user's webhooks
+// @route   GET /api/webhooks
+// @access  Private
+const getWebhooks = asyncHandler(async (req: Request, res: Response) => {
+  const webhooks = await Webhook.find({ user: req.user!._id }).sort({ createdAt: 1 });
+
+  res.status(200).json(webhooks.map(webhookSummary));
+});
+
+// @desc    Register a webhook for events about the user's documents. The response holds the
+//          signing secret, which isn't shown again (see utils/webhooks.ts for verifying payloads).
+// @route   POST /api/webhooks  { url, events: ['document.signed', ...], description? }
+// @access  Private
+const createWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const url = await validateUrl(req.body.url, res);
+  const events = validateEvents(req.body.events, res);
+  const description = validateDescription(req.body.description, res);
+
+  if ((await Webhook.countDocuments({ user: req.user!._id })) >= MAX_WEBHOOKS_PER_USER) {
+    res.status(400);
+    throw new Error(`You can register at most ${MAX_WEBHOOKS_PER_USER} webhooks.`);
+  }
+
+  const webhook = await Webhook.create({
+    user: req.user!._id,
+    url,
+    description,
+    events,
+    secret: generateWebhookSecret(),
+  });
+
+  res.status(201).json({ ...webhookSummary(webhook), secret: webhook.secret });
+});
+
+// @desc    Change a webhook's URL, events, description or whether it is active
+// @route   PUT /api/webhooks/:id  { url?, events?, description?, active? }
+// @access  Private
+const updateWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findOwnWebhook(req, res);
+  const { url, events, description, active } = req.body;
+
+  if (url !== undefined) {
+    webhook.url = await validateUrl(url, res);
+  }
+  if (events !== undefined) {
+    webhook.events = validateEvents(events, res);
+  }
+  if (description !== undefined) {
+    webhook.description = validateDescription(description, res);
+  }
+  if (active !== undefined) {
+    if (typeof active !== 'boolean') {
+      res.status(400);
+      throw new Error('active must be true or false.');
+    }
+    webhook.active = active;
+  }
+
+  await webhook.save();
+  res.status(200).json(webhookSummary(webhook));
+});
+
+// @desc    Issue a new signing secret; the old one stops working immediately
+// @route   POST /api/webhooks/:id/rotate-secret
+// @access  Private
+const rotateWebhookSecret = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findOwnWebhook(req, res);
+
+  webhook.secret = generateWebhookSecret();
+  await webhook.save();
+
+  res.status(200).json({ ...webhookSummary(webhook), secret: webhook.secret });
+});
+
+// @desc    Delete a webhook and its delivery log
+// @route   DELETE /api/webhooks/:id
+// @access  Private
+const deleteWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findOwnWebhook(req, res);
+
+  await WebhookDelivery.deleteMany({ webhook: webhook._id });
+  await webhook.deleteOne();
+
+  res.status(200).json({ message: 'Webhook deleted', id: webhook._id });
+});
+
+// @desc    Send a ping event to check that the endpoint is reachable and verifies signatures.
+//          Returns the delivery with the outcome; a failed ping is retried like any delivery.
+// @route   POST /api/webhooks/:id/ping
+// @access  Private
+const pingWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findOwnWebhook(req, res);
+
+  const delivery = await createDelivery(webhook, 'ping', { webhook: webhookSummary(webhook) });
+  res.status(200).json(await attemptDelivery(delivery));
+});
+
+// @desc    The delivery log of a webhook, newest first, with every attempt
+// @route   GET /api/webhooks/:id/deliveries?status=pending|succeeded|failed&event=&page=&limit=
+// @access  Private
+const getWebhookDeliveries = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findOwnWebhook(req, res);
+  const { status, event } = req.query;
+
+  const filter: FilterQuery<IWebhookDelivery> = { webhook: webhook._id };
+  if (status !== undefined) {
+    if (status !== 'pending' && status !== 'succeeded' && status !== 'failed') {
+      res.status(400);
+      throw new Error('status must be one of: pending, succeeded, failed.');
+    }
+    filter.status = status;
+  }
+  if (event !== undefined) {
+    if (typeof event !== 'string') {
+      res.status(400);
+      throw new Error('event must be a single event name.');
+    }
+    filter.event = event;
+  }
+
+  const page = Math.max(Math.floor(Number(req.query.page)) || 1, 1);
+  const limit = Math.min(Math.max(Math.floor(Number(req.query.limit)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const [deliveries, total] = await Promise.all([
+    WebhookDelivery.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    WebhookDelivery.countDocuments(filter),
+  ]);
+
+  res.status(200).json({
+    deliveries,
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  });
+});
+
+// @desc    Send a delivery again now, whatever its status, with the same payload and delivery ID
+// @route   POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+// @access  Private
+const redeliverWebhookDelivery = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findOwnWebhook(req, res);
+  const delivery = Types.ObjectId.isValid(req.params.deliveryId)
+    ? await WebhookDelivery.findOne({ _id: req.params.deliveryId, webhook: webhook._id })
+    : null;
+
+  if (!delivery) {
+    res.status(404);
+    throw new Error('Delivery not found');
+  }
+
+  res.status(200).json(await attemptDelivery(delivery, true));
+});
+
+export {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  pingWebhook,
+  redeliverWebhookDelivery,
+  rotateWebhookSecret,
+  updateWebhook,
+};
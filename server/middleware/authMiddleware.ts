@@ -10,6 +10,37 @@ declare module 'express' {
   }
 }
 
+// Verify an access token and load its user. Throws if the token is invalid or expired,
+// the user no longer exists, or the password was changed after the token was issued.
+const userFromAccessToken = async (token: string): Promise<IUser> => {
+  // Ensure JWT_SECRET environment variable is defined
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET environment variable is not defined.');
+  }
+
+  // Verify the token using your JWT_SECRET
+  const decoded = jwt.verify(token, process.env.JWT_SECRET) as { id: string; iat: number; purpose?: string };
+
+  // Tokens issued for something else (e.g. a pending two-factor login) don't grant access
+  if (decoded.purpose) {
+    throw new Error('Token cannot be used for authentication.');
+  }
+
+  // Find the user by the ID extracted from the token payload
+  // .select('-password') ensures the password hash is not returned
+  const user = await User.findById(decoded.id).select('-password');
+
+  if (!user) {
+    throw new Error('User belonging to this token no longer exists.');
+  }
+
+  if (user.changedPasswordAfter(new Date(decoded.iat * 1000))) {
+    throw new Error('Password was changed after this token was issued.');
+  }
+
+  return user;
+};
+
 const protect = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   let token: string | undefined;
 
@@ -22,17 +53,7 @@ const protect = asyncHandler(async (req: Request, res: Response, next: NextFunct
       // Extract the token (e.g., "Bearer YOUR_TOKEN_HERE")
       token = req.headers.authorization.split(' ')[1];
 
-      // Ensure JWT_SECRET environment variable is defined
-      if (!process.env.JWT_SECRET) {
-        throw new Error('JWT_SECRET environment variable is not defined.');
-      }
-
-      // Verify the token using your JWT_SECRET
-      const decoded = jwt.verify(token, process.env.JWT_SECRET) as { id: string };
-
-      // Find the user by the ID extracted from the token payload
-      // .select('-password') ensures the password hash is not returned
-      req.user = await User.findById(decoded.id).select('-password');
+      req.user = await userFromAccessToken(token);
 
       next(); // If verification is successful, proceed to the next middleware or route handler
     } catch (error) {
@@ -49,4 +70,38 @@ const protect = asyncHandler(async (req: Request, res: Response, next: NextFunct
   }
 });
 
-export { protect };
+// Attach req.user when a valid Bearer token is present, but let anonymous requests through.
+// Used by public routes that reveal more to a document's owner.
+const optionalProtect = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const authorization = req.headers.authorization;
+
+  if (authorization && authorization.startsWith('Bearer')) {
+    try {
+      req.user = await userFromAccessToken(authorization.split(' ')[1]);
+    } catch (error) {
+      // An invalid token on a public route is treated as anonymous
+    }
+  }
+
+  next();
+});
+
+// EventSource can't send headers, so event stream routes also take the access token from
+// ?access_token=. Must come before protect. Not for other routes: URLs end up in logs.
+const acceptQueryToken = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.headers.authorization && typeof req.query.access_token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.access_token}`;
+  }
+  next();
+};
+
+// Only let admins through. Must come after protect.
+const admin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.role !== 'admin') {
+    res.status(403); // Forbidden
+    throw new Error('Not authorized as an admin');
+  }
+  next();
+};
+
+export { acceptQueryToken, admin, optionalProtect, protect };
@@ -10,8 +10,10 @@ const notFound = (req: Request, res: Response, next: NextFunction) => {
 // General error handling middleware
 // This will catch errors thrown by route handlers or other middleware
 const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
-  // Determine the status code. If it's still 200 (OK) despite an error, change to 500 (Internal Server Error)
-  const statusCode = res.statusCode === 200 ? 500 : res.statusCode;
+  // Determine the status code. If it's still 200 (OK) despite an error, use the error's own status
+  // (body parser errors such as 413 Payload Too Large carry one) or 500 (Internal Server Error)
+  const errorStatus = (err as Error & { status?: number }).status;
+  const statusCode = res.statusCode !== 200 ? res.statusCode : errorStatus && errorStatus >= 400 ? errorStatus : 500;
   res.status(statusCode);
   res.json({
     message: err.message,
@@ -0,0 +1,52 @@
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import Document, { IDocument } from '../models/Document';
+import SigningLink, { ISigningLink } from '../models/SigningLink';
+import { hashSigningToken } from '../utils/signingToken';
+
+// Extend the Request interface for the guest signing routes
+declare module 'express' {
+  interface Request {
+    signingLink?: ISigningLink; // The link resolved from the URL token
+    guestDocument?: IDocument; // The single document that link grants access to
+  }
+}
+
+// Resolve the signing link token in req.params.token. Guests never get a user
+// session, so this is the only thing standing between the public routes and a document.
+const guestAccess = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const link = await SigningLink.findOne({ tokenHash: hashSigningToken(req.params.token) });
+
+  if (!link) {
+    res.status(404);
+    throw new Error('Signing link is invalid');
+  }
+
+  if (link.revokedAt) {
+    res.status(410); // Gone
+    throw new Error('This signing link has been revoked');
+  }
+
+  if (link.usedAt) {
+    res.status(410); // Gone
+    throw new Error('This signing link has already been used');
+  }
+
+  if (link.expiresAt.getTime() < Date.now()) {
+    res.status(410); // Gone
+    throw new Error('This signing link has expired');
+  }
+
+  const document = await Document.findById(link.document);
+
+  if (!document) {
+    res.status(404);
+    throw new Error('Document not found');
+  }
+
+  req.signingLink = link;
+  req.guestDocument = document;
+  next();
+});
+
+export { guestAccess };
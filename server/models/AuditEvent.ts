@@ -0,0 +1,75 @@
+// server/models/AuditEvent.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type AuditAction = 'upload' | 'view' | 'sign' | 'form_fill' | 'decline' | 'status_change' | 'share' | 'unshare' | 'page_edit' | 'reminder' | 'delete' | 'restore' | 'purge';
+
+// Who performed an audited action: a registered user, a guest using a signing link,
+// or the server itself (e.g. background jobs)
+export interface IAuditActor {
+  type: 'user' | 'guest' | 'system';
+  user?: Types.ObjectId;
+  email?: string;
+  name?: string;
+}
+
+// Define an interface for an audit event. Events are append-only and are kept
+// even after their document is deleted.
+export interface IAuditEvent extends Document {
+  document: Types.ObjectId;
+  action: AuditAction;
+  actor: IAuditActor;
+  ip?: string;
+  userAgent?: string;
+  documentHash?: string; // SHA-256 of the document's current file at the time of the event
+  details?: Record<string, unknown>; // Action-specific data, e.g. old and new status
+  createdAt: Date;
+}
+
+const auditEventSchema: Schema = new mongoose.Schema(
+  {
+    document: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'Document',
+    },
+    action: {
+      type: String,
+      required: true,
+      enum: ['upload', 'view', 'sign', 'form_fill', 'decline', 'status_change', 'share', 'unshare', 'page_edit', 'reminder', 'delete', 'restore', 'purge'],
+    },
+    actor: {
+      type: {
+        type: String,
+        enum: ['user', 'guest', 'system'],
+        required: true,
+      },
+      user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      email: String,
+      name: String,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    documentHash: {
+      type: String,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }, // Events are never updated
+  }
+);
+
+auditEventSchema.index({ document: 1, createdAt: 1 });
+
+const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
@@ -1,20 +1,207 @@
 // server/models/Document.ts
 import mongoose, { Document as MongooseDocument, Schema, Types } from 'mongoose';
+import { IAuditActor } from './AuditEvent';
+import { IPlacedField, placedFieldSchema } from './PlacedField';
+
+// Per-signer state in a multi-party signing workflow
+export type SignerStatus = 'pending' | 'viewed' | 'signed' | 'declined';
+
+// Define an interface for a signer sub-document
+export interface ISigner {
+  _id: Types.ObjectId;
+  user?: Types.ObjectId; // Set when the signer's email belongs to a registered user
+  email: string;
+  name?: string;
+  order: number; // Position in the signing sequence (1-based)
+  required: boolean; // Optional signers never block completion
+  status: SignerStatus;
+  viewedAt?: Date;
+  signedAt?: Date;
+  declinedAt?: Date;
+  declineReason?: string;
+}
+
+// What a registered user a document is shared with may do (see utils/policy.ts)
+export type SharePermission = 'view' | 'sign' | 'manage';
+
+// Define an interface for a share sub-document
+export interface IDocumentShare {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  permission: SharePermission;
+  sharedBy: Types.ObjectId;
+  sharedAt: Date;
+}
+
+// What produced a revision of the document's file
+export type VersionAction = 'upload' | 'template' | 'sign' | 'form_fill' | 'page_edit' | 'extract' | 'merge' | 'complete';
+
+// Define an interface for a stored revision of the document's file
+export interface IDocumentVersion {
+  _id: Types.ObjectId;
+  versionNumber: number; // 1 is the original upload
+  fileName: string;
+  filePath: string; // Storage key (see utils/storage)
+  fileSize: number;
+  sha256: string;
+  pageCount?: number;
+  action: VersionAction;
+  actor: IAuditActor;
+  createdAt: Date;
+}
+
+// When signers are reminded of a due date (see utils/deadlines.ts)
+export interface IReminderSchedule {
+  daysBefore: number[]; // e.g. [3, 1]: three days and one day before the due date
+  overdueEveryDays?: number; // After the due date, until the document expires
+}
 
 // Define an interface for the Document document
 export interface IDocument extends MongooseDocument {
   user: Types.ObjectId; // Reference to the User model (formerly userId)
+  organization?: Types.ObjectId; // Organization the document belongs to; its members get access by role
   fileName: string; // Renamed from filename
-  filePath: string; // Path where the file is stored on the server (will now be updated for signed docs)
+  filePath: string; // Storage key of the latest version's file (see versions for earlier revisions)
   originalName: string; // Original name of the file from the user's computer
   fileType: string; // NEW: Added fileType
   fileSize: number;
+  sha256?: string; // Hash of the current file, for tamper-evidence checks
   uploadDate: Date;
   // UPDATED: Added 'reviewed' to the allowed status types
-  status: 'pending' | 'signed' | 'archived' | 'reviewed';
+  status: 'pending' | 'signed' | 'archived' | 'reviewed' | 'declined' | 'expired';
   lastSignedAt?: Date; // Optional property to track when the document was last signed
+  dueDate?: Date; // Signing deadline
+  reminderSchedule?: IReminderSchedule;
+  gracePeriodDays: number; // A pending document expires this many days after its due date
+  expiredAt?: Date;
+  signingOrder: 'sequential' | 'parallel'; // Whether signers must sign one after another
+  signers: Types.DocumentArray<ISigner>;
+  versions: Types.DocumentArray<IDocumentVersion>; // Every revision of the file, oldest first
+  currentVersion: number;
+  template?: Types.ObjectId; // Template the document was created from, if any
+  fields: Types.DocumentArray<IPlacedField>; // Fields placed ahead of signing, assigned to signers
+  shares: Types.DocumentArray<IDocumentShare>; // Other users the document is shared with
+  tags: string[]; // Lowercase labels for filtering and search
+  notes?: string; // Free text, included in search
+  deletedAt?: Date; // Set while the document is in the trash (see utils/trash.ts)
+  deletedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+const signerSchema: Schema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  email: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+  },
+  name: {
+    type: String,
+    trim: true,
+  },
+  order: {
+    type: Number,
+    required: true,
+  },
+  required: {
+    type: Boolean,
+    default: true,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'viewed', 'signed', 'declined'],
+    default: 'pending',
+  },
+  viewedAt: {
+    type: Date,
+  },
+  signedAt: {
+    type: Date,
+  },
+  declinedAt: {
+    type: Date,
+  },
+  declineReason: {
+    type: String,
+    trim: true,
+  },
+});
+
+const shareSchema: Schema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+  },
+  permission: {
+    type: String,
+    enum: ['view', 'sign', 'manage'],
+    required: true,
+  },
+  sharedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+  },
+  sharedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const versionSchema: Schema = new mongoose.Schema({
+  versionNumber: {
+    type: Number,
+    required: true,
+  },
+  fileName: {
+    type: String,
+    required: true,
+  },
+  filePath: {
+    type: String,
+    required: true,
+  },
+  fileSize: {
+    type: Number,
+    required: true,
+  },
+  sha256: {
+    type: String,
+    required: true,
+  },
+  pageCount: {
+    type: Number,
+  },
+  action: {
+    type: String,
+    enum: ['upload', 'template', 'sign', 'form_fill', 'page_edit', 'extract', 'merge', 'complete'],
+    required: true,
+  },
+  actor: {
+    type: {
+      type: String,
+      enum: ['user', 'guest'],
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    email: String,
+    name: String,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
 const documentSchema: Schema = new mongoose.Schema(
   {
     user: {
@@ -22,6 +209,10 @@ const documentSchema: Schema = new mongoose.Schema(
       required: true,
       ref: 'User', // Refers to the 'User' model
     },
+    organization: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Organization',
+    },
     fileName: {
       type: String,
       required: true,
@@ -43,24 +234,135 @@ const documentSchema: Schema = new mongoose.Schema(
       type: Number,
       required: true,
     },
+    sha256: {
+      type: String,
+    },
     uploadDate: {
       type: Date,
       default: Date.now, // Sets the default upload date to the current time
     },
     status: { // UPDATED: Added 'reviewed' to the enum array
       type: String,
-      enum: ['pending', 'signed', 'archived', 'reviewed'], // Restricts the status to these specific values
+      enum: ['pending', 'signed', 'archived', 'reviewed', 'declined', 'expired'], // Restricts the status to these specific values
       default: 'pending',
     },
     lastSignedAt: {
       type: Date,
     },
+    dueDate: {
+      type: Date,
+    },
+    reminderSchedule: {
+      type: new mongoose.Schema(
+        {
+          daysBefore: {
+            type: [Number],
+            default: [],
+          },
+          overdueEveryDays: {
+            type: Number,
+          },
+        },
+        { _id: false }
+      ),
+    },
+    gracePeriodDays: {
+      type: Number,
+      default: 0,
+    },
+    expiredAt: {
+      type: Date,
+    },
+    signingOrder: {
+      type: String,
+      enum: ['sequential', 'parallel'],
+      default: 'sequential',
+    },
+    signers: [signerSchema], // Empty for documents only the owner signs
+    versions: [versionSchema],
+    currentVersion: {
+      type: Number,
+      default: 1,
+    },
+    template: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Template',
+    },
+    fields: [placedFieldSchema],
+    shares: [shareSchema],
+    tags: {
+      type: [String],
+      default: [],
+    },
+    notes: {
+      type: String,
+      trim: true,
+    },
+    deletedAt: {
+      type: Date,
+    },
+    deletedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
   }
 );
 
+// Document lists (GET /api/docs): a user's or an organization's documents, newest first by
+// default, optionally narrowed by status or tag
+documentSchema.index({ user: 1, uploadDate: -1 });
+documentSchema.index({ user: 1, status: 1, uploadDate: -1 });
+documentSchema.index({ user: 1, tags: 1 });
+documentSchema.index({ organization: 1, uploadDate: -1 });
+// Text search over the name, tags and notes (a collection has at most one text index)
+documentSchema.index(
+  { originalName: 'text', tags: 'text', notes: 'text' },
+  { weights: { originalName: 10, tags: 5, notes: 1 }, name: 'document_text_search' }
+);
+// Lets signers find the documents waiting on them
+documentSchema.index({ 'signers.email': 1 });
+// Lets users find the documents shared with them
+documentSchema.index({ 'shares.user': 1 });
+// Lets the verification endpoint match a file against every known revision
+documentSchema.index({ 'versions.sha256': 1 });
+// Trash listings and the purge of documents past the retention period
+documentSchema.index({ deletedAt: 1 }, { sparse: true });
+
+// Documents in the trash are left out of reads and bulk writes, so every existing lookup and update
+// treats them as gone. Queries that filter on deletedAt themselves (the trash, its purge) see them.
+documentSchema.pre(
+  [
+    'find',
+    'findOne',
+    'findOneAndUpdate',
+    'findOneAndDelete',
+    'countDocuments',
+    'distinct',
+    'updateOne',
+    'updateMany',
+    'replaceOne',
+    'deleteOne',
+    'deleteMany',
+  ],
+  function () {
+    if (!('deletedAt' in this.getFilter())) {
+      this.where({ deletedAt: null });
+    }
+  }
+);
+
+// The same for aggregations: pipelines that don't start by matching on deletedAt get a stage
+// leaving the trash out
+documentSchema.pre('aggregate', function () {
+  const [first] = this.pipeline();
+  if (!(first && '$match' in first && 'deletedAt' in first.$match)) {
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  }
+});
+
 const Document = mongoose.model<IDocument>('Document', documentSchema);
 
 export default Document;
\ No newline at end of file
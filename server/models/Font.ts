@@ -0,0 +1,64 @@
+// server/models/Font.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Define an interface for a font uploaded by an admin for typed signatures
+// (the bundled fonts live in utils/fonts.ts and have no record)
+export interface IFont extends Document {
+  name: string; // Display name, unique
+  family: string; // Family name from the font file
+  fileName: string; // Original name of the uploaded file
+  filePath: string; // Storage key, under fonts/
+  fileSize: number;
+  sha256: string;
+  glyphCount: number;
+  uploadedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fontSchema: Schema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Please add a name'],
+      trim: true,
+      unique: true,
+    },
+    family: {
+      type: String,
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    filePath: {
+      type: String,
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    sha256: {
+      type: String,
+      required: true,
+    },
+    glyphCount: {
+      type: Number,
+      required: true,
+    },
+    uploadedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+const Font = mongoose.model<IFont>('Font', fontSchema);
+
+export default Font;
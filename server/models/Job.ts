@@ -0,0 +1,84 @@
+// server/models/Job.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Define an interface for a background job (see utils/jobs.ts). Jobs are stored so that
+// scheduled work survives restarts and is shared between server instances.
+export interface IJob extends Document {
+  name: string; // Which handler runs it
+  payload: Record<string, unknown>;
+  key?: string; // At most one queued job per key
+  status: JobStatus;
+  runAt: Date; // Not run before this time
+  attempts: number;
+  maxAttempts: number;
+  repeatEverySeconds?: number; // Recurring jobs are queued again after each run
+  lockedUntil?: Date; // While running; a job still running after this is assumed abandoned
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema: Schema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: mongoose.Schema.Types.Mixed,
+      default: {},
+    },
+    key: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed'],
+      default: 'queued',
+    },
+    runAt: {
+      type: Date,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 5,
+    },
+    repeatEverySeconds: {
+      type: Number,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+    minimize: false, // Keep empty payloads
+  }
+);
+
+// The runner's queue: due jobs, and running jobs whose lock expired
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, lockedUntil: 1 });
+// Finding (and cancelling) the jobs of one document
+jobSchema.index({ 'payload.documentId': 1, status: 1 });
+jobSchema.index({ key: 1 }, { unique: true, partialFilterExpression: { status: 'queued', key: { $exists: true } } });
+// Completed jobs are only kept for a week
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const Job = mongoose.model<IJob>('Job', jobSchema);
+
+export default Job;
@@ -0,0 +1,92 @@
+// server/models/Membership.ts
+import crypto from 'crypto';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { hashUserToken } from './User';
+
+// What a member may do in an organization, from most to least powerful (see utils/policy.ts)
+export type OrganizationRole = 'owner' | 'admin' | 'member' | 'viewer';
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+// Invited members only gain access once they accept with the emailed token
+export type MembershipStatus = 'invited' | 'active';
+
+// Define an interface for a user's membership of an organization
+export interface IMembership extends Document {
+  organization: Types.ObjectId;
+  user?: Types.ObjectId; // Set when the invitation is accepted
+  email: string; // The address the invitation was sent to
+  role: OrganizationRole;
+  status: MembershipStatus;
+  invitedBy?: Types.ObjectId;
+  invitationTokenHash?: string; // SHA-256 of the invitation token
+  invitationExpires?: Date;
+  joinedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  createInvitationToken(): string;
+}
+
+const membershipSchema: Schema = new mongoose.Schema(
+  {
+    organization: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'Organization',
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    role: {
+      type: String,
+      enum: ORGANIZATION_ROLES,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['invited', 'active'],
+      default: 'invited',
+    },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    invitationTokenHash: {
+      type: String,
+      select: false,
+    },
+    invitationExpires: {
+      type: Date,
+      select: false,
+    },
+    joinedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+// One membership (or pending invitation) per address and organization
+membershipSchema.index({ organization: 1, email: 1 }, { unique: true });
+membershipSchema.index({ invitationTokenHash: 1 }, { sparse: true });
+
+// Method to (re)issue the invitation token (valid for 7 days). The caller saves the membership.
+membershipSchema.methods.createInvitationToken = function (): string {
+  const token = crypto.randomBytes(32).toString('base64url');
+  this.invitationTokenHash = hashUserToken(token);
+  this.invitationExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  return token;
+};
+
+const Membership = mongoose.model<IMembership>('Membership', membershipSchema);
+
+export default Membership;
@@ -0,0 +1,32 @@
+// server/models/Organization.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Define an interface for an organization (a company or team sharing documents)
+export interface IOrganization extends Document {
+  name: string;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const organizationSchema: Schema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+const Organization = mongoose.model<IOrganization>('Organization', organizationSchema);
+
+export default Organization;
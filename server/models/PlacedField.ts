@@ -0,0 +1,70 @@
+// server/models/PlacedField.ts
+import mongoose, { Schema, Types } from 'mongoose';
+
+// Kinds of fields that can be placed on a page, ahead of signing or in a single signing pass
+export type FieldType = 'signature' | 'initials' | 'date' | 'name' | 'text' | 'checkbox';
+
+export const FIELD_TYPES: FieldType[] = ['signature', 'initials', 'date', 'name', 'text', 'checkbox'];
+
+// Define an interface for a field placed on a page ahead of signing (by a template or the owner)
+export interface IPlacedField {
+  _id: Types.ObjectId;
+  type: FieldType;
+  pageNumber: number; // 1-based
+  position: { x: number; y: number }; // Top-left of the field on the rendered page
+  pdfPageDimensions: { width: number; height: number }; // Rendered page size the position refers to
+  role?: string; // Signer role the field belongs to (templates)
+  signer?: Types.ObjectId; // Signer sub-document the field is assigned to (documents)
+  required: boolean;
+  label?: string;
+  dateFormat?: string;
+  fontSize?: number;
+  filledAt?: Date; // Set once the field has been signed (documents)
+}
+
+// Sub-schema shared by templates and documents (not a model of its own)
+const placedFieldSchema: Schema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: FIELD_TYPES,
+    required: true,
+  },
+  pageNumber: {
+    type: Number,
+    required: true,
+  },
+  position: {
+    x: { type: Number, required: true },
+    y: { type: Number, required: true },
+  },
+  pdfPageDimensions: {
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+  },
+  role: {
+    type: String,
+    trim: true,
+  },
+  signer: {
+    type: mongoose.Schema.Types.ObjectId,
+  },
+  required: {
+    type: Boolean,
+    default: true,
+  },
+  label: {
+    type: String,
+    trim: true,
+  },
+  dateFormat: {
+    type: String,
+  },
+  fontSize: {
+    type: Number,
+  },
+  filledAt: {
+    type: Date,
+  },
+});
+
+export { placedFieldSchema };
@@ -0,0 +1,67 @@
+// server/models/RefreshToken.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Define an interface for a server-side refresh token (one per rotation step of a session)
+export interface IRefreshToken extends Document {
+  user: Types.ObjectId;
+  family: string; // Shared by every token rotated from the same login; revoked together on reuse
+  tokenHash: string; // SHA-256 of the token; the raw token is only ever sent to the client
+  expiresAt: Date;
+  replacedBy?: Types.ObjectId; // Set when the token is rotated; presenting it again means it was stolen
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'logout_all' | 'reuse' | 'password_change';
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema: Schema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+      index: true,
+    },
+    family: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      expires: 0, // MongoDB removes the token once it has expired
+    },
+    replacedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'RefreshToken',
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'logout_all', 'reuse', 'password_change'],
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
+
+export default RefreshToken;
@@ -0,0 +1,101 @@
+// server/models/SavedSignature.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Standard PDF fonts (Latin only). Typed signatures can also use bundled and uploaded fonts; see utils/fonts.ts.
+export type SignatureFont = 'Helvetica' | 'HelveticaOblique' | 'TimesRoman' | 'TimesRomanItalic' | 'Courier' | 'CourierOblique';
+
+export const SIGNATURE_FONTS: SignatureFont[] = [
+  'Helvetica',
+  'HelveticaOblique',
+  'TimesRoman',
+  'TimesRomanItalic',
+  'Courier',
+  'CourierOblique',
+];
+
+// Define an interface for a signature or set of initials a user keeps for reuse
+export interface ISavedSignature extends Document {
+  user: Types.ObjectId; // Owner; saved signatures are never shared
+  name: string;
+  kind: 'signature' | 'initials';
+  format: 'image' | 'text';
+  isDefault: boolean; // At most one default per user and kind
+  // Image signatures: a normalized PNG stored under saved_signatures/<user>/
+  filePath?: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
+  sha256?: string;
+  // Text signatures: the text and how it is drawn
+  text?: string;
+  style?: {
+    font: string; // Font ID from GET /api/fonts
+    color: string; // Hex, e.g. '#1a237e'
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSignatureSchema: Schema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Please add a name'],
+      trim: true,
+    },
+    kind: {
+      type: String,
+      enum: ['signature', 'initials'],
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: ['image', 'text'],
+      required: true,
+    },
+    isDefault: {
+      type: Boolean,
+      default: false,
+    },
+    filePath: {
+      type: String,
+    },
+    fileSize: {
+      type: Number,
+    },
+    width: {
+      type: Number,
+    },
+    height: {
+      type: Number,
+    },
+    sha256: {
+      type: String,
+    },
+    text: {
+      type: String,
+      trim: true,
+    },
+    style: {
+      font: {
+        type: String,
+      },
+      color: {
+        type: String,
+      },
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+const SavedSignature = mongoose.model<ISavedSignature>('SavedSignature', savedSignatureSchema);
+
+export default SavedSignature;
@@ -0,0 +1,59 @@
+// server/models/SigningLink.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Define an interface for a guest signing link
+export interface ISigningLink extends Document {
+  document: Types.ObjectId; // The only document this link grants access to
+  email: string; // The guest signer this link was issued for
+  tokenHash: string; // SHA-256 of the token; the raw token is only ever shown once
+  expiresAt: Date;
+  usedAt?: Date; // Set once the guest signs or declines (links are single-use)
+  revokedAt?: Date; // Set when the owner revokes the link
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const signingLinkSchema: Schema = new mongoose.Schema(
+  {
+    document: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'Document',
+      index: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+const SigningLink = mongoose.model<ISigningLink>('SigningLink', signingLinkSchema);
+
+export default SigningLink;
@@ -0,0 +1,78 @@
+// server/models/Template.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IPlacedField, placedFieldSchema } from './PlacedField';
+
+// Define an interface for a reusable document template
+export interface ITemplate extends Document {
+  user: Types.ObjectId; // Owner of the template
+  name: string;
+  description?: string;
+  fileName: string;
+  filePath: string; // Storage key of the template's own copy of the PDF; documents get their own copies
+  originalName: string;
+  fileSize: number;
+  sha256: string;
+  pageCount: number;
+  roles: string[]; // Signer roles, in signing order (e.g. ['Employee', 'Manager'])
+  fields: Types.DocumentArray<IPlacedField>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const templateSchema: Schema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Please add a template name'],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    filePath: {
+      type: String,
+      required: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    sha256: {
+      type: String,
+      required: true,
+    },
+    pageCount: {
+      type: Number,
+      required: true,
+    },
+    roles: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+    fields: [placedFieldSchema],
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+const Template = mongoose.model<ITemplate>('Template', templateSchema);
+
+export default Template;
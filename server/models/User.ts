@@ -1,14 +1,39 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Admins manage server-wide settings (e.g. uploaded fonts); everyone else is a regular user
+export type UserRole = 'user' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['user', 'admin'];
+
 // Define an interface for the User document, extending mongoose.Document
 export interface IUser extends Document {
   name: string;
   email: string;
   password: string;
+  role: UserRole;
+  autoArchiveAfterDays?: number; // Signed documents are archived this many days after signing; unset for never
+  passwordChangedAt?: Date; // Tokens and sessions issued before this are no longer accepted
+  emailVerified?: boolean; // false until confirmed; unset for accounts created before verification existed
+  emailVerificationTokenHash?: string;
+  emailVerificationExpires?: Date;
+  passwordResetTokenHash?: string;
+  passwordResetExpires?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // Base32 TOTP secret, once enrollment is confirmed
+  twoFactorPendingSecret?: string; // Secret awaiting its first code during enrollment
+  twoFactorLastUsedStep?: number; // TOTP time step of the last accepted code, so codes can't be replayed
+  twoFactorRecoveryCodes?: string[]; // Hashes of the unused recovery codes
+  twoFactorFailedAttempts?: number; // Wrong codes since the last accepted one (see utils/twoFactor.ts)
+  twoFactorLockedUntil?: Date; // Two-factor login is refused until then, after too many wrong codes
   createdAt: Date;
   updatedAt: Date;
   matchPassword(enteredPassword: string): Promise<boolean>; // Method to compare passwords
+  changedPasswordAfter(issuedAt: Date): boolean; // Whether the password changed after a token was issued
+  hasVerifiedEmail(): boolean;
+  createEmailVerificationToken(): string; // Returns the raw token; only its hash is stored
+  createPasswordResetToken(): string; // Returns the raw token; only its hash is stored
 }
 
 const userSchema: Schema = new mongoose.Schema(
@@ -31,6 +56,66 @@ const userSchema: Schema = new mongoose.Schema(
       required: [true, 'Please add a password'],
       minlength: [6, 'Password must be at least 6 characters long'],
     },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      default: 'user',
+    },
+    autoArchiveAfterDays: {
+      type: Number,
+      min: 1,
+    },
+    passwordChangedAt: {
+      type: Date,
+    },
+    emailVerified: {
+      type: Boolean, // No default, so existing accounts count as verified
+    },
+    emailVerificationTokenHash: {
+      type: String,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      select: false,
+    },
+    passwordResetTokenHash: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    twoFactorFailedAttempts: {
+      type: Number,
+      select: false,
+    },
+    twoFactorLockedUntil: {
+      type: Date,
+      select: false,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt fields
@@ -48,6 +133,11 @@ userSchema.pre<IUser>('save', async function (next) {
   const salt = await bcrypt.genSalt(10);
   // Hash the user's password with the generated salt
   this.password = await bcrypt.hash(this.password, salt);
+  // Record password changes (not the initial one). Backdated a second because JWT issue
+  // times are in whole seconds, so a token issued right after the change stays valid.
+  if (!this.isNew) {
+    this.passwordChangedAt = new Date(Date.now() - 1000);
+  }
   next(); // Proceed to save the user
 });
 
@@ -56,6 +146,37 @@ userSchema.methods.matchPassword = async function (enteredPassword: string): Pro
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
+// Method to check whether the password was changed after a token or session was issued
+userSchema.methods.changedPasswordAfter = function (issuedAt: Date): boolean {
+  return !!this.passwordChangedAt && this.passwordChangedAt.getTime() > issuedAt.getTime();
+};
+
+// Method to check whether the user owns their email address. Email-based access (e.g. being
+// matched as a signer) is only granted once it's confirmed.
+userSchema.methods.hasVerifiedEmail = function (): boolean {
+  return this.emailVerified !== false;
+};
+
+// Hash a one-time token for storage; the raw token only ever goes out by email
+const hashUserToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Method to start email verification (valid for 24 hours). The caller saves the user.
+userSchema.methods.createEmailVerificationToken = function (): string {
+  const token = crypto.randomBytes(32).toString('base64url');
+  this.emailVerificationTokenHash = hashUserToken(token);
+  this.emailVerificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  return token;
+};
+
+// Method to start a password reset (valid for 1 hour). The caller saves the user.
+userSchema.methods.createPasswordResetToken = function (): string {
+  const token = crypto.randomBytes(32).toString('base64url');
+  this.passwordResetTokenHash = hashUserToken(token);
+  this.passwordResetExpires = new Date(Date.now() + 60 * 60 * 1000);
+  return token;
+};
+
 const User = mongoose.model<IUser>('User', userSchema);
 
+export { hashUserToken };
 export default User;
\ No newline at end of file
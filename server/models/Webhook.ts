@@ -0,0 +1,70 @@
+// server/models/Webhook.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Document lifecycle events a webhook can subscribe to
+export type WebhookEvent =
+  | 'document.uploaded'
+  | 'document.signed'
+  | 'document.status_changed'
+  | 'document.deleted'
+  | 'document.restored';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'document.uploaded',
+  'document.signed',
+  'document.status_changed',
+  'document.deleted',
+  'document.restored',
+];
+
+// Define an interface for an HTTP endpoint a user registered to receive events about their documents
+export interface IWebhook extends Document {
+  user: Types.ObjectId; // Events are sent for documents this user owns
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string; // Signs each payload (HMAC-SHA256); only shown when created or rotated
+  active: boolean; // Inactive webhooks receive nothing
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema: Schema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+      index: true,
+    },
+    url: {
+      type: String,
+      required: [true, 'Please add a URL'],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    events: {
+      type: [{ type: String, enum: WEBHOOK_EVENTS }],
+      required: true,
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false, // Loaded explicitly when signing a delivery
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+const Webhook = mongoose.model<IWebhook>('Webhook', webhookSchema);
+
+export default Webhook;
@@ -0,0 +1,106 @@
+// server/models/WebhookDelivery.ts
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { WebhookEvent } from './Webhook';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One HTTP request made for a delivery
+export interface IWebhookAttempt {
+  attemptedAt: Date;
+  manual: boolean; // Redelivered by the user rather than retried automatically
+  statusCode?: number; // Missing if no response was received
+  error?: string; // Network error or timeout
+  responseBody?: string; // First KB of the response, for debugging receivers
+  durationMs: number;
+}
+
+// Define an interface for an event sent (or to be sent) to a webhook, with every attempt made.
+// The payload is fixed when the event happens, so retries and redeliveries send the same body.
+export interface IWebhookDelivery extends Document {
+  webhook: Types.ObjectId;
+  user: Types.ObjectId;
+  event: WebhookEvent | 'ping';
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: IWebhookAttempt[];
+  nextAttemptAt?: Date; // When a pending delivery is (re)tried next
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attemptSchema: Schema = new mongoose.Schema(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+    manual: {
+      type: Boolean,
+      default: false,
+    },
+    statusCode: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    responseBody: {
+      type: String,
+    },
+    durationMs: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const webhookDeliverySchema: Schema = new mongoose.Schema(
+  {
+    webhook: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'Webhook',
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: mongoose.Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: [attemptSchema],
+      default: [],
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields automatically to the schema
+  }
+);
+
+// The delivery log of a webhook, newest first, and the retry queue
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
+
+export default WebhookDelivery;
@@ -0,0 +1,12 @@
+// server/routes/adminRoutes.ts
+import express from 'express';
+import { deleteStorageOrphans, getStorageOrphans } from '../controllers/adminController';
+import { admin, protect } from '../middleware/authMiddleware'; // Auth middleware
+
+const router = express.Router();
+
+// Stored files no record references: report them, or remove them
+router.get('/storage/orphans', protect, admin, getStorageOrphans);
+router.delete('/storage/orphans', protect, admin, deleteStorageOrphans);
+
+export default router;
@@ -1,9 +1,51 @@
 // server/routes/authRoutes.ts
 import express from 'express';
-import { loginUser, registerUser } from '../controllers/authController';
+import {
+    forgotPassword,
+    getSettings,
+    loginUser,
+    logoutAllSessions,
+    logoutUser,
+    refreshAccessToken,
+    registerUser,
+    resendVerification,
+    resetPassword,
+    updateSettings,
+    verifyEmail,
+    verifyTwoFactorLogin,
+} from '../controllers/authController';
+import {
+    disableTwoFactor,
+    enableTwoFactor,
+    regenerateRecoveryCodes,
+    setupTwoFactor,
+} from '../controllers/twoFactorController';
+import { protect } from '../middleware/authMiddleware';
 const router = express.Router();
 
 router.post('/register', registerUser);
 router.post('/login', loginUser);
 
+// Sessions: renew the access token, end this session, or end every session
+router.post('/refresh', refreshAccessToken);
+router.post('/logout', logoutUser);
+router.post('/logout-all', protect, logoutAllSessions);
+
+// Email verification and password recovery
+router.post('/verify-email', verifyEmail);
+router.post('/resend-verification', protect, resendVerification);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+
+// Account settings (e.g. auto-archiving of signed documents)
+router.get('/settings', protect, getSettings);
+router.put('/settings', protect, updateSettings);
+
+// Two-factor authentication: the second login step, then enrollment and management
+router.post('/2fa/verify', verifyTwoFactorLogin);
+router.post('/2fa/setup', protect, setupTwoFactor);
+router.post('/2fa/enable', protect, enableTwoFactor);
+router.post('/2fa/disable', protect, disableTwoFactor);
+router.post('/2fa/recovery-codes', protect, regenerateRecoveryCodes);
+
 export default router; // <-- THIS LINE IS CRUCIAL! Make sure it's there.
\ No newline at end of file
@@ -3,33 +3,78 @@ import express from 'express';
 import {
     applySignature,
     deleteDocument,
+    getDocumentAudit,
     getDocumentById,
+    getDocumentDownloadUrl,
     getMyDocuments,
+    getSharedDocuments,
     updateDocument,
     uploadDocument,
     viewDocument,
 } from '../controllers/documentController';
+import { fillForm, getFormFields } from '../controllers/formController';
+import {
+    deletePages,
+    extractPages,
+    getPages,
+    mergeDocuments,
+    reorderPages,
+    rotatePages,
+} from '../controllers/pageController';
+import { createSigningLink, getSigningLinks, revokeSigningLink } from '../controllers/guestController';
+import { getShares, revokeShare, shareDocument, updateShare } from '../controllers/shareController';
+import {
+    addSigner,
+    declineSignature,
+    getAssignedDocuments,
+    getSigners,
+    removeSigner,
+    reorderSigners,
+} from '../controllers/signerController';
+import { emptyTrash, getTrash, purgeTrashedDocument, restoreDocument } from '../controllers/trashController';
+import { diffVersions, getVersions, viewVersion } from '../controllers/versionController';
 import { protect } from '../middleware/authMiddleware'; // Auth middleware
-import upload from '../utils/fileUpload'; // Multer middleware
+import { documentUpload, MAX_DOCUMENT_FILES } from '../utils/fileUpload'; // Multer middleware
 
 const router = express.Router();
 
-// Route for uploading a document. Uses 'upload.single('document')' for one file.
+// Route for uploading a document: one or more PDFs and PNG/JPEG images, merged into one PDF in order.
 // The field name 'document' must match the 'name' attribute of the file input in your HTML form.
-router.post('/upload', protect, upload.single('document'), uploadDocument);
+router.post('/upload', protect, documentUpload.array('document', MAX_DOCUMENT_FILES), uploadDocument);
+
+// Route for merging several documents into a new one
+router.post('/merge', protect, mergeDocuments);
 
 // GET route for all documents for the authenticated user
 router.get('/', protect, getMyDocuments);
 
+// GET route for documents the authenticated user has been asked to sign
+// Must be registered before '/:id' so 'assigned' is not treated as an ID
+router.get('/assigned', protect, getAssignedDocuments);
+
+// GET route for documents other users have shared with the authenticated user (also before '/:id')
+router.get('/shared', protect, getSharedDocuments);
+
+// --- TRASH ---
+// Deleted documents stay in the trash until restored, purged or past the retention period
+// (also before '/:id')
+router.get('/trash', protect, getTrash);
+router.delete('/trash', protect, emptyTrash);
+router.delete('/trash/:id', protect, purgeTrashedDocument);
+router.post('/:id/restore', protect, restoreDocument);
+
 // GET route for a single document by ID (metadata only)
 router.get('/:id', protect, getDocumentById);
 
-// DELETE route for a document
+// DELETE route for a document (moves it to the trash)
 router.delete('/:id', protect, deleteDocument);
 
 // GET route to view/serve the actual PDF file
 router.get('/view/:id', protect, viewDocument);
 
+// GET route for a short-lived URL to the PDF, for downloads that can't send the auth header
+router.get('/:id/download-url', protect, getDocumentDownloadUrl);
+
 // PUT route to update document metadata (e.g., status)
 router.put('/:id', protect, updateDocument);
 
@@ -37,4 +82,51 @@ router.put('/:id', protect, updateDocument);
 // This route will handle the POST request from the frontend to apply a signature
 router.post('/sign/:id', protect, applySignature); // <--- ADDED THIS LINE
 
+// GET route for the audit trail of a document (owner, organization admin or manager)
+router.get('/:id/audit', protect, getDocumentAudit);
+
+// --- VERSION HISTORY ---
+router.get('/:id/versions', protect, getVersions);
+router.get('/:id/versions/diff', protect, diffVersions);
+router.get('/:id/versions/:version/view', protect, viewVersion);
+
+// --- ACROFORM FIELDS ---
+// List the PDF's own form fields, or fill (and optionally flatten) them as a new revision
+router.get('/:id/form', protect, getFormFields);
+router.post('/:id/form', protect, fillForm);
+
+// --- PAGE OPERATIONS ---
+// Page sizes, rotation and crop boxes, for placing fields in points or fractions of the page
+router.get('/:id/pages', protect, getPages);
+
+// Rotate, delete or reorder pages as a new revision (confirm: true needed once signed),
+// or copy a page range into a new document
+router.post('/:id/pages/rotate', protect, rotatePages);
+router.post('/:id/pages/delete', protect, deletePages);
+router.post('/:id/pages/reorder', protect, reorderPages);
+router.post('/:id/pages/extract', protect, extractPages);
+
+// --- MULTI-PARTY SIGNING ---
+// Manage the signers of a document (owner, organization admin or manager)
+router.get('/:id/signers', protect, getSigners);
+router.post('/:id/signers', protect, addSigner);
+router.put('/:id/signers/order', protect, reorderSigners);
+router.delete('/:id/signers/:signerId', protect, removeSigner);
+
+// A signer declines to sign, giving a reason
+router.post('/:id/decline', protect, declineSignature);
+
+// --- GUEST SIGNING LINKS ---
+// Issue, list and revoke signing links for external signers (owner, organization admin or manager)
+router.get('/:id/links', protect, getSigningLinks);
+router.post('/:id/links', protect, createSigningLink);
+router.delete('/:id/links/:linkId', protect, revokeSigningLink);
+
+// --- SHARING ---
+// Share a document with other registered users to view, sign or manage it
+router.get('/:id/shares', protect, getShares);
+router.post('/:id/shares', protect, shareDocument);
+router.put('/:id/shares/:shareId', protect, updateShare);
+router.delete('/:id/shares/:shareId', protect, revokeShare);
+
 export default router;
\ No newline at end of file
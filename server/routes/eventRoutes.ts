@@ -0,0 +1,11 @@
+// server/routes/eventRoutes.ts
+import express from 'express';
+import { streamEvents } from '../controllers/eventController';
+import { acceptQueryToken, protect } from '../middleware/authMiddleware'; // Auth middleware
+
+const router = express.Router();
+
+// Real-time document events for the authenticated user (Server-Sent Events)
+router.get('/', acceptQueryToken, protect, streamEvents);
+
+export default router;
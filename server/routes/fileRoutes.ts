@@ -0,0 +1,10 @@
+// server/routes/fileRoutes.ts
+import express from 'express';
+import { serveSignedFile } from '../controllers/fileController';
+
+const router = express.Router();
+
+// Downloads through short-lived signed URLs (local storage only; S3 URLs point at the bucket)
+router.get('/', serveSignedFile);
+
+export default router;
@@ -0,0 +1,16 @@
+// server/routes/fontRoutes.ts
+import express from 'express';
+import { deleteFont, getFonts, uploadFont } from '../controllers/fontController';
+import { admin, protect } from '../middleware/authMiddleware'; // Auth middleware
+import { fontUpload } from '../utils/fileUpload'; // Multer middleware (in-memory, TrueType only)
+
+const router = express.Router();
+
+// Fonts available for typed signatures and other signed text
+router.get('/', protect, getFonts);
+
+// Admins add TrueType fonts (file field 'font', optional name) and remove them
+router.post('/', protect, admin, fontUpload.single('font'), uploadFont);
+router.delete('/:id', protect, admin, deleteFont);
+
+export default router;
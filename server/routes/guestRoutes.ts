@@ -0,0 +1,20 @@
+// server/routes/guestRoutes.ts
+import express from 'express';
+import {
+    applyGuestSignature,
+    declineGuestSignature,
+    getGuestDocument,
+    viewGuestDocument,
+} from '../controllers/guestController';
+import { guestAccess } from '../middleware/guestMiddleware'; // Signing link middleware
+
+const router = express.Router();
+
+// Public routes for external signers. Access is granted by the signing link token
+// alone, and each token only ever reaches the one document it was issued for.
+router.get('/:token', guestAccess, getGuestDocument);
+router.get('/:token/view', guestAccess, viewGuestDocument);
+router.post('/:token/sign', guestAccess, applyGuestSignature);
+router.post('/:token/decline', guestAccess, declineGuestSignature);
+
+export default router;
@@ -0,0 +1,36 @@
+// server/routes/organizationRoutes.ts
+import express from 'express';
+import {
+    acceptInvitation,
+    createOrganization,
+    deleteOrganization,
+    getMyOrganizations,
+    getOrganization,
+    inviteMember,
+    removeMember,
+    updateMember,
+    updateOrganization,
+} from '../controllers/organizationController';
+import { protect } from '../middleware/authMiddleware'; // Auth middleware
+
+const router = express.Router();
+
+// Organizations of the authenticated user, and creating a new one
+router.get('/', protect, getMyOrganizations);
+router.post('/', protect, createOrganization);
+
+// Accept an emailed invitation
+// Must be registered before '/:id' routes so 'invitations' is not treated as an ID
+router.post('/invitations/accept', protect, acceptInvitation);
+
+// Single organization: details with members, rename and delete
+router.get('/:id', protect, getOrganization);
+router.put('/:id', protect, updateOrganization);
+router.delete('/:id', protect, deleteOrganization);
+
+// Members: invite, change role, remove (or leave)
+router.post('/:id/members', protect, inviteMember);
+router.put('/:id/members/:memberId', protect, updateMember);
+router.delete('/:id/members/:memberId', protect, removeMember);
+
+export default router;
@@ -0,0 +1,25 @@
+// server/routes/savedSignatureRoutes.ts
+import express from 'express';
+import {
+    createSavedSignature,
+    deleteSavedSignature,
+    getSavedSignatureImage,
+    getSavedSignatures,
+    updateSavedSignature,
+} from '../controllers/savedSignatureController';
+import { protect } from '../middleware/authMiddleware'; // Auth middleware
+import { imageUpload } from '../utils/fileUpload'; // Multer middleware (in-memory, images only)
+
+const router = express.Router();
+
+// The authenticated user's signature and initials library
+router.get('/', protect, getSavedSignatures);
+
+// Save a signature: an image in the 'image' file field, an imageData data URL, or text with a style
+router.post('/', protect, imageUpload.single('image'), createSavedSignature);
+
+router.get('/:id/image', protect, getSavedSignatureImage);
+router.put('/:id', protect, updateSavedSignature);
+router.delete('/:id', protect, deleteSavedSignature);
+
+export default router;
@@ -0,0 +1,33 @@
+// server/routes/templateRoutes.ts
+import express from 'express';
+import {
+    createTemplate,
+    deleteTemplate,
+    getTemplateById,
+    getTemplates,
+    instantiateTemplate,
+    updateTemplate,
+    viewTemplate,
+} from '../controllers/templateController';
+import { protect } from '../middleware/authMiddleware'; // Auth middleware
+import upload from '../utils/fileUpload'; // Multer middleware
+
+const router = express.Router();
+
+// Create a template. The PDF goes in the 'template' file field; 'roles' and 'fields'
+// are sent as JSON strings alongside it in the multipart form.
+router.post('/', protect, upload.single('template'), createTemplate);
+
+// GET route for all templates of the authenticated user
+router.get('/', protect, getTemplates);
+
+// Single template: metadata, file, update and delete (owner only)
+router.get('/:id', protect, getTemplateById);
+router.get('/:id/view', protect, viewTemplate);
+router.put('/:id', protect, updateTemplate);
+router.delete('/:id', protect, deleteTemplate);
+
+// Create a new document from the template, with its fields pre-placed
+router.post('/:id/instantiate', protect, instantiateTemplate);
+
+export default router;
@@ -0,0 +1,13 @@
+// server/routes/verifyRoutes.ts
+import express from 'express';
+import { verifyDocument } from '../controllers/verifyController';
+import { optionalProtect } from '../middleware/authMiddleware';
+import { memoryUpload } from '../utils/fileUpload';
+
+const router = express.Router();
+
+// Public tamper-evidence check. Accepts a PDF upload (field 'document') or a JSON/form 'hash'.
+// The file is hashed in memory and never stored.
+router.post('/', optionalProtect, memoryUpload.single('document'), verifyDocument);
+
+export default router;
@@ -0,0 +1,29 @@
+// server/routes/webhookRoutes.ts
+import express from 'express';
+import {
+    createWebhook,
+    deleteWebhook,
+    getWebhookDeliveries,
+    getWebhooks,
+    pingWebhook,
+    redeliverWebhookDelivery,
+    rotateWebhookSecret,
+    updateWebhook,
+} from '../controllers/webhookController';
+import { protect } from '../middleware/authMiddleware'; // Auth middleware
+
+const router = express.Router();
+
+// The authenticated user's webhook endpoints for events about their documents
+router.get('/', protect, getWebhooks);
+router.post('/', protect, createWebhook);
+router.put('/:id', protect, updateWebhook);
+router.delete('/:id', protect, deleteWebhook);
+router.post('/:id/rotate-secret', protect, rotateWebhookSecret);
+router.post('/:id/ping', protect, pingWebhook);
+
+// Delivery log, and sending a delivery again
+router.get('/:id/deliveries', protect, getWebhookDeliveries);
+router.post('/:id/deliveries/:deliveryId/redeliver', protect, redeliverWebhookDelivery);
+
+export default router;
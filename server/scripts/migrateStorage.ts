@@ -0,0 +1,179 @@
+// server/scripts/migrateStorage.ts
+// Moves stored files into the configured storage backend (STORAGE_DRIVER) and rewrites
+// the filePath of documents, document versions, templates and saved signatures to storage keys.
+//
+//   npm run migrate:storage -- [--dry-run] [--from-local] [--delete-source]
+//
+// Records created before storage keys existed hold absolute paths into uploads/,
+// signed_documents/ or saved_signatures/; those files are always moved. With --from-local,
+// files already stored by the local driver are also copied, for switching to S3.
+// --delete-source removes each original once every record pointing at it is updated.
+// Files that can't be read are reported and their records left unchanged.
+import 'colors';
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import mongoose from 'mongoose';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+import connectDB from '../config/db';
+import Document from '../models/Document';
+import SavedSignature from '../models/SavedSignature';
+import Template from '../models/Template';
+import { getStorage, readStoredFile } from '../utils/storage';
+import { createLocalDriver } from '../utils/storage/localDriver';
+
+const args = new Set(process.argv.slice(2));
+const dryRun = args.has('--dry-run');
+const fromLocal = args.has('--from-local');
+const deleteSource = args.has('--delete-source');
+
+const target = getStorage();
+const localDriver = createLocalDriver();
+
+// The storage key for a file at a legacy absolute path, keeping the folder it was in
+const keyForLegacyPath = (filePath: string): string => {
+  const parts = filePath.split(path.sep);
+  const fileName = parts[parts.length - 1];
+  if (parts.includes('signed_documents')) {
+    return `signed_documents/${fileName}`;
+  }
+  if (parts.includes('saved_signatures')) {
+    return `saved_signatures/${parts[parts.length - 2]}/${fileName}`;
+  }
+  return `uploads/${fileName}`;
+};
+
+const contentTypeFor = (key: string): string => (key.endsWith('.png') ? 'image/png' : 'application/pdf');
+
+const stats = { moved: 0, skipped: 0, missing: 0, recordsUpdated: 0 };
+const movedPaths = new Map<string, string>(); // Source path -> new key, so shared files move once
+const sources = new Set<string>(); // Originals to delete at the end
+
+// Move one file if it needs moving. Returns its key in the target storage, or null if it
+// couldn't be read (the record then keeps its old value).
+const migrateFile = async (filePath: string): Promise<string | null> => {
+  if (movedPaths.has(filePath)) {
+    return movedPaths.get(filePath)!;
+  }
+
+  const isLegacyPath = path.isAbsolute(filePath);
+  if (!isLegacyPath && !(fromLocal && target.name !== 'local')) {
+    stats.skipped++;
+    movedPaths.set(filePath, filePath);
+    return filePath;
+  }
+
+  const key = isLegacyPath ? keyForLegacyPath(filePath) : filePath;
+
+  let bytes: Buffer;
+  try {
+    bytes = isLegacyPath ? await fs.readFile(filePath) : await readStoredFile(filePath, localDriver);
+  } catch (error) {
+    console.warn(`Missing: ${filePath}`.yellow);
+    stats.missing++;
+    return null;
+  }
+
+  console.log(`${dryRun ? '[dry run] ' : ''}${filePath} -> ${target.name}:${key}`);
+  if (!dryRun) {
+    await target.put(key, bytes, contentTypeFor(key));
+  }
+  stats.moved++;
+  movedPaths.set(filePath, key);
+  // Copying within the same local folder leaves nothing to clean up
+  if (isLegacyPath || target.name !== 'local') {
+    sources.add(filePath);
+  }
+  return key;
+};
+
+const migrateDocuments = async () => {
+  // Documents in the trash are only found by asking for them, and still need their files
+  for (const filter of [{ deletedAt: null }, { deletedAt: { $ne: null } }]) {
+    for await (const document of Document.find(filter).cursor()) {
+      let changed = false;
+
+      for (const version of document.versions) {
+        const key = await migrateFile(version.filePath);
+        if (key && key !== version.filePath) {
+          version.filePath = key;
+          changed = true;
+        }
+      }
+
+      const key = await migrateFile(document.filePath);
+      if (key && key !== document.filePath) {
+        document.filePath = key;
+        changed = true;
+      }
+
+      if (changed && !dryRun) {
+        await document.save({ validateBeforeSave: false, timestamps: false });
+        stats.recordsUpdated++;
+      }
+    }
+  }
+};
+
+const migrateTemplates = async () => {
+  for await (const template of Template.find().cursor()) {
+    const key = await migrateFile(template.filePath);
+    if (key && key !== template.filePath && !dryRun) {
+      template.filePath = key;
+      await template.save({ validateBeforeSave: false, timestamps: false });
+      stats.recordsUpdated++;
+    }
+  }
+};
+
+const migrateSavedSignatures = async () => {
+  for await (const signature of SavedSignature.find({ filePath: { $exists: true } }).cursor()) {
+    const key = await migrateFile(signature.filePath!);
+    if (key && key !== signature.filePath && !dryRun) {
+      signature.filePath = key;
+      await signature.save({ validateBeforeSave: false, timestamps: false });
+      stats.recordsUpdated++;
+    }
+  }
+};
+
+const removeSources = async () => {
+  for (const source of sources) {
+    try {
+      if (path.isAbsolute(source)) {
+        await fs.unlink(source);
+      } else {
+        await localDriver.delete(source);
+      }
+    } catch (error) {
+      console.warn(`Could not delete ${source}:`.yellow, error);
+    }
+  }
+};
+
+const run = async () => {
+  console.log(`Migrating files to ${target.name} storage${dryRun ? ' (dry run)' : ''}`.cyan.bold);
+  await connectDB();
+
+  await migrateDocuments();
+  await migrateTemplates();
+  await migrateSavedSignatures();
+
+  if (deleteSource && !dryRun) {
+    await removeSources();
+  }
+
+  const summary =
+    `Done: ${stats.moved} moved, ${stats.skipped} already in place, ${stats.missing} missing, ` +
+    `${stats.recordsUpdated} records updated`;
+  console.log(summary.green.bold);
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error('Storage migration failed:'.red.bold, error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+// server/scripts/setUserRole.ts
+// Grants or removes admin rights. Admins can upload and delete fonts for typed signatures.
+//
+//   npm run set-role -- <email> <user|admin>
+import 'colors';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+import connectDB from '../config/db';
+import User, { USER_ROLES, UserRole } from '../models/User';
+
+const [email, role] = process.argv.slice(2);
+
+const run = async () => {
+  if (!email || !USER_ROLES.includes(role as UserRole)) {
+    throw new Error(`Usage: npm run set-role -- <email> <${USER_ROLES.join('|')}>`);
+  }
+
+  await connectDB();
+  const user = await User.findOneAndUpdate({ email: email.toLowerCase() }, { role }, { new: true });
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+
+  console.log(`${user.email} is now ${user.role}`.green.bold);
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error('Could not set role:'.red.bold, error.message);
+  await mongoose.disconnect();
+  process.exit(1);
+});
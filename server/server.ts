@@ -3,6 +3,7 @@
 console.log('--- SERVER.TS FILE IS STARTING EXECUTION ---');
 
 import 'colors';
+import cookieParser from 'cookie-parser';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import express, { Request, Response } from 'express';
@@ -11,20 +12,58 @@ import connectDB from './config/db';
 
 // Import routes and middleware
 import { errorHandler, notFound } from './middleware/errorMiddleware';
+import adminRoutes from './routes/adminRoutes';
 import authRoutes from './routes/authRoutes';
 import documentRoutes from './routes/documentRoutes';
+import eventRoutes from './routes/eventRoutes';
+import fileRoutes from './routes/fileRoutes';
+import fontRoutes from './routes/fontRoutes';
+import guestRoutes from './routes/guestRoutes';
+import organizationRoutes from './routes/organizationRoutes';
+import savedSignatureRoutes from './routes/savedSignatureRoutes';
+import templateRoutes from './routes/templateRoutes';
+import verifyRoutes from './routes/verifyRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import { registerDeadlineJobs } from './utils/deadlines';
+import { startEventStream } from './utils/eventStream';
+import { startJobRunner } from './utils/jobs';
+import { registerStorageJobs } from './utils/orphanedFiles';
+import { getStorage } from './utils/storage';
+import { registerTrashJobs } from './utils/trash';
+import { startWebhooks } from './utils/webhooks';
 
 // Load environment variables from .env file (located at project root)
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
 const app = express();
 
+// Render (and most hosts) sit behind a proxy; trust it so req.ip is the client's address for the audit trail
+app.set('trust proxy', 1);
+
 // Connect to Database
 connectDB();
 
+// Set up file storage now, so a misconfigured driver (no S3 bucket, no key to sign local file URLs)
+// stops the server at startup rather than failing the first upload
+getStorage();
+
+// Subscribe to document events: webhooks (retried in the background) and the real-time stream
+startWebhooks();
+startEventStream();
+
+// Background jobs: signing reminders, expiry of overdue documents, auto-archiving, purging the
+// trash and checking storage for orphaned files
+registerDeadlineJobs();
+registerTrashJobs();
+registerStorageJobs();
+startJobRunner();
+
 // Middleware
-// IMPORTANT UPDATE: Increase the JSON body parsing limit to handle large Base64 image data
-app.use(express.json({ limit: '50mb' })); // Body parser for JSON requests (increased limit)
+// JSON bodies may carry one inline signature image as a data URL: up to 2MB (see
+// utils/signatureImages.ts), a third more once base64-encoded, plus the rest of the request.
+// Larger bodies are rejected with a 413; files go through the multipart upload routes.
+app.use(express.json({ limit: '5mb' }));
+app.use(cookieParser()); // Refresh tokens arrive in an HTTP-only cookie
 
 // Configure CORS to allow requests from your frontend
 // This MUST come before any of your route definitions
@@ -39,6 +78,16 @@ console.log(`--- CORS Middleware HAS BEEN APPLIED with origin: ${process.env.COR
 // Define API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/docs', documentRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/signatures', savedSignatureRoutes);
+app.use('/api/fonts', fontRoutes);
+app.use('/api/orgs', organizationRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/events', eventRoutes); // Real-time document events (Server-Sent Events)
+app.use('/api/guest', guestRoutes); // Public signing-link routes for external signers
+app.use('/api/verify', verifyRoutes); // Public tamper-evidence check
+app.use('/api/files', fileRoutes); // Public, signed download links
 
 // Basic route to check if API is running
 app.get('/', (req: Request, res: Response) => {
@@ -0,0 +1,65 @@
+// server/tests/helpers.ts
+// Shared pieces for the tests (run with `npm test`, on Node's built-in test runner). Tests don't
+// need MongoDB: model methods that would reach it are replaced with mock.method.
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export interface LocalServer {
+  url: string; // e.g. http://127.0.0.1:54321
+  requests: ReceivedRequest[];
+  close: () => Promise<void>;
+}
+
+// Start an HTTP server on a free loopback port that records every request and answers it with
+// respond (which may also never answer, to test timeouts)
+const startLocalServer = async (
+  respond: (request: ReceivedRequest, res: http.ServerResponse) => void
+): Promise<LocalServer> => {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const request = { method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks) };
+      requests.push(request);
+      respond(request, res);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+// Set environment variables for the rest of a test; returns a function that puts them back
+const setEnv = (values: Record<string, string | undefined>): (() => void) => {
+  const previous = Object.fromEntries(Object.keys(values).map((key) => [key, process.env[key]]));
+  const apply = (entries: Record<string, string | undefined>) =>
+    Object.entries(entries).forEach(([key, value]) => {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    });
+  apply(values);
+  return () => apply(previous);
+};
+
+export { setEnv, startLocalServer };
@@ -0,0 +1,256 @@
+// server/tests/pdfDigitalSignature.test.ts
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, test } from 'node:test';
+import crypto from 'crypto';
+import { Response } from 'express';
+import forge from 'node-forge';
+import { PDFDocument } from 'pdf-lib';
+import { SigningCredentials } from '../config/signing';
+import { digitallySignPdf } from '../utils/pdfDigitalSignature';
+import { LocalServer, ReceivedRequest, startLocalServer } from './helpers';
+
+const { asn1 } = forge;
+const TIMESTAMP_TOKEN_OID = '1.2.840.113549.1.9.16.2.14';
+
+// A self-signed certificate for the tests (forge keygen is slow; Node's isn't)
+const createCredentials = (): SigningCredentials => {
+  const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+  const key = forge.pki.privateKeyFromPem(pem) as forge.pki.rsa.PrivateKey;
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.setRsaPublicKey(key.n, key.e);
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date(Date.now() - 60 * 1000);
+  certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const name = [{ name: 'commonName', value: 'Test Signer' }];
+  certificate.setSubject(name);
+  certificate.setIssuer(name);
+  certificate.sign(key, forge.md.sha256.create());
+  return { certificate, chain: [], privateKey: key };
+};
+
+// Stands in for the Response a controller passes in, to read the status set on failure
+const fakeResponse = () => {
+  const res = {
+    statusCode: 200,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+  };
+  return res as typeof res & Response;
+};
+
+// The DER encoding of a TimeStampResp: a status and, when granted, a token signed by the stand-in
+// TSA whose content echoes the request's message imprint (a real TSTInfo holds a lot more)
+const timeStampResponse = (request: ReceivedRequest, credentials: SigningCredentials, status = 0): Buffer => {
+  const timeStampReq = asn1.fromDer(request.body.toString('binary'));
+  const messageImprint = (timeStampReq.value as forge.asn1.Asn1[])[1];
+
+  const token = forge.pkcs7.createSignedData();
+  token.content = forge.util.createBuffer(asn1.toDer(messageImprint).getBytes());
+  token.addCertificate(credentials.certificate);
+  token.addSigner({
+    key: credentials.privateKey as forge.pki.rsa.PrivateKey,
+    certificate: credentials.certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+  });
+  token.sign();
+
+  const statusInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(status).getBytes()),
+  ]);
+  const response = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    statusInfo,
+    ...(status === 0 ? [token.toAsn1()] : []),
+  ]);
+  return Buffer.from(asn1.toDer(response).getBytes(), 'binary');
+};
+
+const createPdf = async (): Promise<PDFDocument> => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([300, 400]).drawText('Signed in a test', { x: 50, y: 350, size: 12 });
+  return pdfDoc;
+};
+
+// The signed byte ranges of a signed PDF and its PKCS#7 SignedData's first SignerInfo
+const readSignature = (pdf: Buffer) => {
+  const text = pdf.toString('latin1');
+  const byteRange = /\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/.exec(text)!.slice(1).map(Number);
+  const signedBytes = Buffer.concat([
+    pdf.subarray(byteRange[0], byteRange[0] + byteRange[1]),
+    pdf.subarray(byteRange[2], byteRange[2] + byteRange[3]),
+  ]);
+  // /Contents is the hex string between the two ranges, zero-padded after the DER blob: keep the
+  // blob, whose length follows from its header
+  const contents = Buffer.from(text.slice(byteRange[1] + 1, byteRange[2] - 1), 'hex');
+  const lengthBytes = contents[1] & 0x80 ? contents[1] & 0x7f : 0;
+  const length = lengthBytes ? contents.readUIntBE(2, lengthBytes) : contents[1];
+  const contentInfo = asn1.fromDer(contents.subarray(0, 2 + lengthBytes + length).toString('binary'));
+
+  const signedData = (contentInfo.value as forge.asn1.Asn1[])[1].value[0] as forge.asn1.Asn1;
+  const signerInfos = (signedData.value as forge.asn1.Asn1[]).slice(-1)[0];
+  const signerInfo = (signerInfos.value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+  const contextNode = (tag: number) =>
+    signerInfo.find((node) => node.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === tag);
+  const encryptedDigest = signerInfo
+    .filter((node) => node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.OCTETSTRING)
+    .slice(-1)[0].value as string;
+
+  return {
+    byteRange,
+    signedBytes,
+    authenticatedAttributes: contextNode(0)!,
+    unsignedAttributes: contextNode(1),
+    encryptedDigest,
+  };
+};
+
+describe('digital PDF signatures', () => {
+  let credentials: SigningCredentials;
+
+  before(() => {
+    credentials = createCredentials();
+  });
+
+  test('embeds a detached PKCS#7 signature covering every byte but its own', async () => {
+    const pdf = await digitallySignPdf(await createPdf(), credentials, { reason: 'Test' }, fakeResponse());
+    const { byteRange, signedBytes, authenticatedAttributes, unsignedAttributes, encryptedDigest } = readSignature(pdf);
+
+    assert.equal(byteRange[0], 0);
+    assert.equal(byteRange[2] + byteRange[3], pdf.length);
+    assert.equal(unsignedAttributes, undefined);
+
+    // The messageDigest attribute holds the hash of the signed ranges...
+    const messageDigest = (authenticatedAttributes.value as forge.asn1.Asn1[])
+      .map((attribute) => attribute.value as forge.asn1.Asn1[])
+      .find(([oid]) => asn1.derToOid(oid.value as string) === forge.pki.oids.messageDigest)!;
+    const digest = (messageDigest[1].value as forge.asn1.Asn1[])[0].value as string;
+    assert.equal(
+      Buffer.from(digest, 'binary').toString('hex'),
+      crypto.createHash('sha256').update(signedBytes).digest('hex')
+    );
+
+    // ...and the signature covers the attributes, DER-encoded as a SET
+    const signedAttributes = asn1.create(
+      asn1.Class.UNIVERSAL,
+      asn1.Type.SET,
+      true,
+      authenticatedAttributes.value as forge.asn1.Asn1[]
+    );
+    const verified = crypto.verify(
+      'sha256',
+      Buffer.from(asn1.toDer(signedAttributes).getBytes(), 'binary'),
+      forge.pki.certificateToPem(credentials.certificate),
+      Buffer.from(encryptedDigest, 'binary')
+    );
+    assert.ok(verified);
+
+    // The signed file still opens
+    const reloaded = await PDFDocument.load(pdf);
+    assert.equal(reloaded.getPageCount(), 1);
+  });
+
+  describe('with a timestamp authority', () => {
+    let tsa: LocalServer;
+    let respond: (request: ReceivedRequest, res: import('http').ServerResponse) => void;
+
+    before(async () => {
+      tsa = await startLocalServer((request, res) => respond(request, res));
+    });
+
+    after(async () => {
+      await tsa.close();
+    });
+
+    afterEach(() => {
+      tsa.requests.length = 0;
+    });
+
+    test('embeds the token it returns over the signature value', async () => {
+      respond = (request, res) =>
+        res
+          .writeHead(200, { 'Content-Type': 'application/timestamp-reply' })
+          .end(timeStampResponse(request, credentials));
+
+      const pdf = await digitallySignPdf(
+        await createPdf(),
+        { ...credentials, tsaUrl: `${tsa.url}/tsa` },
+        { reason: 'Test' },
+        fakeResponse()
+      );
+      const { unsignedAttributes, encryptedDigest } = readSignature(pdf);
+
+      assert.equal(tsa.requests.length, 1);
+      assert.equal(tsa.requests[0].headers['content-type'], 'application/timestamp-query');
+
+      const [attribute] = unsignedAttributes!.value as forge.asn1.Asn1[];
+      const [oid, values] = attribute.value as forge.asn1.Asn1[];
+      assert.equal(asn1.derToOid(oid.value as string), TIMESTAMP_TOKEN_OID);
+
+      // The stand-in token's content is the message imprint it was asked to timestamp
+      const token = forge.pkcs7.messageFromAsn1((values.value as forge.asn1.Asn1[])[0]) as unknown as {
+        rawCapture: { content: { value: forge.asn1.Asn1[] } };
+      };
+      const imprint = asn1.fromDer(token.rawCapture.content.value[0].value as string);
+      const hashed = (imprint.value as forge.asn1.Asn1[])[1].value as string;
+      assert.equal(
+        Buffer.from(hashed, 'binary').toString('hex'),
+        crypto.createHash('sha256').update(Buffer.from(encryptedDigest, 'binary')).digest('hex')
+      );
+    });
+
+    test('fails with a 504 when the authority does not answer in time', async () => {
+      respond = () => undefined; // Never answers
+      const res = fakeResponse();
+
+      await assert.rejects(
+        digitallySignPdf(
+          await createPdf(),
+          { ...credentials, tsaUrl: tsa.url, tsaTimeoutSeconds: 0.5 },
+          { reason: 'Test' },
+          res
+        ),
+        /did not respond within 0.5s/
+      );
+      assert.equal(res.statusCode, 504);
+    });
+
+    test('fails with a 502 when the authority returns an error', async () => {
+      respond = (_request, res) => res.writeHead(500).end();
+      const res = fakeResponse();
+
+      await assert.rejects(
+        digitallySignPdf(await createPdf(), { ...credentials, tsaUrl: tsa.url }, { reason: 'Test' }, res),
+        /responded with HTTP 500/
+      );
+      assert.equal(res.statusCode, 502);
+    });
+
+    test('fails with a 502 when the authority rejects the request', async () => {
+      respond = (request, res) => res.writeHead(200).end(timeStampResponse(request, credentials, 2));
+      const res = fakeResponse();
+
+      await assert.rejects(
+        digitallySignPdf(await createPdf(), { ...credentials, tsaUrl: tsa.url }, { reason: 'Test' }, res),
+        /rejected the request \(status 2\)/
+      );
+      assert.equal(res.statusCode, 502);
+    });
+
+    test('fails with a 502 when the authority cannot be reached', async () => {
+      const res = fakeResponse();
+
+      await assert.rejects(
+        digitallySignPdf(
+          await createPdf(),
+          { ...credentials, tsaUrl: 'http://127.0.0.1:1/tsa' },
+          { reason: 'Test' },
+          res
+        ),
+        /could not be reached/
+      );
+      assert.equal(res.statusCode, 502);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// server/tests/webhooks.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import Webhook, { IWebhook } from '../models/Webhook';
+import WebhookDelivery, { IWebhookDelivery } from '../models/WebhookDelivery';
+import { attemptDelivery, signWebhookPayload, webhookUrlError } from '../utils/webhooks';
+import { LocalServer, setEnv, startLocalServer } from './helpers';
+
+const SECRET = 'whsec_test';
+
+// A webhook as Webhook.findById(...).select('+secret') would load it
+const stubWebhook = (url: string, active = true): IWebhook => {
+  const webhook = new Webhook({ user: new Types.ObjectId(), url, events: ['document.signed'], secret: SECRET, active });
+  mock.method(Webhook, 'findById', () => ({ select: async () => webhook }));
+  return webhook;
+};
+
+// A pending delivery whose save() doesn't need a database
+const newDelivery = (webhook: IWebhook): IWebhookDelivery => {
+  const delivery = new WebhookDelivery({
+    webhook: webhook._id,
+    user: webhook.user,
+    event: 'document.signed',
+    status: 'pending',
+  });
+  delivery.payload = {
+    id: delivery._id,
+    event: 'document.signed',
+    createdAt: new Date(0),
+    data: { documentId: 'abc' },
+  };
+  mock.method(delivery, 'save', async () => delivery);
+  return delivery;
+};
+
+describe('webhook deliveries to a local receiver', () => {
+  let receiver: LocalServer;
+  let status = 200;
+  let restoreEnv: () => void;
+
+  beforeEach(async () => {
+    restoreEnv = setEnv({ WEBHOOK_ALLOW_PRIVATE_URLS: 'true', WEBHOOK_RETRY_BASE_SECONDS: '30' });
+    status = 200;
+    receiver = await startLocalServer((_request, res) => {
+      res.writeHead(status).end('received');
+    });
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+    restoreEnv();
+    mock.restoreAll();
+  });
+
+  test('signs the exact body it sends', async () => {
+    const webhook = stubWebhook(`${receiver.url}/hook`);
+    const delivery = await attemptDelivery(newDelivery(webhook));
+
+    assert.equal(receiver.requests.length, 1);
+    const [request] = receiver.requests;
+    const timestamp = request.headers['x-webhook-timestamp'] as string;
+    const expected = crypto
+      .createHmac('sha256', SECRET)
+      .update(`${timestamp}.${request.body.toString()}`)
+      .digest('hex');
+
+    assert.equal(request.headers['x-webhook-signature'], `sha256=${expected}`);
+    assert.equal(
+      request.headers['x-webhook-signature'],
+      signWebhookPayload(SECRET, Number(timestamp), request.body.toString())
+    );
+    assert.equal(request.headers['x-webhook-id'], String(delivery._id));
+    assert.equal(request.headers['x-webhook-event'], 'document.signed');
+    assert.deepEqual(JSON.parse(request.body.toString()).data, { documentId: 'abc' });
+
+    assert.equal(delivery.status, 'succeeded');
+    assert.ok(delivery.deliveredAt);
+    assert.equal(delivery.attempts[0].statusCode, 200);
+    assert.equal(delivery.attempts[0].responseBody, 'received');
+  });
+
+  test('schedules a retry with exponential backoff after a failed attempt', async () => {
+    status = 500;
+    const webhook = stubWebhook(receiver.url);
+    const delivery = newDelivery(webhook);
+
+    const before = Date.now();
+    await attemptDelivery(delivery);
+    assert.equal(delivery.status, 'pending');
+    assert.ok(delivery.nextAttemptAt!.getTime() >= before + 30 * 1000);
+    assert.ok(delivery.nextAttemptAt!.getTime() <= Date.now() + 30 * 1000);
+
+    await attemptDelivery(delivery);
+    assert.ok(delivery.nextAttemptAt!.getTime() >= before + 60 * 1000);
+    assert.equal(delivery.attempts.length, 2);
+    assert.equal(receiver.requests.length, 2);
+  });
+
+  test('gives up after the last automatic attempt', async () => {
+    status = 503;
+    const delivery = newDelivery(stubWebhook(receiver.url));
+
+    for (let attempt = 0; attempt < 8; attempt++) {
+      await attemptDelivery(delivery);
+    }
+
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.nextAttemptAt, undefined);
+    assert.equal(receiver.requests.length, 8);
+  });
+
+  test('leaves the retry schedule alone when a manual redelivery fails', async () => {
+    status = 500;
+    const delivery = newDelivery(stubWebhook(receiver.url));
+    const nextAttemptAt = new Date(Date.now() + 5 * 60 * 1000);
+    delivery.nextAttemptAt = nextAttemptAt;
+
+    await attemptDelivery(delivery, true);
+
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.nextAttemptAt.getTime(), nextAttemptAt.getTime());
+    assert.equal(delivery.attempts[0].manual, true);
+  });
+
+  test('does not call a disabled webhook', async () => {
+    const delivery = await attemptDelivery(newDelivery(stubWebhook(receiver.url, false)));
+
+    assert.equal(receiver.requests.length, 0);
+    assert.equal(delivery.attempts[0].error, 'Webhook is disabled or was deleted');
+  });
+});
+
+describe('webhook URL guard', () => {
+  let restoreEnv: () => void;
+
+  beforeEach(() => {
+    restoreEnv = setEnv({ WEBHOOK_ALLOW_PRIVATE_URLS: undefined });
+  });
+
+  afterEach(() => {
+    restoreEnv();
+    mock.restoreAll();
+  });
+
+  for (const url of [
+    'http://127.0.0.1:8080/hook',
+    'http://10.1.2.3/hook',
+    'http://192.168.0.10/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://[fd00::1]/hook',
+    'http://localhost/hook',
+  ]) {
+    test(`refuses ${url}`, async () => {
+      assert.match((await webhookUrlError(url)) ?? '', /not a public address/);
+    });
+  }
+
+  test('allows public addresses', async () => {
+    assert.equal(await webhookUrlError('https://93.184.216.34/hook'), null);
+    assert.equal(await webhookUrlError('https://[2606:2800:220:1::1]/hook'), null);
+  });
+
+  test('allows private addresses with WEBHOOK_ALLOW_PRIVATE_URLS=true', async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    assert.equal(await webhookUrlError('http://127.0.0.1:8080/hook'), null);
+  });
+
+  test('checks the address again before sending', async () => {
+    const receiver = await startLocalServer((_request, res) => res.writeHead(200).end());
+    try {
+      const delivery = await attemptDelivery(newDelivery(stubWebhook(receiver.url)));
+
+      assert.equal(receiver.requests.length, 0);
+      assert.match(delivery.attempts[0].error ?? '', /not a public address/);
+      assert.equal(delivery.status, 'pending');
+    } finally {
+      await receiver.close();
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import AuditEvent, { AuditAction, IAuditActor, IAuditEvent } from '../models/AuditEvent';
+import { IDocument, ISigner } from '../models/Document';
+import { sha256File } from './fileHash';
+
+// Work out who is behind a request: the logged-in user, or the guest a signing link was issued to
+const actorFromRequest = (req: Request): IAuditActor => {
+  if (req.user) {
+    return {
+      type: 'user',
+      user: req.user._id as Types.ObjectId,
+      email: req.user.email,
+      name: req.user.name,
+    };
+  }
+  return { type: 'guest', email: req.signingLink?.email };
+};
+
+// Record an audit event for a document, capturing the request's actor, IP,
+// user agent and the hash of the document's current file
+const recordAuditEvent = async (
+  req: Request,
+  document: IDocument,
+  action: AuditAction,
+  details?: Record<string, unknown>
+): Promise<IAuditEvent> => {
+  return AuditEvent.create({
+    document: document._id,
+    action,
+    actor: actorFromRequest(req),
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+    documentHash: await sha256File(document.filePath),
+    details,
+  });
+};
+
+// Record an audit event for something the server did on its own, e.g. a background job
+const recordSystemAuditEvent = async (
+  document: IDocument,
+  action: AuditAction,
+  details?: Record<string, unknown>
+): Promise<IAuditEvent> => {
+  return AuditEvent.create({
+    document: document._id,
+    action,
+    actor: { type: 'system' },
+    documentHash: await sha256File(document.filePath),
+    details,
+  });
+};
+
+// Record a signer declining, plus the status change if it stopped the workflow
+const recordDecline = async (req: Request, document: IDocument, signer: ISigner): Promise<void> => {
+  await recordAuditEvent(req, document, 'decline', { signerId: signer._id, reason: signer.declineReason });
+  if (document.status === 'declined') {
+    await recordAuditEvent(req, document, 'status_change', { from: 'pending', to: 'declined' });
+  }
+};
+
+// All audit events of a document in chronological order
+const getAuditTrail = (documentId: Types.ObjectId | string) =>
+  AuditEvent.find({ document: documentId }).sort({ createdAt: 1 });
+
+export { actorFromRequest, getAuditTrail, recordAuditEvent, recordDecline, recordSystemAuditEvent };
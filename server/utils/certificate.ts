@@ -0,0 +1,100 @@
+// server/utils/certificate.ts
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { IAuditActor } from '../models/AuditEvent';
+import { IDocument } from '../models/Document';
+
+// A single line of the event log printed on the certificate
+export interface CertificateEvent {
+  action: string;
+  actor: IAuditActor;
+  ip?: string;
+  userAgent?: string;
+  documentHash?: string;
+  createdAt: Date;
+}
+
+const PAGE_WIDTH = 612; // US Letter, in PDF points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+
+// The standard Helvetica font only covers WinAnsi, so anything outside Latin-1 is replaced
+const toWinAnsi = (text: string): string => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+// Shorten text so it fits in maxWidth at the given size
+const fitText = (text: string, font: PDFFont, size: number, maxWidth: number): string => {
+  let fitted = toWinAnsi(text);
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) {
+    return fitted;
+  }
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+const describeActor = (actor: IAuditActor): string => {
+  if (actor.type === 'system') {
+    return 'System (automatic)';
+  }
+  const who = actor.name ? `${actor.name} <${actor.email}>` : actor.email || 'unknown';
+  return actor.type === 'guest' ? `${who} (guest link)` : who;
+};
+
+// Append one or more "Certificate of Completion" pages to a PDF, listing the
+// document's signers and its full audit trail.
+const appendCertificatePage = async (
+  pdfDoc: PDFDocument,
+  document: IDocument,
+  events: CertificateEvent[]
+): Promise<void> => {
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const textWidth = PAGE_WIDTH - MARGIN * 2;
+
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Write a line, starting a new page when the current one is full
+  const writeLine = (text: string, options: { size?: number; bold?: boolean; gap?: number } = {}) => {
+    const size = options.size ?? 9;
+    const lineFont = options.bold ? boldFont : font;
+    if (y - size < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= size;
+    page.drawText(fitText(text, lineFont, size, textWidth), {
+      x: MARGIN,
+      y,
+      size,
+      font: lineFont,
+      color: rgb(0, 0, 0),
+    });
+    y -= options.gap ?? 4;
+  };
+
+  writeLine('Certificate of Completion', { size: 20, bold: true, gap: 16 });
+  writeLine(`Document: ${document.originalName}`, { size: 11 });
+  writeLine(`Document ID: ${document._id}`, { size: 11 });
+  writeLine(`Completed: ${new Date().toISOString()}`, { size: 11, gap: 16 });
+
+  if (document.signers.length > 0) {
+    writeLine('Signers', { size: 13, bold: true, gap: 8 });
+    [...document.signers]
+      .sort((a, b) => a.order - b.order)
+      .forEach((signer) => {
+        const signedAt = signer.signedAt ? signer.signedAt.toISOString() : '-';
+        writeLine(`${signer.order}. ${signer.name || signer.email} <${signer.email}> - ${signer.status} ${signedAt}`, { size: 10 });
+      });
+    y -= 12;
+  }
+
+  writeLine('Audit Trail', { size: 13, bold: true, gap: 8 });
+  events.forEach((event) => {
+    writeLine(`${event.createdAt.toISOString()}  ${event.action.toUpperCase()}  ${describeActor(event.actor)}`, { bold: true });
+    writeLine(`IP: ${event.ip || '-'}   User agent: ${event.userAgent || '-'}`);
+    writeLine(`SHA-256: ${event.documentHash || '-'}`, { gap: 10 });
+  });
+};
+
+export { appendCertificatePage };
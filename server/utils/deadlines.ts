@@ -0,0 +1,318 @@
+// server/utils/deadlines.ts
+// Due dates of documents: reminders before and after the due date, expiry once it (plus the
+// document's grace period) has passed, and auto-archiving of completed documents for users who
+// asked for it. All of it runs as background jobs (utils/jobs.ts). Reminder and expiry jobs carry
+// the due date they were scheduled for and do nothing once the document's due date has changed or
+// it is no longer pending, so rescheduling only has to cancel what is still queued.
+import 'colors';
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import Document, { IDocument, IReminderSchedule } from '../models/Document';
+import User from '../models/User';
+import { recordSystemAuditEvent } from './auditLog';
+import { publishDocumentEvent } from './eventBus';
+import { cancelJobs, defineJob, scheduleJob, scheduleRecurringJob } from './jobs';
+import { getNotifier } from './notifier';
+import { issueSigningLink, IssuedSigningLink, revokeSigningLinks } from './signingLinks';
+import { isSignersTurn } from './signingWorkflow';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REMINDERS_BEFORE = 10;
+const MAX_DAYS_BEFORE = 365;
+const MAX_OVERDUE_EVERY_DAYS = 30;
+const MAX_GRACE_PERIOD_DAYS = 90;
+const MAX_AUTO_ARCHIVE_DAYS = 3650;
+const AUTO_ARCHIVE_INTERVAL_SECONDS = 60 * 60;
+const AUTO_ARCHIVE_BATCH_SIZE = 500; // Per user and run; the rest waits for the next run
+
+const REMINDER_JOB = 'document.reminder';
+const EXPIRE_JOB = 'document.expire';
+const AUTO_ARCHIVE_JOB = 'documents.auto_archive';
+
+interface DeadlineJobPayload {
+  documentId: string;
+  dueDate: string; // ISO; the due date the job was scheduled for
+  overdue?: boolean;
+}
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+// When a pending document with a due date expires
+const expiryDate = (document: IDocument): Date =>
+  new Date(document.dueDate!.getTime() + (document.gracePeriodDays || 0) * DAY_MS);
+
+const validateReminderSchedule = (value: unknown, res: Response): IReminderSchedule => {
+  if (!value || typeof value !== 'object') {
+    res.status(400);
+    throw new Error('reminderSchedule must be an object, or null to remove it.');
+  }
+  const schedule = value as { daysBefore?: unknown; overdueEveryDays?: unknown };
+  const daysBefore = schedule.daysBefore ?? [];
+  const { overdueEveryDays } = schedule;
+  if (
+    !Array.isArray(daysBefore) ||
+    daysBefore.length > MAX_REMINDERS_BEFORE ||
+    daysBefore.some((days) => !isWholeNumber(days, 0, MAX_DAYS_BEFORE))
+  ) {
+    res.status(400);
+    throw new Error(
+      `reminderSchedule.daysBefore must list at most ${MAX_REMINDERS_BEFORE} whole numbers of days between 0 and ${MAX_DAYS_BEFORE}.`
+    );
+  }
+
+  if (overdueEveryDays !== undefined && overdueEveryDays !== null && !isWholeNumber(overdueEveryDays, 1, MAX_OVERDUE_EVERY_DAYS)) {
+    res.status(400);
+    throw new Error(`reminderSchedule.overdueEveryDays must be a whole number of days between 1 and ${MAX_OVERDUE_EVERY_DAYS}.`);
+  }
+
+  return {
+    daysBefore: [...new Set<number>(daysBefore)].sort((a, b) => b - a),
+    overdueEveryDays: isWholeNumber(overdueEveryDays, 1, MAX_OVERDUE_EVERY_DAYS) ? overdueEveryDays : undefined,
+  };
+};
+
+// Apply dueDate (ISO date or null), reminderSchedule ({ daysBefore, overdueEveryDays } or null)
+// and gracePeriodDays from a request body. Moving the deadline of an expired document into the
+// future reopens it. Returns whether anything changed; sets a 400 status and throws on invalid input.
+const applyDeadlineChanges = (
+  document: IDocument,
+  body: { dueDate?: unknown; reminderSchedule?: unknown; gracePeriodDays?: unknown },
+  res: Response
+): boolean => {
+  const { dueDate, reminderSchedule, gracePeriodDays } = body;
+  if (dueDate === undefined && reminderSchedule === undefined && gracePeriodDays === undefined) {
+    return false;
+  }
+
+  if (dueDate === null) {
+    document.dueDate = undefined;
+  } else if (dueDate !== undefined) {
+    const date = typeof dueDate === 'string' ? new Date(dueDate) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      res.status(400);
+      throw new Error('dueDate must be an ISO 8601 date, or null to remove it.');
+    }
+    if (date.getTime() <= Date.now()) {
+      res.status(400);
+      throw new Error('dueDate must be in the future.');
+    }
+    document.dueDate = date;
+  }
+
+  if (reminderSchedule !== undefined) {
+    document.reminderSchedule = reminderSchedule === null ? undefined : validateReminderSchedule(reminderSchedule, res);
+  }
+
+  if (gracePeriodDays !== undefined) {
+    if (!isWholeNumber(gracePeriodDays, 0, MAX_GRACE_PERIOD_DAYS)) {
+      res.status(400);
+      throw new Error(`gracePeriodDays must be a whole number of days between 0 and ${MAX_GRACE_PERIOD_DAYS}.`);
+    }
+    document.gracePeriodDays = gracePeriodDays;
+  }
+
+  if (document.status === 'expired' && (!document.dueDate || expiryDate(document).getTime() > Date.now())) {
+    document.status = 'pending';
+    document.expiredAt = undefined;
+  }
+
+  return true;
+};
+
+// Queue the next overdue reminder, if the schedule has them and it falls before the document expires
+const scheduleOverdueReminder = async (document: IDocument, after: Date): Promise<void> => {
+  const everyDays = document.reminderSchedule?.overdueEveryDays;
+  if (!everyDays) {
+    return;
+  }
+
+  const runAt = new Date(after.getTime() + everyDays * DAY_MS);
+  if (runAt < expiryDate(document)) {
+    const payload: DeadlineJobPayload = {
+      documentId: (document._id as Types.ObjectId).toString(),
+      dueDate: document.dueDate!.toISOString(),
+      overdue: true,
+    };
+    await scheduleJob(REMINDER_JOB, runAt, { ...payload });
+  }
+};
+
+// Remove the queued reminder and expiry jobs of a document
+const cancelDeadlineJobs = async (document: IDocument): Promise<void> => {
+  const documentId = (document._id as Types.ObjectId).toString();
+  await cancelJobs({ name: { $in: [REMINDER_JOB, EXPIRE_JOB] }, 'payload.documentId': documentId });
+};
+
+// Replace the queued reminder and expiry jobs of a document with ones for its current due date.
+// Call after saving a change to the due date, reminder schedule or grace period.
+const scheduleDeadlineJobs = async (document: IDocument): Promise<void> => {
+  const documentId = (document._id as Types.ObjectId).toString();
+  await cancelDeadlineJobs(document);
+
+  if (!document.dueDate || document.status !== 'pending') {
+    return;
+  }
+
+  const payload: DeadlineJobPayload = { documentId, dueDate: document.dueDate.toISOString() };
+  for (const days of document.reminderSchedule?.daysBefore ?? []) {
+    const runAt = new Date(document.dueDate.getTime() - days * DAY_MS);
+    if (runAt.getTime() > Date.now()) {
+      await scheduleJob(REMINDER_JOB, runAt, { ...payload, overdue: false });
+    }
+  }
+  await scheduleOverdueReminder(document, document.dueDate);
+  await scheduleJob(EXPIRE_JOB, expiryDate(document), { ...payload });
+};
+
+// The document a deadline job was scheduled for, or null if the job no longer applies
+const findDeadlineDocument = async ({ documentId, dueDate }: DeadlineJobPayload): Promise<IDocument | null> => {
+  const document = await Document.findById(documentId);
+  if (!document || document.status !== 'pending' || document.dueDate?.toISOString() !== dueDate) {
+    return null;
+  }
+  return document;
+};
+
+// Remind whoever the document is waiting on: the signers whose turn it is, or its owner if it has no signers
+const sendReminders = async (payload: DeadlineJobPayload, scheduledFor: Date): Promise<void> => {
+  const document = await findDeadlineDocument(payload);
+  if (!document) {
+    return;
+  }
+
+  const owner = await User.findById(document.user).select('name email');
+  const recipients =
+    document.signers.length > 0
+      ? document.signers
+          .filter((signer) => isSignersTurn(document, signer))
+          .map((signer) => ({ email: signer.email, name: signer.name, guest: !signer.user }))
+      : owner
+        ? [{ email: owner.email, name: owner.name, guest: false }]
+        : [];
+
+  const notifier = getNotifier();
+  const sentTo: string[] = [];
+  const failedFor: string[] = [];
+  for (const { guest, ...recipient } of recipients) {
+    // Guests can't open the document in the app, so they get a new signing link; the one they
+    // were sent is only stored hashed. It replaces their earlier links once the reminder is out.
+    let issued: IssuedSigningLink | undefined;
+    try {
+      if (guest) {
+        issued = await issueSigningLink(document, recipient.email, document.user);
+      }
+      await notifier.sendSigningReminder({
+        document,
+        recipient,
+        signingLink: issued && { url: issued.url, expiresAt: issued.link.expiresAt },
+        senderName: owner?.name || 'The sender',
+        dueDate: document.dueDate!,
+        overdue: !!payload.overdue,
+      });
+      sentTo.push(recipient.email);
+      if (issued) {
+        await revokeSigningLinks(document, recipient.email, issued.link._id as Types.ObjectId).catch((error) =>
+          console.error(`Failed to revoke the earlier signing links of ${recipient.email}:`.red, error)
+        );
+      }
+    } catch (error) {
+      // The guest keeps the link they have
+      await issued?.link.deleteOne().catch(() => undefined);
+      // Not retried, so the recipients it worked for don't get it twice
+      console.error(`Failed to send a signing reminder to ${recipient.email}:`.red, error);
+      failedFor.push(recipient.email);
+    }
+  }
+
+  await recordSystemAuditEvent(document, 'reminder', {
+    dueDate: document.dueDate,
+    overdue: !!payload.overdue,
+    notifier: notifier.name,
+    sentTo,
+    ...(failedFor.length > 0 ? { failedFor } : {}),
+  });
+
+  if (payload.overdue) {
+    await scheduleOverdueReminder(document, scheduledFor);
+  }
+};
+
+const expireDocument = async (payload: DeadlineJobPayload): Promise<void> => {
+  const document = await findDeadlineDocument(payload);
+  if (!document) {
+    return;
+  }
+
+  document.status = 'expired';
+  document.expiredAt = new Date();
+  await document.save();
+
+  await recordSystemAuditEvent(document, 'status_change', {
+    from: 'pending',
+    to: 'expired',
+    reason: 'due_date_passed',
+    dueDate: document.dueDate,
+  });
+  publishDocumentEvent('document.status_changed', document, { from: 'pending', to: 'expired' });
+};
+
+// Archive the signed documents of every user with autoArchiveAfterDays, once that many days have
+// passed since they were last signed
+const autoArchiveDocuments = async (): Promise<void> => {
+  const users = await User.find({ autoArchiveAfterDays: { $gt: 0 } }).select('autoArchiveAfterDays');
+
+  for (const user of users) {
+    const cutoff = new Date(Date.now() - user.autoArchiveAfterDays! * DAY_MS);
+    const documents = await Document.find({
+      user: user._id,
+      status: 'signed',
+      $or: [{ lastSignedAt: { $lte: cutoff } }, { lastSignedAt: { $exists: false }, updatedAt: { $lte: cutoff } }],
+    }).limit(AUTO_ARCHIVE_BATCH_SIZE);
+
+    for (const document of documents) {
+      document.status = 'archived';
+      await document.save();
+
+      await recordSystemAuditEvent(document, 'status_change', {
+        from: 'signed',
+        to: 'archived',
+        reason: 'auto_archive',
+        afterDays: user.autoArchiveAfterDays,
+      });
+      publishDocumentEvent('document.status_changed', document, { from: 'signed', to: 'archived' });
+    }
+  }
+};
+
+// Check a user's autoArchiveAfterDays setting: whole days, or null to turn auto-archiving off.
+// Sets a 400 status and throws if it is invalid.
+const validateAutoArchiveDays = (value: unknown, res: Response): number | undefined => {
+  if (value === null) {
+    return undefined;
+  }
+  if (!isWholeNumber(value, 1, MAX_AUTO_ARCHIVE_DAYS)) {
+    res.status(400);
+    throw new Error(`autoArchiveAfterDays must be a whole number of days between 1 and ${MAX_AUTO_ARCHIVE_DAYS}, or null.`);
+  }
+  return value;
+};
+
+// Register the deadline job handlers and queue the recurring auto-archive job
+const registerDeadlineJobs = (): void => {
+  defineJob<DeadlineJobPayload>(REMINDER_JOB, (payload, job) => sendReminders(payload, job.runAt));
+  defineJob<DeadlineJobPayload>(EXPIRE_JOB, expireDocument);
+  defineJob(AUTO_ARCHIVE_JOB, autoArchiveDocuments);
+
+  scheduleRecurringJob(AUTO_ARCHIVE_JOB, AUTO_ARCHIVE_INTERVAL_SECONDS).catch((error) =>
+    console.error('Failed to schedule auto-archiving:'.red, error)
+  );
+};
+
+export {
+  applyDeadlineChanges,
+  cancelDeadlineJobs,
+  registerDeadlineJobs,
+  scheduleDeadlineJobs,
+  validateAutoArchiveDays,
+};
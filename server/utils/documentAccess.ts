@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import Document, { IDocument } from '../models/Document';
+import { canOnDocument, DOCUMENT_ACTION_PHRASES, DocumentAction, DocumentPermissions, documentPermissions } from './policy';
+
+// Make sure the authenticated user may perform `action` on a loaded document (see utils/policy.ts).
+// Sets the matching status (401/403) and throws otherwise; returns the user's permissions.
+const authorizeDocument = async (
+  req: Request,
+  res: Response,
+  document: IDocument,
+  action: DocumentAction
+): Promise<DocumentPermissions> => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const permissions = await documentPermissions(req.user, document);
+
+  if (!canOnDocument(permissions, action)) {
+    res.status(403); // Forbidden
+    throw new Error(`Not authorized to ${DOCUMENT_ACTION_PHRASES[action]} this document`);
+  }
+
+  return permissions;
+};
+
+// Load the document in req.params.id and make sure the authenticated user may perform `action` on it.
+// Sets the matching status (401/404/403) and throws otherwise.
+const findAuthorizedDocument = async (req: Request, res: Response, action: DocumentAction): Promise<IDocument> => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const document = await Document.findById(req.params.id);
+
+  if (!document) {
+    res.status(404);
+    throw new Error('Document not found');
+  }
+
+  await authorizeDocument(req, res, document, action);
+
+  return document;
+};
+
+export { authorizeDocument, findAuthorizedDocument };
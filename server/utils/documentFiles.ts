@@ -0,0 +1,113 @@
+// server/utils/documentFiles.ts
+import 'colors';
+import { Response } from 'express';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { pipeline } from 'stream';
+import { IDocument } from '../models/Document';
+import { getStorage, readStoredFile } from './storage';
+
+// Store an uploaded file under uploads/, named like '<field>-<timestamp>-<random><ext>'.
+// Returns the file name and the storage key (kept in the records' filePath).
+const saveUploadedFile = async (
+  fieldName: string,
+  originalName: string,
+  bytes: Uint8Array,
+  contentType: string = 'application/pdf'
+): Promise<{ fileName: string; filePath: string }> => {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const fileName = `${fieldName}-${uniqueSuffix}${path.extname(originalName)}`;
+  const filePath = `uploads/${fileName}`;
+
+  await getStorage().put(filePath, bytes, contentType);
+
+  return { fileName, filePath };
+};
+
+// Store a signed revision of a document under signed_documents/,
+// with a new unique filename derived from the original upload name
+const saveSignedFile = async (
+  originalName: string,
+  bytes: Uint8Array
+): Promise<{ fileName: string; filePath: string }> => {
+  const originalExt = path.extname(originalName);
+  const baseName = path.basename(originalName, originalExt);
+  const fileName = `${baseName}_signed_${Date.now()}.pdf`;
+  const filePath = `signed_documents/${fileName}`;
+
+  await getStorage().put(filePath, bytes, 'application/pdf');
+
+  return { fileName, filePath };
+};
+
+// Stream a stored file to the client. Sets a 404 status and throws if it is missing.
+const sendStoredFile = async (
+  res: Response,
+  filePath: string,
+  contentType: string,
+  fileName?: string,
+  disposition: 'inline' | 'attachment' = 'inline'
+): Promise<void> => {
+  const storage = getStorage();
+
+  let stream;
+  try {
+    stream = await storage.getStream(filePath);
+  } catch (fileError) {
+    console.error(`File not found in ${storage.name} storage at ${filePath}:`, fileError);
+    res.status(404);
+    throw new Error('File not found on server.');
+  }
+
+  res.setHeader('Content-Type', contentType);
+  if (fileName) {
+    res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+  }
+  pipeline(stream, res, (error) => {
+    if (error) {
+      console.error(`Error streaming ${filePath}:`, error);
+    }
+  });
+};
+
+// Stream a stored PDF to the client under the given name, inline by default.
+// Sets a 404 status and throws if the file is missing.
+const sendPdfFile = (
+  res: Response,
+  filePath: string,
+  originalName: string,
+  disposition: 'inline' | 'attachment' = 'inline'
+): Promise<void> => sendStoredFile(res, filePath, 'application/pdf', originalName, disposition);
+
+// Load the current revision of a document's PDF. Sets a 404 status and throws if the file
+// is missing, or a 400 if pdf-lib can't open it (e.g. an encrypted upload).
+const loadDocumentPdf = async (document: IDocument, res: Response): Promise<PDFDocument> => {
+  let bytes: Buffer;
+  try {
+    bytes = await readStoredFile(document.filePath);
+  } catch (error) {
+    console.error(`File not found at ${document.filePath}:`, error);
+    res.status(404);
+    throw new Error('File not found on server.');
+  }
+
+  try {
+    return await PDFDocument.load(bytes);
+  } catch (error) {
+    res.status(400);
+    throw new Error(`This document's PDF can't be edited: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Delete a stored file. Failures are only logged, so the caller can still
+// clean up the database record.
+const removeStoredFile = async (filePath: string): Promise<void> => {
+  try {
+    await getStorage().delete(filePath);
+    console.log(`Successfully deleted file: ${filePath}`);
+  } catch (error) {
+    console.error(`Error deleting stored file at ${filePath}:`, error);
+  }
+};
+
+export { loadDocumentPdf, removeStoredFile, saveSignedFile, saveUploadedFile, sendPdfFile, sendStoredFile };
@@ -0,0 +1,173 @@
+// server/utils/documentQuery.ts
+import { Request, Response } from 'express';
+import { FilterQuery, ProjectionType, SortOrder } from 'mongoose';
+import { IDocument } from '../models/Document';
+
+const DOCUMENT_STATUSES: IDocument['status'][] = ['pending', 'signed', 'archived', 'reviewed', 'declined', 'expired'];
+const SORTABLE_FIELDS = ['uploadDate', 'updatedAt', 'originalName', 'fileSize', 'status'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_NOTES_LENGTH = 2000;
+
+// A parsed document list request, ready to run
+export interface DocumentListQuery {
+  filter: FilterQuery<IDocument>;
+  sort: Record<string, SortOrder | { $meta: 'textScore' }>;
+  projection?: ProjectionType<IDocument>;
+  page: number;
+  limit: number;
+  paginated: boolean; // Whether page or limit was given; without them the whole list is returned
+}
+
+// Query strings arrive as strings (or arrays when repeated); take a single value
+const single = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+// Comma-separated or repeated values, e.g. ?status=pending,signed or ?tag=a&tag=b
+const list = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .filter((entry): entry is string => typeof entry === 'string')
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+
+const positiveInteger = (value: unknown, name: string, res: Response): number | undefined => {
+  const text = single(value);
+  if (text === undefined) {
+    return undefined;
+  }
+  const number = Number(text);
+  if (!Number.isInteger(number) || number < 0) {
+    res.status(400);
+    throw new Error(`${name} must be a non-negative integer.`);
+  }
+  return number;
+};
+
+const date = (value: unknown, name: string, res: Response): Date | undefined => {
+  const text = single(value);
+  if (text === undefined) {
+    return undefined;
+  }
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) {
+    res.status(400);
+    throw new Error(`${name} must be a valid date (e.g. 2024-01-31).`);
+  }
+  return parsed;
+};
+
+// Turn the query string of a document list request into a Mongo filter, sort and page,
+// on top of `baseFilter` (which decides whose documents are listed). Supported parameters:
+//   page, limit            1-based page number and page size (default 20, at most 100)
+//   status                 one or more statuses
+//   from, to               upload date range (inclusive)
+//   minSize, maxSize       file size range in bytes
+//   tag                    documents carrying all of these tags
+//   q                      text search over the name, tags and notes
+//   sort                   a sortable field, prefixed with '-' for descending (default -uploadDate);
+//                          with q and no sort, the best matches come first
+// Sets a 400 status and throws on invalid input.
+const parseDocumentListQuery = (
+  req: Request,
+  res: Response,
+  baseFilter: FilterQuery<IDocument>
+): DocumentListQuery => {
+  const filter: FilterQuery<IDocument> = { ...baseFilter };
+
+  const statuses = list(req.query.status);
+  const unknownStatus = statuses.find((status) => !DOCUMENT_STATUSES.includes(status as IDocument['status']));
+  if (unknownStatus) {
+    res.status(400);
+    throw new Error(`Unknown status "${unknownStatus}". Use one of: ${DOCUMENT_STATUSES.join(', ')}.`);
+  }
+  if (statuses.length > 0) {
+    filter.status = { $in: statuses };
+  }
+
+  const from = date(req.query.from, 'from', res);
+  const to = date(req.query.to, 'to', res);
+  if (from || to) {
+    filter.uploadDate = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+  }
+
+  const minSize = positiveInteger(req.query.minSize, 'minSize', res);
+  const maxSize = positiveInteger(req.query.maxSize, 'maxSize', res);
+  if (minSize !== undefined || maxSize !== undefined) {
+    filter.fileSize = {
+      ...(minSize !== undefined && { $gte: minSize }),
+      ...(maxSize !== undefined && { $lte: maxSize }),
+    };
+  }
+
+  const tags = list(req.query.tag).map((tag) => tag.toLowerCase());
+  if (tags.length > 0) {
+    filter.tags = { $all: tags };
+  }
+
+  const search = single(req.query.q);
+  if (search) {
+    filter.$text = { $search: search };
+  }
+
+  let sort: DocumentListQuery['sort'];
+  let projection: DocumentListQuery['projection'];
+  const sortParam = single(req.query.sort);
+  if (sortParam) {
+    const field = sortParam.replace(/^-/, '');
+    if (!SORTABLE_FIELDS.includes(field)) {
+      res.status(400);
+      throw new Error(`sort must be one of: ${SORTABLE_FIELDS.join(', ')} (prefix with - for descending).`);
+    }
+    sort = { [field]: sortParam.startsWith('-') ? -1 : 1 };
+  } else if (search) {
+    projection = { score: { $meta: 'textScore' } };
+    sort = { score: { $meta: 'textScore' } };
+  } else {
+    sort = { uploadDate: -1 };
+  }
+  sort._id = 1; // Stable order across pages when values tie
+
+  const page = Math.max(positiveInteger(req.query.page, 'page', res) ?? 1, 1);
+  const limit = Math.min(Math.max(positiveInteger(req.query.limit, 'limit', res) ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const paginated = req.query.page !== undefined || req.query.limit !== undefined;
+
+  return { filter, sort, projection, page, limit, paginated };
+};
+
+// Validate tags sent to update a document: trimmed, lowercased and without duplicates.
+// Sets a 400 status and throws on invalid input.
+const normalizeTags = (value: unknown, res: Response): string[] => {
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== 'string')) {
+    res.status(400);
+    throw new Error('tags must be an array of strings.');
+  }
+
+  const tags = [...new Set(value.map((tag: string) => tag.trim().toLowerCase()).filter((tag) => tag !== ''))];
+
+  if (tags.length > MAX_TAGS || tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    res.status(400);
+    throw new Error(`A document can have at most ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters.`);
+  }
+
+  return tags;
+};
+
+// Validate notes sent to update a document; null clears them.
+// Sets a 400 status and throws on invalid input.
+const normalizeNotes = (value: unknown, res: Response): string | undefined => {
+  if (value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > MAX_NOTES_LENGTH) {
+    res.status(400);
+    throw new Error(`notes must be a string of at most ${MAX_NOTES_LENGTH} characters.`);
+  }
+  return value.trim() || undefined;
+};
+
+export { normalizeNotes, normalizeTags, parseDocumentListQuery };
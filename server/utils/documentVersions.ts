@@ -0,0 +1,93 @@
+import { PDFDocument } from 'pdf-lib';
+import { IAuditActor } from '../models/AuditEvent';
+import { IDocument, IDocumentVersion, VersionAction } from '../models/Document';
+import { sha256 } from './fileHash';
+import { readStoredFile } from './storage';
+
+// A new revision of a document's file that has already been stored
+export interface NewVersion {
+  fileName: string;
+  filePath: string;
+  bytes: Uint8Array;
+  action: VersionAction;
+  actor: IAuditActor;
+  pageCount?: number;
+}
+
+// Count the pages of a PDF, or undefined if pdf-lib can't parse it
+const countPages = async (bytes: Uint8Array): Promise<number | undefined> => {
+  try {
+    return (await PDFDocument.load(bytes, { ignoreEncryption: true })).getPageCount();
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// Documents created before version history existed have no entries. Record their
+// current file as the first version so it stays reachable once a new one is added.
+const seedInitialVersion = async (document: IDocument): Promise<void> => {
+  if (document.isNew || document.versions.length > 0) {
+    return;
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = await readStoredFile(document.filePath);
+  } catch (error) {
+    console.warn(`Cannot seed version history, file missing at ${document.filePath}`);
+    return;
+  }
+
+  const hash = sha256(bytes);
+  document.sha256 = document.sha256 || hash;
+  document.versions.push({
+    versionNumber: 1,
+    fileName: document.fileName,
+    filePath: document.filePath,
+    fileSize: bytes.length,
+    sha256: hash,
+    pageCount: await countPages(bytes),
+    action: document.lastSignedAt ? 'sign' : 'upload',
+    actor: { type: 'user', user: document.user },
+    createdAt: document.lastSignedAt || document.uploadDate,
+  });
+};
+
+// Append a version and point the document's current file at it. Does not save the document.
+const addDocumentVersion = async (document: IDocument, version: NewVersion): Promise<IDocumentVersion> => {
+  await seedInitialVersion(document);
+
+  const lastVersion = document.versions[document.versions.length - 1];
+  const versionNumber = (lastVersion?.versionNumber ?? 0) + 1;
+
+  document.versions.push({
+    versionNumber,
+    fileName: version.fileName,
+    filePath: version.filePath,
+    fileSize: version.bytes.length,
+    sha256: sha256(version.bytes),
+    pageCount: version.pageCount ?? (await countPages(version.bytes)),
+    action: version.action,
+    actor: version.actor,
+    createdAt: new Date(),
+  });
+
+  document.filePath = version.filePath;
+  document.fileName = version.fileName;
+  document.fileSize = version.bytes.length;
+  document.currentVersion = versionNumber;
+
+  const added = document.versions[document.versions.length - 1];
+  document.sha256 = added.sha256;
+  return added;
+};
+
+// Look up a version by its number
+const findVersion = (document: IDocument, versionNumber: number): IDocumentVersion | undefined =>
+  document.versions.find((version) => version.versionNumber === versionNumber);
+
+// Every distinct storage key a document has ever used (all versions plus the current file)
+const allVersionPaths = (document: IDocument): string[] =>
+  [...new Set([...document.versions.map((version) => version.filePath), document.filePath])];
+
+export { addDocumentVersion, allVersionPaths, findVersion, seedInitialVersion };
@@ -0,0 +1,71 @@
+// server/utils/eventBus.ts
+// In-process bus for document lifecycle events. Controllers publish what happened to a document;
+// webhooks (utils/webhooks.ts) and the real-time stream (utils/eventStream.ts) subscribe to it.
+import 'colors';
+import { EventEmitter } from 'events';
+import { IDocument } from '../models/Document';
+import { WebhookEvent } from '../models/Webhook';
+
+// Webhooks can subscribe to every event type
+export type DocumentEventType = WebhookEvent;
+
+export interface DocumentEvent {
+  type: DocumentEventType;
+  document: IDocument; // As published; it may have changed or been deleted since
+  data: Record<string, unknown>; // { document: summary, ...details }, fixed when the event is published
+  occurredAt: Date;
+}
+
+const emitter = new EventEmitter();
+
+// What subscribers are told about a document
+const documentSummary = (document: IDocument) => ({
+  _id: document._id,
+  originalName: document.originalName,
+  status: document.status,
+  owner: document.user,
+  organization: document.organization,
+  currentVersion: document.currentVersion,
+  sha256: document.sha256,
+  fileSize: document.fileSize,
+  uploadDate: document.uploadDate,
+  lastSignedAt: document.lastSignedAt,
+  signers: document.signers.map((signer) => ({
+    email: signer.email,
+    name: signer.name,
+    status: signer.status,
+    signedAt: signer.signedAt,
+  })),
+});
+
+// Tell every subscriber about an event. Subscribers run afterwards, so publishing never
+// fails or slows down the request that caused the event.
+const publishDocumentEvent = (
+  type: DocumentEventType,
+  document: IDocument,
+  details: Record<string, unknown> = {}
+): void => {
+  const event: DocumentEvent = {
+    type,
+    document,
+    data: { document: documentSummary(document), ...details },
+    occurredAt: new Date(),
+  };
+  emitter.emit('document', event);
+};
+
+// Call a listener for every event published from now on; its errors are logged.
+// Returns a function that unsubscribes it.
+const subscribeToDocumentEvents = (listener: (event: DocumentEvent) => void | Promise<void>): (() => void) => {
+  const handler = (event: DocumentEvent) => {
+    Promise.resolve()
+      .then(() => listener(event))
+      .catch((error) => console.error(`Document event subscriber failed on ${event.type}:`.red, error));
+  };
+  emitter.on('document', handler);
+  return () => {
+    emitter.off('document', handler);
+  };
+};
+
+export { publishDocumentEvent, subscribeToDocumentEvents };
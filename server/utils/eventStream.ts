@@ -0,0 +1,126 @@
+// server/utils/eventStream.ts
+// Real-time document events over Server-Sent Events. Each connected user receives the events about
+// the documents they may view (see documentViewerIds). Recent events are kept in memory, so a client
+// reconnecting with the ID of the last event it received (the Last-Event-ID header EventSource sends
+// on its own) gets what it missed. Event IDs are "<server run>-<sequence>": when the missed events
+// are gone (the server restarted or too much happened meanwhile) the client gets a 'resync' event
+// and should reload what it shows. Events only reach clients connected to the server instance
+// that published them.
+import crypto from 'crypto';
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { IUser } from '../models/User';
+import { DocumentEvent, subscribeToDocumentEvents } from './eventBus';
+import { documentViewerIds } from './policy';
+
+const MAX_BUFFERED_EVENTS = 1000;
+const HEARTBEAT_SECONDS = 25; // Keeps proxies from closing idle connections
+const RECONNECT_DELAY_MS = 5000;
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface StreamEvent {
+  sequence: number;
+  id: string;
+  type: string;
+  data: string; // JSON
+  viewerIds: Set<string>;
+}
+
+const runId = crypto.randomBytes(4).toString('hex');
+let sequence = 0;
+const recentEvents: StreamEvent[] = []; // Oldest first
+const connections = new Map<string, Set<Response>>(); // User ID -> open streams
+
+const currentEventId = (): string => `${runId}-${sequence}`;
+
+const writeEvent = (res: Response, event: Pick<StreamEvent, 'id' | 'type' | 'data'>): void => {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${event.data}\n\n`);
+};
+
+// Number the event, keep it for reconnecting clients and push it to the viewers connected now
+const broadcast = async ({ type, document, data, occurredAt }: DocumentEvent): Promise<void> => {
+  const viewerIds = new Set(await documentViewerIds(document));
+
+  sequence += 1;
+  const event: StreamEvent = {
+    sequence,
+    id: currentEventId(),
+    type,
+    data: JSON.stringify({ type, occurredAt, ...data }),
+    viewerIds,
+  };
+  recentEvents.push(event);
+  if (recentEvents.length > MAX_BUFFERED_EVENTS) {
+    recentEvents.shift();
+  }
+
+  viewerIds.forEach((userId) => connections.get(userId)?.forEach((res) => writeEvent(res, event)));
+};
+
+// The events a user missed since lastEventId, or null if they can no longer all be replayed
+const missedEvents = (userId: string, lastEventId: string): StreamEvent[] | null => {
+  const [run, sequenceText] = lastEventId.split('-');
+  const lastSequence = Number(sequenceText);
+  const oldestSequence = recentEvents.length > 0 ? recentEvents[0].sequence : sequence + 1;
+
+  if (run !== runId || !Number.isInteger(lastSequence) || lastSequence > sequence || lastSequence < oldestSequence - 1) {
+    return null;
+  }
+  return recentEvents.filter((event) => event.sequence > lastSequence && event.viewerIds.has(userId));
+};
+
+// Turn a response into an event stream for a user: replay what they missed, then send a 'ready'
+// event carrying the current position and every new event. The stream ends when the client
+// disconnects, or with a 'token_expired' event when the access token it was opened with expires.
+const openEventStream = (res: Response, user: IUser, lastEventId?: string, tokenExpiresAt?: Date): void => {
+  const userId = (user._id as Types.ObjectId).toString();
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Stops nginx-style proxies from buffering the stream
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  if (lastEventId) {
+    const missed = missedEvents(userId, lastEventId);
+    if (missed) {
+      missed.forEach((event) => writeEvent(res, event));
+    } else {
+      res.write('event: resync\ndata: {}\n\n');
+    }
+  }
+  writeEvent(res, { id: currentEventId(), type: 'ready', data: '{}' });
+
+  if (!connections.has(userId)) {
+    connections.set(userId, new Set());
+  }
+  connections.get(userId)!.add(res);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_SECONDS * 1000);
+  const expiry = tokenExpiresAt
+    ? setTimeout(() => {
+        res.write('event: token_expired\ndata: {}\n\n');
+        res.end();
+      }, Math.min(Math.max(tokenExpiresAt.getTime() - Date.now(), 0), MAX_TIMER_MS))
+    : undefined;
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    const streams = connections.get(userId);
+    streams?.delete(res);
+    if (streams?.size === 0) {
+      connections.delete(userId);
+    }
+  });
+};
+
+// Start sending document events to connected clients
+const startEventStream = (): void => {
+  subscribeToDocumentEvents(broadcast);
+};
+
+export { openEventStream, startEventStream };
@@ -0,0 +1,17 @@
+import crypto from 'crypto';
+import { readStoredFile } from './storage';
+
+// SHA-256 of a buffer as a lowercase hex string
+const sha256 = (data: Uint8Array): string => crypto.createHash('sha256').update(data).digest('hex');
+
+// SHA-256 of a stored file, or undefined if it can't be read
+const sha256File = async (filePath: string): Promise<string | undefined> => {
+  try {
+    return sha256(await readStoredFile(filePath));
+  } catch (error) {
+    console.error(`Could not hash file at ${filePath}:`, error);
+    return undefined;
+  }
+};
+
+export { sha256, sha256File };
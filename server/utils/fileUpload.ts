@@ -1,26 +1,8 @@
-import fs from 'fs'; // Node's file system module
 import multer from 'multer';
-import path from 'path';
 
-// Define the directory for uploads
-const uploadDir = path.join(__dirname, '../uploads');
-
-// Create the uploads directory if it doesn't exist
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-// Configure storage for Multer
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, uploadDir);
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const fileExtension = path.extname(file.originalname);
-    cb(null, file.fieldname + '-' + uniqueSuffix + fileExtension);
-  },
-});
+// Uploads are kept in memory and written to storage (see utils/storage) by the
+// controller once they've been checked
+const storage = multer.memoryStorage();
 
 // Filter to allow only PDF files
 const fileFilter = (req: Express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
@@ -41,4 +23,63 @@ const upload = multer({
   },
 });
 
+// Document uploads also take PNG and JPEG images (e.g. phone scans), several files per
+// request, which the controller converts and merges into one PDF
+const MAX_DOCUMENT_FILES = 20;
+
+const documentUpload = multer({
+  storage: storage,
+  fileFilter: (req, file, cb) => {
+    if (['application/pdf', 'image/png', 'image/jpeg'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF, PNG and JPEG files are allowed!'));
+    }
+  },
+  limits: {
+    fileSize: 1024 * 1024 * 10, // 10MB file size limit, per file
+    files: MAX_DOCUMENT_FILES,
+  },
+});
+
+// In-memory variant for files that are only inspected, never stored (e.g. verification uploads)
+const memoryUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: fileFilter,
+  limits: {
+    fileSize: 1024 * 1024 * 10, // 10MB file size limit
+  },
+});
+
+// In-memory upload for signature images, which are normalized before anything is stored
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (['image/png', 'image/jpeg'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PNG and JPEG images are allowed!'));
+    }
+  },
+  limits: {
+    fileSize: 1024 * 1024 * 2, // 2MB file size limit
+  },
+});
+
+// In-memory upload for fonts (admins only); the file's content is checked before it is stored
+const fontUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (/\.ttf$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only TrueType (.ttf) fonts are allowed!'));
+    }
+  },
+  limits: {
+    fileSize: 1024 * 1024 * 20, // 20MB file size limit (CJK fonts are large)
+  },
+});
+
+export { documentUpload, fontUpload, imageUpload, MAX_DOCUMENT_FILES, memoryUpload };
 export default upload;
\ No newline at end of file
@@ -0,0 +1,139 @@
+// server/utils/fonts.ts
+// Fonts for typed signatures and other text drawn when signing: the standard PDF fonts,
+// handwriting fonts bundled with the server and TrueType fonts uploaded by admins.
+// Fonts are referred to by ID: a standard font name, a bundled font ID or an uploaded font's _id.
+import 'regenerator-runtime/runtime'; // @pdf-lib/fontkit's shapers for complex scripts (e.g. Devanagari) need it
+import fontkit from '@pdf-lib/fontkit';
+import fs from 'fs/promises';
+import { Types } from 'mongoose';
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib';
+import Font from '../models/Font';
+import { SIGNATURE_FONTS, SignatureFont } from '../models/SavedSignature';
+import { readStoredFile } from './storage';
+
+export interface BundledFont {
+  name: string;
+  file: string; // Resolved from node_modules
+  scripts: string[]; // Writing systems the font covers, for the client's font picker
+}
+
+// Handwriting-style fonts shipped with the server (Google Fonts, OFL-licensed)
+export const BUNDLED_FONTS: Record<string, BundledFont> = {
+  caveat: {
+    name: 'Caveat',
+    file: '@expo-google-fonts/caveat/400Regular/Caveat_400Regular.ttf',
+    scripts: ['latin', 'cyrillic'],
+  },
+  'dancing-script': {
+    name: 'Dancing Script',
+    file: '@expo-google-fonts/dancing-script/400Regular/DancingScript_400Regular.ttf',
+    scripts: ['latin'],
+  },
+  kalam: {
+    name: 'Kalam',
+    file: '@expo-google-fonts/kalam/400Regular/Kalam_400Regular.ttf',
+    scripts: ['latin', 'devanagari'],
+  },
+  yomogi: {
+    name: 'Yomogi',
+    file: '@expo-google-fonts/yomogi/400Regular/Yomogi_400Regular.ttf',
+    scripts: ['latin', 'cyrillic', 'cjk'],
+  },
+};
+
+export const DEFAULT_FONT: SignatureFont = 'Helvetica';
+
+const MAX_CACHED_FONTS = 20;
+const fontCache = new Map<string, { name: string; bytes: Buffer }>();
+
+const isStandardFont = (id: string): id is SignatureFont => SIGNATURE_FONTS.includes(id as SignatureFont);
+
+// Whether a value has the shape of a font ID. Uploaded fonts may still turn out not to exist.
+const isFontId = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  (isStandardFont(value) || value in BUNDLED_FONTS || Types.ObjectId.isValid(value));
+
+// Whether a font ID refers to a font that can be used: standard, bundled or uploaded and not deleted
+const fontExists = async (value: unknown): Promise<boolean> => {
+  if (!isFontId(value)) {
+    return false;
+  }
+  return isStandardFont(value) || value in BUNDLED_FONTS || (await Font.exists({ _id: value })) !== null;
+};
+
+// The display name and file of a bundled or uploaded font. Throws if there is no such font.
+const loadFontFile = async (id: string): Promise<{ name: string; bytes: Buffer }> => {
+  const cached = fontCache.get(id);
+  if (cached) {
+    return cached;
+  }
+
+  let loaded: { name: string; bytes: Buffer };
+  const bundled = BUNDLED_FONTS[id];
+  if (bundled) {
+    loaded = { name: bundled.name, bytes: await fs.readFile(require.resolve(bundled.file)) };
+  } else {
+    const font = Types.ObjectId.isValid(id) ? await Font.findById(id) : null;
+    if (!font) {
+      throw new Error(`Unknown font "${id}".`);
+    }
+    loaded = { name: font.name, bytes: await readStoredFile(font.filePath) };
+  }
+
+  // Fonts are a few hundred KB to a few MB; keep the most recently loaded ones
+  if (fontCache.size >= MAX_CACHED_FONTS) {
+    fontCache.delete(fontCache.keys().next().value!);
+  }
+  fontCache.set(id, loaded);
+  return loaded;
+};
+
+// Drop an uploaded font from the cache once it is deleted
+const forgetFont = (id: string): void => {
+  fontCache.delete(id);
+};
+
+// Embed a font into a PDF. Bundled and uploaded fonts are subset to the glyphs actually drawn.
+// Throws if there is no such font.
+const embedFont = async (pdfDoc: PDFDocument, id: string): Promise<{ name: string; font: PDFFont }> => {
+  if (isStandardFont(id)) {
+    return { name: id, font: await pdfDoc.embedFont(StandardFonts[id]) };
+  }
+
+  const { name, bytes } = await loadFontFile(id);
+  pdfDoc.registerFontkit(fontkit);
+  return { name, font: await pdfDoc.embedFont(bytes, { subset: true }) };
+};
+
+// Characters of the text the font has no glyph for, each listed once. Whitespace and invisible
+// formatting characters (e.g. the zero-width joiners used in Devanagari) don't need one.
+const missingGlyphs = (font: PDFFont, text: string): string[] => {
+  const characterSet = new Set(font.getCharacterSet());
+  return [...new Set(text)].filter(
+    (character) => !/[\s\p{Cf}]/u.test(character) && !characterSet.has(character.codePointAt(0)!)
+  );
+};
+
+// Check an uploaded font file: it must be a single TrueType font with a Unicode character map.
+// Returns its family name and glyph count; throws with a message suitable for the client otherwise.
+const inspectFontFile = (bytes: Buffer): { family: string; glyphCount: number } => {
+  const signature = bytes.subarray(0, 4);
+  if (!signature.equals(Buffer.from([0, 1, 0, 0])) && signature.toString('latin1') !== 'true') {
+    throw new Error('Fonts must be TrueType (.ttf) files.');
+  }
+
+  let font: fontkit.Font;
+  try {
+    font = fontkit.create(bytes);
+  } catch (error) {
+    throw new Error('The font file could not be read.');
+  }
+
+  if (!font.characterSet || font.characterSet.length === 0) {
+    throw new Error('The font has no Unicode character map.');
+  }
+
+  return { family: font.familyName || 'Unknown', glyphCount: font.numGlyphs };
+};
+
+export { embedFont, fontExists, forgetFont, inspectFontFile, isFontId, isStandardFont, missingGlyphs };
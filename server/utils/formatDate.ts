@@ -0,0 +1,51 @@
+// Format a date with a simple token pattern, e.g. 'YYYY-MM-DD', 'DD/MM/YYYY' or 'MMMM D, YYYY'.
+// Supported tokens: YYYY, YY, MMMM, MMM, MM, M, DD, D. Anything else is copied as-is.
+// Dates are rendered in the given IANA time zone (UTC by default).
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+const TOKEN_PATTERN = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+
+// Throws a RangeError for unknown time zones
+const formatDate = (date: Date, format: string = DEFAULT_DATE_FORMAT, timeZone: string = 'UTC'): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)!.value;
+
+  const year = part('year');
+  const monthName = part('month');
+  const day = part('day');
+  const month = String(
+    ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+      .indexOf(monthName) + 1
+  );
+
+  const values: Record<string, string> = {
+    YYYY: year,
+    YY: year.slice(-2),
+    MMMM: monthName,
+    MMM: monthName.slice(0, 3),
+    MM: month.padStart(2, '0'),
+    M: month,
+    DD: day.padStart(2, '0'),
+    D: day,
+  };
+
+  return format.replace(TOKEN_PATTERN, (token) => values[token]);
+};
+
+// Whether the given IANA time zone name is known to this runtime
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export { DEFAULT_DATE_FORMAT, formatDate, isValidTimeZone };
@@ -1,13 +1,16 @@
 import jwt from 'jsonwebtoken';
 
+// Access tokens are short-lived; clients renew them with a refresh token (see utils/refreshTokens)
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+
 const generateToken = (id: string): string => {
   // Ensure JWT_SECRET environment variable is defined
   if (!process.env.JWT_SECRET) {
     throw new Error('JWT_SECRET environment variable is not defined.');
   }
   return jwt.sign({ id }, process.env.JWT_SECRET, {
-    expiresIn: '30d', // Token expires in 30 days
+    expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'],
   });
 };
 
-export default generateToken;
\ No newline at end of file
+export default generateToken;
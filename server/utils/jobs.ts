@@ -0,0 +1,160 @@
+// server/utils/jobs.ts
+// Background jobs stored in MongoDB. Modules define a handler per job name, then schedule jobs
+// to run at a given time; a runner polls for due jobs, claims each one so that only one server
+// instance runs it, and retries failures with exponential backoff. Recurring jobs are queued
+// again after every run.
+import 'colors';
+import { FilterQuery } from 'mongoose';
+import Job, { IJob } from '../models/Job';
+
+// Handlers receive the payload the job was scheduled with; P describes it for jobs that have one
+export type JobHandler<P extends object = Record<string, unknown>> = (payload: P, job: IJob) => Promise<void>;
+
+const LOCK_SECONDS = 5 * 60; // Longest a job may run before another instance takes it over
+const RETRY_BASE_SECONDS = 30;
+const RUNNER_BATCH_SIZE = 20;
+
+const handlers = new Map<string, JobHandler>();
+
+// Register the handler for a job name. Call before starting the runner. The payload type is the
+// caller's word: it should match what the job is scheduled with.
+const defineJob = <P extends object = Record<string, unknown>>(name: string, handler: JobHandler<P>): void => {
+  handlers.set(name, handler as unknown as JobHandler);
+};
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  error instanceof Error && 'code' in error && error.code === 11000;
+
+// Queue a job to run at (or soon after) a given time
+const scheduleJob = (
+  name: string,
+  runAt: Date,
+  payload: Record<string, unknown> = {},
+  maxAttempts = 5
+): Promise<IJob> => Job.create({ name, runAt, payload, maxAttempts });
+
+// Make sure a recurring job is queued, first running now. Does nothing if it already is;
+// its key keeps it to one queued run across server instances.
+const scheduleRecurringJob = async (name: string, everySeconds: number): Promise<void> => {
+  try {
+    await Job.findOneAndUpdate(
+      { key: `recurring:${name}`, status: 'queued' },
+      { $setOnInsert: { name, runAt: new Date(), payload: {}, repeatEverySeconds: everySeconds } },
+      { upsert: true }
+    );
+  } catch (error) {
+    // Another instance queued it at the same moment
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+  }
+};
+
+// Remove queued jobs matching a filter, e.g. the reminders of a document whose due date changed
+const cancelJobs = async (filter: FilterQuery<IJob>): Promise<number> => {
+  const { deletedCount } = await Job.deleteMany({ ...filter, status: 'queued' });
+  return deletedCount;
+};
+
+// Record how a job went; failed attempts are retried until maxAttempts
+const finishJob = async (job: IJob, error?: unknown): Promise<void> => {
+  job.lockedUntil = undefined;
+  if (!error) {
+    job.status = 'completed';
+    job.completedAt = new Date();
+    job.lastError = undefined;
+  } else {
+    job.lastError = error instanceof Error ? error.message : String(error);
+    if (job.attempts < job.maxAttempts) {
+      job.status = 'queued';
+      job.runAt = new Date(Date.now() + RETRY_BASE_SECONDS * 2 ** (job.attempts - 1) * 1000);
+    } else {
+      job.status = 'failed';
+      console.error(`Job ${job.name} (${job._id}) failed for good:`.red, job.lastError);
+    }
+  }
+
+  await job.save();
+
+  // The next run of a recurring job is a new job, so the history of each run stays readable
+  if (job.repeatEverySeconds && job.status !== 'queued') {
+    try {
+      await Job.create({
+        name: job.name,
+        key: `recurring:${job.name}`,
+        runAt: new Date(Date.now() + job.repeatEverySeconds! * 1000),
+        payload: job.payload,
+        repeatEverySeconds: job.repeatEverySeconds,
+      });
+    } catch (err) {
+      if (!isDuplicateKeyError(err)) {
+        throw err;
+      }
+    }
+  }
+};
+
+// Claim the next due job (or one abandoned by a stopped instance), or null if there is none
+const claimNextJob = (): Promise<IJob | null> => {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        { status: 'running', lockedUntil: { $lte: now } },
+      ],
+    },
+    { $set: { status: 'running', lockedUntil: new Date(now.getTime() + LOCK_SECONDS * 1000) }, $inc: { attempts: 1 } },
+    { new: true, sort: { runAt: 1 } }
+  );
+};
+
+// Run every due job, one at a time
+let running = false;
+const runDueJobs = async (): Promise<void> => {
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    for (let i = 0; i < RUNNER_BATCH_SIZE; i++) {
+      const job = await claimNextJob();
+      if (!job) {
+        break;
+      }
+
+      const handler = handlers.get(job.name);
+      let failure: unknown;
+      try {
+        if (!handler) {
+          throw new Error(`No handler for job ${job.name}`);
+        }
+        await handler(job.payload, job);
+      } catch (error) {
+        failure = error ?? new Error('Job failed');
+      }
+      await finishJob(job, failure);
+    }
+  } catch (error) {
+    console.error('Job runner failed:'.red, error);
+  } finally {
+    running = false;
+  }
+};
+
+// Poll for due jobs every JOB_POLL_SECONDS (default 30)
+const startJobRunner = (): NodeJS.Timeout => {
+  const intervalSeconds = Number(process.env.JOB_POLL_SECONDS) || 30;
+  const timer = setInterval(runDueJobs, intervalSeconds * 1000);
+  timer.unref();
+  return timer;
+};
+
+export {
+  cancelJobs,
+  defineJob,
+  runDueJobs,
+  scheduleJob,
+  scheduleRecurringJob,
+  startJobRunner,
+};
@@ -0,0 +1,155 @@
+// server/utils/mailTemplates.ts
+import { MailMessage } from './mailer';
+
+// Base URL of the frontend, used to build links in emails
+const clientUrl = (pathname: string): string =>
+  `${process.env.CLIENT_URL || process.env.CORS_ORIGIN || 'http://localhost:5173'}${pathname}`;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// The building block of every email: a heading, a few paragraphs and an optional button.
+// New notifications should be written as another function that calls this one.
+export interface ActionMailOptions {
+  to: string;
+  subject: string;
+  heading: string;
+  paragraphs: string[]; // Plain text; escaped for the HTML version
+  action?: { label: string; url: string };
+  footer?: string;
+}
+
+const renderActionMail = (options: ActionMailOptions): MailMessage => {
+  const { to, subject, heading, paragraphs, action, footer } = options;
+
+  const text = [
+    heading,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    ...(footer ? ['--', footer] : []),
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f5f7;font-family:Helvetica,Arial,sans-serif;color:#1f2933;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <tr><td>
+        <h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(heading)}</h1>
+        ${paragraphs.map((paragraph) => `<p style="font-size:15px;line-height:1.5;margin:0 0 12px;">${escapeHtml(paragraph)}</p>`).join('\n        ')}
+        ${action ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:bold;">${escapeHtml(action.label)}</a></p>
+        <p style="font-size:12px;color:#6b7280;word-break:break-all;">${escapeHtml(action.url)}</p>` : ''}
+        ${footer ? `<p style="font-size:12px;color:#6b7280;margin-top:24px;">${escapeHtml(footer)}</p>` : ''}
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+
+  return { to, subject, text, html };
+};
+
+// Sent after registration, and again on request
+const verifyEmailMail = (to: string, name: string, token: string): MailMessage =>
+  renderActionMail({
+    to,
+    subject: 'Confirm your email address',
+    heading: `Welcome, ${name}`,
+    paragraphs: ['Please confirm that this is your email address. The link is valid for 24 hours.'],
+    action: { label: 'Confirm email', url: clientUrl(`/verify-email/${token}`) },
+    footer: "If you didn't create an account, you can ignore this email.",
+  });
+
+const passwordResetMail = (to: string, name: string, token: string): MailMessage =>
+  renderActionMail({
+    to,
+    subject: 'Reset your password',
+    heading: `Hi ${name}`,
+    paragraphs: ['We received a request to reset your password. The link is valid for one hour and can be used once.'],
+    action: { label: 'Choose a new password', url: clientUrl(`/reset-password/${token}`) },
+    footer: "If you didn't ask for this, you can ignore this email; your password stays the same.",
+  });
+
+// Sent to a (guest) signer with their personal signing link
+const signingRequestMail = (options: {
+  to: string;
+  recipientName?: string;
+  senderName: string;
+  documentName: string;
+  url: string;
+  expiresAt: Date;
+}): MailMessage =>
+  renderActionMail({
+    to: options.to,
+    subject: `${options.senderName} asked you to sign "${options.documentName}"`,
+    heading: options.recipientName ? `Hi ${options.recipientName}` : 'Hello',
+    paragraphs: [
+      `${options.senderName} has sent you "${options.documentName}" to review and sign.`,
+      `This link is personal to you and expires on ${options.expiresAt.toUTCString()}.`,
+    ],
+    action: { label: 'Review and sign', url: options.url },
+    footer: "Don't forward this email: anyone with the link can sign in your name.",
+  });
+
+// Sent before and after a document's due date to signers who haven't signed yet
+const signingReminderMail = (options: {
+  to: string;
+  recipientName?: string;
+  senderName: string;
+  documentName: string;
+  dueDate: Date;
+  overdue: boolean;
+  url: string;
+  linkExpiresAt?: Date; // Set when url is a personal signing link rather than the app
+}): MailMessage =>
+  renderActionMail({
+    to: options.to,
+    subject: options.overdue
+      ? `Overdue: please sign "${options.documentName}"`
+      : `Reminder: "${options.documentName}" is due on ${options.dueDate.toUTCString()}`,
+    heading: options.recipientName ? `Hi ${options.recipientName}` : 'Hello',
+    paragraphs: [
+      options.overdue
+        ? `"${options.documentName}" from ${options.senderName} was due on ${options.dueDate.toUTCString()} and is still waiting for your signature.`
+        : `${options.senderName} is waiting for your signature on "${options.documentName}", due on ${options.dueDate.toUTCString()}.`,
+      options.linkExpiresAt
+        ? `This link is personal to you, replaces any link you were sent before and expires on ${options.linkExpiresAt.toUTCString()}.`
+        : 'If you were sent a personal signing link, use that link to sign.',
+    ],
+    action: { label: 'Review and sign', url: options.url },
+    footer: 'You are receiving this because you were asked to sign this document.',
+  });
+
+// Sent when someone is invited to join an organization
+const organizationInviteMail = (options: {
+  to: string;
+  inviterName: string;
+  organizationName: string;
+  role: string;
+  token: string;
+}): MailMessage =>
+  renderActionMail({
+    to: options.to,
+    subject: `${options.inviterName} invited you to join ${options.organizationName}`,
+    heading: 'You have been invited',
+    paragraphs: [
+      `${options.inviterName} invited you to join "${options.organizationName}" as ${options.role === 'admin' ? 'an' : 'a'} ${options.role}.`,
+      'Sign in (or create an account) with this email address to accept. The invitation is valid for 7 days.',
+    ],
+    action: { label: 'Accept invitation', url: clientUrl(`/invitations/${options.token}`) },
+    footer: "If you weren't expecting this, you can ignore this email.",
+  });
+
+export {
+  clientUrl,
+  organizationInviteMail,
+  passwordResetMail,
+  renderActionMail,
+  signingReminderMail,
+  signingRequestMail,
+  verifyEmailMail,
+};
@@ -0,0 +1,106 @@
+// server/utils/mailer.ts
+import 'colors';
+import fs from 'fs/promises';
+import nodemailer from 'nodemailer';
+import path from 'path';
+
+// A rendered email, ready to send
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Where mail goes. Each transport receives the message with its sender filled in.
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Sends through an SMTP server (a real provider, or a local stand-in such as MailHog on port 1025)
+const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true', // true for port 465, false for STARTTLS
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+};
+
+// Writes each message as an .eml file that any mail client can open
+const createFileTransport = (): MailTransport => {
+  const mailDir = process.env.MAIL_DIR || path.join(__dirname, '../../mail');
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+    send: async (message) => {
+      const info = await transporter.sendMail(message);
+      await fs.mkdir(mailDir, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const filePath = path.join(mailDir, `${Date.now()}-${safeRecipient}.eml`);
+      await fs.writeFile(filePath, info.message as Buffer);
+      console.log(`Mail to ${message.to} written to ${filePath}`.cyan);
+    },
+  };
+};
+
+// Keeps messages in memory, for tests and scripts
+const sentMail: (MailMessage & { from: string })[] = [];
+const createMemoryTransport = (): MailTransport => ({
+  name: 'memory',
+  send: async (message) => {
+    sentMail.push(message);
+  },
+});
+
+let transport: MailTransport | undefined;
+
+// Pick the transport from MAIL_TRANSPORT (smtp, file or memory). Without it, SMTP is
+// used when SMTP_HOST is set and mail is written to files otherwise.
+const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file');
+    if (name === 'smtp') {
+      transport = createSmtpTransport();
+    } else if (name === 'memory') {
+      transport = createMemoryTransport();
+    } else {
+      transport = createFileTransport();
+    }
+    console.log(`Mail transport: ${transport.name}`.cyan);
+  }
+  return transport;
+};
+
+// Replace the transport (e.g. with a memory transport in tests)
+const setMailTransport = (replacement: MailTransport): void => {
+  transport = replacement;
+};
+
+// Send a message through the configured transport
+const sendMail = async (message: MailMessage): Promise<void> => {
+  const from = process.env.MAIL_FROM || 'Document Signature App <no-reply@localhost>';
+  await getMailTransport().send({ ...message, from });
+};
+
+// Send a message without failing the request if delivery fails. Returns whether it was sent.
+const trySendMail = async (message: MailMessage): Promise<boolean> => {
+  try {
+    await sendMail(message);
+    return true;
+  } catch (error) {
+    console.error(`Failed to send mail to ${message.to}:`.red, error);
+    return false;
+  }
+};
+
+export { getMailTransport, sendMail, sentMail, setMailTransport, trySendMail };
@@ -0,0 +1,51 @@
+// server/utils/notifier.ts
+// How people are told about things that need their attention outside of a request (e.g. signing
+// reminders sent by background jobs). The default notifier sends email; others (chat, SMS, a
+// memory notifier for tests) can be swapped in with setNotifier.
+import { IDocument } from '../models/Document';
+import { sendMail } from './mailer';
+import { clientUrl, signingReminderMail } from './mailTemplates';
+
+export interface SigningReminder {
+  document: IDocument;
+  recipient: { email: string; name?: string };
+  signingLink?: { url: string; expiresAt: Date }; // For signers without an account, who can't open the app
+  senderName: string; // The document's owner
+  dueDate: Date;
+  overdue: boolean;
+}
+
+export interface Notifier {
+  name: string;
+  // Throws if the reminder could not be sent
+  sendSigningReminder(reminder: SigningReminder): Promise<void>;
+}
+
+const emailNotifier: Notifier = {
+  name: 'email',
+  sendSigningReminder: async ({ document, recipient, signingLink, senderName, dueDate, overdue }) => {
+    await sendMail(
+      signingReminderMail({
+        to: recipient.email,
+        recipientName: recipient.name,
+        senderName,
+        documentName: document.originalName,
+        dueDate,
+        overdue,
+        url: signingLink?.url ?? clientUrl(`/documents/${document._id}`),
+        linkExpiresAt: signingLink?.expiresAt,
+      })
+    );
+  },
+};
+
+let notifier: Notifier = emailNotifier;
+
+const getNotifier = (): Notifier => notifier;
+
+// Replace the notifier (e.g. with one that records reminders in tests)
+const setNotifier = (replacement: Notifier): void => {
+  notifier = replacement;
+};
+
+export { getNotifier, setNotifier };
@@ -0,0 +1,43 @@
+// server/utils/organizationAccess.ts
+import { Request, Response } from 'express';
+import { isValidObjectId, Types } from 'mongoose';
+import { IMembership } from '../models/Membership';
+import Organization, { IOrganization } from '../models/Organization';
+import { canOnOrganization, findActiveMembership, OrganizationAction } from './policy';
+
+// Load an organization and the authenticated user's membership of it, and make sure their
+// role allows `action`. Organizations the user doesn't belong to are reported as not found.
+// Sets the matching status (401/404/403) and throws otherwise.
+const findOrganizationForAction = async (
+  req: Request,
+  res: Response,
+  organizationId: unknown,
+  action: OrganizationAction
+): Promise<{ organization: IOrganization; membership: IMembership }> => {
+  if (!req.user) {
+    res.status(401);
+    throw new Error('Not authorized, no user token');
+  }
+
+  const organization =
+    typeof organizationId === 'string' && isValidObjectId(organizationId)
+      ? await Organization.findById(organizationId)
+      : null;
+  const membership = organization
+    ? await findActiveMembership(organization._id as Types.ObjectId, req.user._id as Types.ObjectId)
+    : null;
+
+  if (!organization || !membership) {
+    res.status(404);
+    throw new Error('Organization not found');
+  }
+
+  if (!canOnOrganization(membership.role, action)) {
+    res.status(403); // Forbidden
+    throw new Error(`Your role (${membership.role}) does not allow this in the organization`);
+  }
+
+  return { organization, membership };
+};
+
+export { findOrganizationForAction };
@@ -0,0 +1,133 @@
+// server/utils/orphanedFiles.ts
+// Reconciles stored files against the records that point at them. Files no record references pile
+// up when a request fails between storing a file and saving its record (e.g. an upload whose
+// Document.create failed) or when a file is replaced without being removed. A daily job reports
+// them, and removes them too when STORAGE_GC_DELETE=true; admins can do either on demand through
+// /api/admin/storage/orphans. Records created before storage keys existed hold absolute paths,
+// which are never matched: run `npm run migrate:storage` first.
+import 'colors';
+import Document from '../models/Document';
+import Font from '../models/Font';
+import SavedSignature from '../models/SavedSignature';
+import Template from '../models/Template';
+import { defineJob, scheduleRecurringJob } from './jobs';
+import { getStorage, StoredObject } from './storage';
+
+// The folders files are stored in (see documentFiles.ts, signatureImages.ts and fontController.ts)
+const STORAGE_FOLDERS = ['uploads/', 'signed_documents/', 'saved_signatures/', 'fonts/'];
+const MIN_ORPHAN_AGE_MS = 60 * 60 * 1000; // Newer files may belong to a request still in progress
+const RECONCILE_INTERVAL_SECONDS = 24 * 60 * 60;
+
+const RECONCILE_JOB = 'storage.reconcile';
+
+export interface StorageReport {
+  checkedAt: Date;
+  storedFiles: number;
+  orphans: StoredObject[]; // Stored files no record references
+  orphanedBytes: number;
+  missing: string[]; // Keys records point at that have no stored file
+}
+
+// Every storage key a record points at, trashed documents included
+const referencedKeys = async (): Promise<Set<string>> => {
+  const keys = new Set<string>();
+
+  // Queries leave the trash out unless they filter on deletedAt, so live and trashed documents are read apart
+  for (const filter of [{ deletedAt: null }, { deletedAt: { $ne: null } }]) {
+    const documents = Document.find(filter).select('filePath versions.filePath').lean().cursor();
+    for await (const document of documents) {
+      keys.add(document.filePath);
+      document.versions?.forEach((version) => keys.add(version.filePath));
+    }
+  }
+
+  const [templates, signatures, fonts] = await Promise.all([
+    Template.find().select('filePath').lean(),
+    SavedSignature.find({ filePath: { $exists: true } }).select('filePath').lean(),
+    Font.find().select('filePath').lean(),
+  ]);
+  [...templates, ...signatures, ...fonts].forEach(({ filePath }) => filePath && keys.add(filePath));
+
+  return keys;
+};
+
+// Compare the stored files with the records: files nobody references (older than an hour) and
+// references to files that are gone
+const checkStorage = async (): Promise<StorageReport> => {
+  const checkedAt = new Date();
+  const storage = getStorage();
+
+  // List before loading the references: a file stored meanwhile is either not listed or already referenced
+  const stored: StoredObject[] = [];
+  for (const folder of STORAGE_FOLDERS) {
+    for await (const object of storage.list(folder)) {
+      stored.push(object);
+    }
+  }
+  const referenced = await referencedKeys();
+
+  const orphans = stored.filter(
+    (object) =>
+      !referenced.has(object.key) && object.lastModified.getTime() < checkedAt.getTime() - MIN_ORPHAN_AGE_MS
+  );
+  const storedKeys = new Set(stored.map((object) => object.key));
+  const missing = [...referenced]
+    .filter((key) => STORAGE_FOLDERS.some((folder) => key.startsWith(folder)) && !storedKeys.has(key))
+    .sort();
+
+  return {
+    checkedAt,
+    storedFiles: stored.length,
+    orphans: orphans.sort((a, b) => a.key.localeCompare(b.key)),
+    orphanedBytes: orphans.reduce((total, object) => total + object.size, 0),
+    missing,
+  };
+};
+
+// Delete the orphans of a report. Returns the keys removed and the ones that failed.
+const removeOrphanedFiles = async (report: StorageReport): Promise<{ removed: string[]; failed: string[] }> => {
+  const storage = getStorage();
+  const removed: string[] = [];
+  const failed: string[] = [];
+
+  for (const { key } of report.orphans) {
+    try {
+      await storage.delete(key);
+      removed.push(key);
+    } catch (error) {
+      console.error(`Failed to delete orphaned file ${key}:`.red, error);
+      failed.push(key);
+    }
+  }
+
+  return { removed, failed };
+};
+
+const reconcileStorage = async (): Promise<void> => {
+  const report = await checkStorage();
+  console.log(
+    (
+      `Storage check: ${report.orphans.length} orphaned files (${report.orphanedBytes} bytes) and ` +
+      `${report.missing.length} missing files among ${report.storedFiles} stored`
+    ).cyan
+  );
+  report.missing.forEach((key) => console.warn(`Referenced file is missing from storage: ${key}`.yellow));
+
+  if (process.env.STORAGE_GC_DELETE === 'true' && report.orphans.length > 0) {
+    const { removed, failed } = await removeOrphanedFiles(report);
+    console.log(`Removed ${removed.length} orphaned files${failed.length > 0 ? `, ${failed.length} failed` : ''}`.cyan);
+  } else {
+    report.orphans.forEach(({ key }) => console.log(`Orphaned file: ${key}`));
+  }
+};
+
+// Register the storage check job handler and queue it to run every day
+const registerStorageJobs = (): void => {
+  defineJob(RECONCILE_JOB, reconcileStorage);
+
+  scheduleRecurringJob(RECONCILE_JOB, RECONCILE_INTERVAL_SECONDS).catch((error) =>
+    console.error('Failed to schedule the storage check:'.red, error)
+  );
+};
+
+export { checkStorage, registerStorageJobs, removeOrphanedFiles };
@@ -0,0 +1,115 @@
+// server/utils/pageGeometry.ts
+// Pages as viewers display them. A viewer shows only a page's crop box, turned clockwise by
+// its /Rotate entry, while drawing happens in the page's own (unrotated) coordinates.
+// Clients place fields on the displayed page; these helpers convert between the two.
+import { PDFDocument, PDFPage } from 'pdf-lib';
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What the pages endpoint reports for each page
+export interface PageInfo {
+  pageNumber: number; // 1-based
+  width: number; // Displayed width in points: the crop box, after rotation
+  height: number; // Displayed height in points
+  rotation: PageRotation; // Clockwise, as applied by viewers
+  cropBox: PageBox; // Visible region, in the page's unrotated coordinates
+  mediaBox: PageBox;
+}
+
+// A page's displayed coordinate system: origin at the bottom-left of the page as displayed,
+// y growing upwards, in points
+export interface DisplayFrame {
+  page: PDFPage;
+  width: number;
+  height: number;
+  rotation: PageRotation;
+  // A displayed point in the page's own coordinates
+  toPageSpace: (x: number, y: number) => { x: number; y: number };
+  // A rectangle in the page's own coordinates (e.g. a widget's) as displayed
+  toDisplayRect: (rect: PageBox) => PageBox;
+}
+
+// Checks for positions and sizes as they arrive in request bodies
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  !!value &&
+  typeof value === 'object' &&
+  'x' in value &&
+  'y' in value &&
+  typeof value.x === 'number' &&
+  typeof value.y === 'number';
+
+const isDimensions = (value: unknown): value is { width: number; height: number } =>
+  !!value &&
+  typeof value === 'object' &&
+  'width' in value &&
+  'height' in value &&
+  typeof value.width === 'number' &&
+  typeof value.height === 'number' &&
+  value.width > 0 &&
+  value.height > 0;
+
+// The page's rotation as one of the four angles viewers support
+const pageRotation = (page: PDFPage): PageRotation =>
+  (((Math.round(page.getRotation().angle / 90) * 90) % 360) + 360) % 360 as PageRotation;
+
+const displayFrame = (page: PDFPage): DisplayFrame => {
+  const rotation = pageRotation(page);
+  const crop = page.getCropBox();
+  const sideways = rotation === 90 || rotation === 270;
+
+  // Displayed (u, v) from a point relative to the crop box's corner, and back
+  const toDisplay = (x: number, y: number): [number, number] => {
+    switch (rotation) {
+      case 90: return [y, crop.width - x];
+      case 180: return [crop.width - x, crop.height - y];
+      case 270: return [crop.height - y, x];
+      default: return [x, y];
+    }
+  };
+  const fromDisplay = (u: number, v: number): [number, number] => {
+    switch (rotation) {
+      case 90: return [crop.width - v, u];
+      case 180: return [crop.width - u, crop.height - v];
+      case 270: return [v, crop.height - u];
+      default: return [u, v];
+    }
+  };
+
+  return {
+    page,
+    width: sideways ? crop.height : crop.width,
+    height: sideways ? crop.width : crop.height,
+    rotation,
+    toPageSpace: (u, v) => {
+      const [x, y] = fromDisplay(u, v);
+      return { x: crop.x + x, y: crop.y + y };
+    },
+    toDisplayRect: (rect) => {
+      const [u1, v1] = toDisplay(rect.x - crop.x, rect.y - crop.y);
+      const [u2, v2] = toDisplay(rect.x + rect.width - crop.x, rect.y + rect.height - crop.y);
+      return { x: Math.min(u1, u2), y: Math.min(v1, v2), width: Math.abs(u2 - u1), height: Math.abs(v2 - v1) };
+    },
+  };
+};
+
+const describePages = (pdfDoc: PDFDocument): PageInfo[] =>
+  pdfDoc.getPages().map((page, index) => {
+    const { width, height, rotation } = displayFrame(page);
+    return {
+      pageNumber: index + 1,
+      width,
+      height,
+      rotation,
+      cropBox: page.getCropBox(),
+      mediaBox: page.getMediaBox(),
+    };
+  });
+
+export { describePages, displayFrame, isDimensions, isPoint };
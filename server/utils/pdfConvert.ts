@@ -0,0 +1,167 @@
+// server/utils/pdfConvert.ts
+import { degrees, PDFDocument, PDFImage, PDFPage } from 'pdf-lib';
+
+export type ImagePageSize = 'fit' | 'a4' | 'letter';
+
+export const IMAGE_PAGE_SIZES: ImagePageSize[] = ['fit', 'a4', 'letter'];
+
+// An uploaded file to convert, in the order it should appear in the document
+export interface UploadSource {
+  originalName: string;
+  bytes: Buffer; // The format is detected from the content, not the declared type
+}
+
+const PAGE_SIZES: Record<Exclude<ImagePageSize, 'fit'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+const PAGE_MARGIN = 36; // Points around an image fitted to a paper size
+const FIT_POINTS_PER_PIXEL = 0.75; // 'fit' pages render images at 96 DPI
+const MAX_PAGE_POINTS = 14400; // Largest page side PDF viewers are required to handle
+const MAX_IMAGE_PIXELS = 40_000_000; // PNGs are decoded in memory before embedding
+
+const isPng = (bytes: Uint8Array) => Buffer.from(bytes.subarray(0, 8)).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+const isPdf = (bytes: Buffer) => bytes.subarray(0, 5).toString('latin1') === '%PDF-';
+
+// The EXIF orientation of a JPEG (1-8, 1 being upright). Phone cameras store photos
+// sideways and record how to turn them here instead of rotating the pixels.
+const readJpegOrientation = (jpegBytes: Uint8Array): number => {
+  const bytes = Buffer.from(jpegBytes.buffer, jpegBytes.byteOffset, jpegBytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const segmentLength = bytes.readUInt16BE(offset + 2);
+    if (marker === 0xda) break; // Start of scan, no more metadata
+
+    const exifStart = offset + 4;
+    if (marker === 0xe1 && bytes.subarray(exifStart, exifStart + 6).toString('latin1') === 'Exif\0\0') {
+      const tiff = exifStart + 6;
+      if (tiff + 8 > bytes.length) return 1;
+      const littleEndian = bytes.subarray(tiff, tiff + 2).toString('latin1') === 'II';
+      const read16 = (at: number) => (littleEndian ? bytes.readUInt16LE(at) : bytes.readUInt16BE(at));
+      const read32 = (at: number) => (littleEndian ? bytes.readUInt32LE(at) : bytes.readUInt32BE(at));
+
+      const ifd = tiff + read32(tiff + 4);
+      if (ifd + 2 > bytes.length) return 1;
+      const entries = read16(ifd);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > bytes.length) return 1;
+        if (read16(entry) === 0x0112) {
+          const orientation = read16(entry + 8);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + segmentLength;
+  }
+  return 1;
+};
+
+// Clockwise rotation needed to show a JPEG upright. Mirrored orientations (2, 4, 5, 7)
+// are treated as their unmirrored counterparts; cameras don't produce them.
+const ORIENTATION_ROTATION: Record<number, 0 | 90 | 180 | 270> = { 1: 0, 2: 0, 3: 180, 4: 180, 5: 90, 6: 90, 7: 270, 8: 270 };
+
+// Add one page holding an image, turned upright and either sized to the image or
+// scaled to fit within the margins of a portrait or landscape sheet of paper
+const addImagePage = (pdfDoc: PDFDocument, image: PDFImage, rotation: 0 | 90 | 180 | 270, pageSize: ImagePageSize) => {
+  const sideways = rotation === 90 || rotation === 270;
+  const uprightWidth = sideways ? image.height : image.width;
+  const uprightHeight = sideways ? image.width : image.height;
+
+  let page: PDFPage;
+  let drawWidth: number;
+  let drawHeight: number;
+  if (pageSize === 'fit') {
+    const scale = Math.min(FIT_POINTS_PER_PIXEL, MAX_PAGE_POINTS / Math.max(uprightWidth, uprightHeight));
+    drawWidth = uprightWidth * scale;
+    drawHeight = uprightHeight * scale;
+    page = pdfDoc.addPage([drawWidth, drawHeight]);
+  } else {
+    const [shortSide, longSide] = PAGE_SIZES[pageSize];
+    const [pageWidth, pageHeight] = uprightWidth > uprightHeight ? [longSide, shortSide] : [shortSide, longSide];
+    const scale = Math.min((pageWidth - 2 * PAGE_MARGIN) / uprightWidth, (pageHeight - 2 * PAGE_MARGIN) / uprightHeight);
+    drawWidth = uprightWidth * scale;
+    drawHeight = uprightHeight * scale;
+    page = pdfDoc.addPage([pageWidth, pageHeight]);
+  }
+
+  // Centre the upright image, then find where drawImage's origin (the image's own
+  // bottom-left corner) lands once it is rotated about that origin
+  const left = (page.getWidth() - drawWidth) / 2;
+  const bottom = (page.getHeight() - drawHeight) / 2;
+  const [width, height] = sideways ? [drawHeight, drawWidth] : [drawWidth, drawHeight];
+  const origins = {
+    0: { x: left, y: bottom },
+    90: { x: left, y: bottom + drawHeight },
+    180: { x: left + drawWidth, y: bottom + drawHeight },
+    270: { x: left + drawWidth, y: bottom },
+  };
+  // pdf-lib rotates counter-clockwise, EXIF orientations are clockwise
+  page.drawImage(image, { ...origins[rotation], width, height, rotate: degrees(-rotation) });
+};
+
+// Embed a PNG or JPEG, checking its size first. Throws with a message suitable for the client.
+const embedImage = async (pdfDoc: PDFDocument, source: UploadSource): Promise<{ image: PDFImage; rotation: 0 | 90 | 180 | 270 }> => {
+  const { originalName } = source;
+  // pdf-lib reads JPEG headers through the underlying ArrayBuffer, ignoring the offset
+  // of Buffers sliced from Node's shared pool, so give it a copy of its own
+  const bytes = new Uint8Array(source.bytes);
+
+  if (isPng(bytes)) {
+    // Width and height come first in the IHDR chunk
+    const header = Buffer.from(bytes.buffer, 0, bytes.length);
+    const pixels = header.length >= 24 ? header.readUInt32BE(16) * header.readUInt32BE(20) : 0;
+    if (pixels > MAX_IMAGE_PIXELS) {
+      throw new Error(`${originalName} is too large; images can have at most ${MAX_IMAGE_PIXELS / 1_000_000} megapixels.`);
+    }
+    try {
+      return { image: await pdfDoc.embedPng(bytes), rotation: 0 };
+    } catch (error) {
+      throw new Error(`${originalName} is not a valid PNG image.`);
+    }
+  }
+
+  if (isJpeg(bytes)) {
+    try {
+      return { image: await pdfDoc.embedJpg(bytes), rotation: ORIENTATION_ROTATION[readJpegOrientation(bytes)] };
+    } catch (error) {
+      throw new Error(`${originalName} is not a valid JPEG image.`);
+    }
+  }
+
+  throw new Error(`${originalName} is not a PNG or JPEG image.`);
+};
+
+// Build one PDF from uploaded PDFs and images, in the order given: PDF pages are copied
+// as they are, each image becomes a page. Throws with a message suitable for the client
+// if a file can't be read.
+const buildPdfFromUploads = async (sources: UploadSource[], pageSize: ImagePageSize = 'fit'): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+
+  for (const source of sources) {
+    if (isPdf(source.bytes)) {
+      let sourcePdf: PDFDocument;
+      try {
+        sourcePdf = await PDFDocument.load(source.bytes);
+      } catch (error) {
+        throw new Error(
+          error instanceof Error && error.name === 'EncryptedPDFError'
+            ? `${source.originalName} is encrypted and can't be combined with other files.`
+            : `${source.originalName} is not a valid PDF.`
+        );
+      }
+      const pages = await pdfDoc.copyPages(sourcePdf, sourcePdf.getPageIndices());
+      pages.forEach((page) => pdfDoc.addPage(page));
+    } else {
+      const { image, rotation } = await embedImage(pdfDoc, source);
+      addImagePage(pdfDoc, image, rotation, pageSize);
+    }
+  }
+
+  return pdfDoc.save();
+};
+
+export { buildPdfFromUploads };
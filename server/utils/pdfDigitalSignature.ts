@@ -0,0 +1,246 @@
+// server/utils/pdfDigitalSignature.ts
+import { Response } from 'express';
+import forge from 'node-forge';
+import {
+  PDFArray,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFSignature,
+  PDFString,
+} from 'pdf-lib';
+import { SigningCredentials } from '../config/signing';
+
+// Bytes reserved for the DER-encoded PKCS#7 blob (certificate chain + optional timestamp token)
+const SIGNATURE_LENGTH = 16384;
+const BYTE_RANGE_PLACEHOLDER = '**********';
+const FIELD_NAME_PREFIX = 'ServerSignature';
+const DEFAULT_TSA_TIMEOUT_SECONDS = 15;
+
+// OID of the id-aa-timeStampToken unsigned attribute (RFC 3161, appendix A)
+const TIMESTAMP_TOKEN_OID = '1.2.840.113549.1.9.16.2.14';
+
+const { asn1 } = forge;
+
+export interface DigitalSignatureOptions {
+  reason: string;
+  location?: string;
+  contactInfo?: string;
+}
+
+// Add an invisible signature field whose value holds a zero-filled /Contents and a
+// placeholder /ByteRange. Both are filled in by signPdfBytes once the file is serialized.
+const addSignaturePlaceholder = (pdfDoc: PDFDocument, options: DigitalSignatureOptions): void => {
+  const context = pdfDoc.context;
+  const form = pdfDoc.getForm();
+
+  // pdf-lib rewrites the whole file on save, so signatures from earlier revisions no longer
+  // cover the bytes they signed. Drop them rather than leave broken signatures behind; signing
+  // only allows the signature completing a document to be digital, so none should be lost.
+  form.getFields()
+    .filter((field) => field instanceof PDFSignature && field.getName().startsWith(FIELD_NAME_PREFIX))
+    .forEach((field) => form.removeField(field));
+
+  const byteRange = PDFArray.withContext(context);
+  byteRange.push(PDFNumber.of(0));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'adbe.pkcs7.detached',
+    ByteRange: byteRange,
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_LENGTH * 2)),
+    Reason: PDFString.of(options.reason),
+    M: PDFString.fromDate(new Date()),
+    ...(options.location && { Location: PDFString.of(options.location) }),
+    ...(options.contactInfo && { ContactInfo: PDFString.of(options.contactInfo) }),
+  });
+  const signatureRef = context.register(signatureDict);
+
+  // An empty appearance stream; viewers expect one even for invisible signatures
+  const appearanceRef = context.register(
+    context.stream('', { Type: 'XObject', Subtype: 'Form', BBox: [0, 0, 0, 0] })
+  );
+
+  const page = pdfDoc.getPage(0);
+  const widgetDict = context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    Rect: [0, 0, 0, 0], // Invisible: the visual signature is already stamped on the page
+    V: signatureRef,
+    T: PDFString.of(`${FIELD_NAME_PREFIX}${Date.now()}`),
+    F: 4, // Print
+    P: page.ref,
+    AP: { N: appearanceRef },
+  });
+  const widgetRef = context.register(widgetDict);
+
+  page.node.addAnnot(widgetRef);
+  form.acroForm.addField(widgetRef);
+  // SignaturesExist | AppendOnly
+  form.acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+};
+
+// Request an RFC 3161 timestamp token over the given signature value. Sets a 504 status and throws
+// if the timestamp authority doesn't answer in time, or a 502 if it fails or refuses.
+const requestTimestampToken = async (
+  signatureValue: string,
+  credentials: SigningCredentials,
+  res: Response
+): Promise<forge.asn1.Asn1> => {
+  const timeoutSeconds = credentials.tsaTimeoutSeconds ?? DEFAULT_TSA_TIMEOUT_SECONDS;
+  const digest = forge.md.sha256.create();
+  digest.update(signatureValue);
+
+  const timeStampReq = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()), // version
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [ // messageImprint
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(forge.pki.oids.sha256).getBytes()),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ''),
+      ]),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, digest.digest().getBytes()),
+    ]),
+    // nonce (leading 0x01 keeps the INTEGER positive)
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, `\x01${forge.random.getBytesSync(8)}`),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BOOLEAN, false, '\xff'), // certReq
+  ]);
+
+  let responseBytes: Buffer;
+  try {
+    const response = await fetch(credentials.tsaUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/timestamp-query' },
+      body: Buffer.from(asn1.toDer(timeStampReq).getBytes(), 'binary'),
+      signal: AbortSignal.timeout(timeoutSeconds * 1000), // Also covers reading the body
+    });
+    if (!response.ok) {
+      res.status(502);
+      throw new Error(`Timestamp authority responded with HTTP ${response.status}`);
+    }
+    responseBytes = Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      res.status(504);
+      throw new Error(`Timestamp authority did not respond within ${timeoutSeconds}s`);
+    }
+    if (res.statusCode === 200) {
+      res.status(502);
+      // fetch hides the network error in its cause
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      throw new Error(`Timestamp authority could not be reached: ${cause instanceof Error ? cause.message : cause}`);
+    }
+    throw error;
+  }
+
+  const timeStampResp = asn1.fromDer(responseBytes.toString('binary'));
+  const [statusInfo, token] = timeStampResp.value as forge.asn1.Asn1[];
+  const status = asn1.derToInteger((statusInfo.value as forge.asn1.Asn1[])[0].value as string);
+
+  // 0 = granted, 1 = grantedWithMods
+  if ((status !== 0 && status !== 1) || !token) {
+    res.status(502);
+    throw new Error(`Timestamp authority rejected the request (status ${status})`);
+  }
+
+  return token;
+};
+
+// Build the detached PKCS#7 SignedData over `data`, optionally timestamped
+const createPkcs7Signature = async (data: Buffer, credentials: SigningCredentials, res: Response): Promise<Buffer> => {
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(data.toString('binary'));
+  p7.addCertificate(credentials.certificate);
+  credentials.chain.forEach((certificate) => p7.addCertificate(certificate));
+  p7.addSigner({
+    key: credentials.privateKey as forge.pki.rsa.PrivateKey,
+    certificate: credentials.certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest }, // Computed by forge
+      { type: forge.pki.oids.signingTime, value: new Date() as unknown as string },
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const contentInfo = p7.toAsn1();
+
+  if (credentials.tsaUrl) {
+    // ContentInfo -> [0] SignedData -> signerInfos (last element) -> first SignerInfo
+    const signedData = (contentInfo.value as forge.asn1.Asn1[])[1].value[0] as forge.asn1.Asn1;
+    const signerInfos = (signedData.value as forge.asn1.Asn1[]).slice(-1)[0];
+    const signerInfo = (signerInfos.value as forge.asn1.Asn1[])[0];
+    const signatureValue = (signerInfo.value as forge.asn1.Asn1[])
+      .filter((node) => node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.OCTETSTRING)
+      .slice(-1)[0].value as string;
+
+    const token = await requestTimestampToken(signatureValue, credentials, res);
+
+    // unsignedAttrs [1] IMPLICIT SET OF Attribute
+    (signerInfo.value as forge.asn1.Asn1[]).push(
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 1, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+          asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(TIMESTAMP_TOKEN_OID).getBytes()),
+          asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [token]),
+        ]),
+      ])
+    );
+  }
+
+  return Buffer.from(asn1.toDer(contentInfo).getBytes(), 'binary');
+};
+
+// Fill in the /ByteRange and /Contents placeholders of a serialized PDF with a
+// detached PKCS#7 signature covering every byte except the /Contents value itself
+const signPdfBytes = async (pdfBytes: Buffer, credentials: SigningCredentials, res: Response): Promise<Buffer> => {
+  const pdf = Buffer.from(pdfBytes);
+  const text = pdf.toString('latin1');
+
+  const byteRangeMatch = /\/ByteRange\s*\[\s*0\s+\/\*{10}\s+\/\*{10}\s+\/\*{10}\s*\]/.exec(text);
+  const contentsPlaceholder = `<${'0'.repeat(SIGNATURE_LENGTH * 2)}>`;
+  const contentsStart = text.lastIndexOf(contentsPlaceholder);
+
+  if (!byteRangeMatch || contentsStart === -1) {
+    throw new Error('Signature placeholder not found in PDF');
+  }
+
+  const contentsEnd = contentsStart + contentsPlaceholder.length;
+  const byteRange = [0, contentsStart, contentsEnd, pdf.length - contentsEnd];
+
+  // Overwrite the placeholder in place, padding with spaces so no offsets move
+  const byteRangeText = `/ByteRange [${byteRange.join(' ')}]`.padEnd(byteRangeMatch[0].length, ' ');
+  pdf.write(byteRangeText, byteRangeMatch.index, 'latin1');
+
+  const signedData = Buffer.concat([pdf.subarray(0, contentsStart), pdf.subarray(contentsEnd)]);
+  const signature = await createPkcs7Signature(signedData, credentials, res);
+
+  if (signature.length > SIGNATURE_LENGTH) {
+    throw new Error(`Signature is ${signature.length} bytes, larger than the ${SIGNATURE_LENGTH} bytes reserved`);
+  }
+
+  pdf.write(signature.toString('hex').padEnd(SIGNATURE_LENGTH * 2, '0'), contentsStart + 1, 'latin1');
+  return pdf;
+};
+
+// Serialize a PDF with an embedded, cryptographically verifiable signature.
+// This must be the last change made to the file: anything saved afterwards breaks it.
+// Sets a 502/504 status and throws if the timestamp authority (TSA_URL) fails.
+const digitallySignPdf = async (
+  pdfDoc: PDFDocument,
+  credentials: SigningCredentials,
+  options: DigitalSignatureOptions,
+  res: Response
+): Promise<Buffer> => {
+  addSignaturePlaceholder(pdfDoc, options);
+  // Object streams would compress the placeholder out of reach
+  const bytes = await pdfDoc.save({ useObjectStreams: false });
+  return signPdfBytes(Buffer.from(bytes), credentials, res);
+};
+
+export { digitallySignPdf };
@@ -0,0 +1,254 @@
+// server/utils/pdfForm.ts
+import { Response } from 'express';
+import {
+  PDFButton,
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFName,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFRef,
+  PDFSignature,
+  PDFTextField,
+  PDFWidgetAnnotation,
+} from 'pdf-lib';
+import { displayFrame } from './pageGeometry';
+import { SigningField } from './pdfSignature';
+
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'optionList' | 'signature' | 'button' | 'unknown';
+
+// One widget (the visible box) of a form field, in PDF points from the bottom-left of its page
+export interface FormFieldWidget {
+  pageNumber: number | null; // 1-based, null if the widget isn't attached to a page
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+// A form field as reported to the client
+export interface FormFieldInfo {
+  name: string;
+  type: FormFieldType;
+  value: string | string[] | boolean | null;
+  options?: string[]; // radio, dropdown and option list only
+  required: boolean;
+  readOnly: boolean;
+  widgets: FormFieldWidget[];
+}
+
+// A signature placed into an existing signature widget, before it is resolved against the PDF
+export interface FormFieldSignature {
+  formField: string; // Fully qualified field name
+  type: 'signature' | 'initials';
+  signatureType?: 'draw' | 'upload' | 'text';
+  value?: string;
+  savedSignatureId?: string; // Instead of signatureType and value
+  fontSize?: number | 'fit';
+  font?: string;
+  color?: string;
+}
+
+const fieldType = (field: PDFField): FormFieldType => {
+  if (field instanceof PDFTextField) return 'text';
+  if (field instanceof PDFCheckBox) return 'checkbox';
+  if (field instanceof PDFRadioGroup) return 'radio';
+  if (field instanceof PDFDropdown) return 'dropdown';
+  if (field instanceof PDFOptionList) return 'optionList';
+  if (field instanceof PDFSignature) return 'signature';
+  if (field instanceof PDFButton) return 'button';
+  return 'unknown';
+};
+
+// The current value of a field. Signature fields report whether they hold a signature.
+const fieldValue = (field: PDFField): FormFieldInfo['value'] => {
+  if (field instanceof PDFTextField) return field.getText() ?? null;
+  if (field instanceof PDFCheckBox) return field.isChecked();
+  if (field instanceof PDFRadioGroup) return field.getSelected() ?? null;
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return field.getSelected();
+  if (field instanceof PDFSignature) return field.acroField.V() !== undefined;
+  return null;
+};
+
+const fieldOptions = (field: PDFField): string[] | undefined => {
+  if (field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    return field.getOptions();
+  }
+  return undefined;
+};
+
+// The page a widget sits on, using its /P entry or, failing that, the pages' annotation lists
+const widgetPageIndex = (pdfDoc: PDFDocument, widget: PDFWidgetAnnotation): number => {
+  const pages = pdfDoc.getPages();
+  const pageRef = widget.P();
+  const byRef = pages.findIndex((page) => page.ref === pageRef);
+  if (byRef !== -1) {
+    return byRef;
+  }
+
+  const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+  const page = widgetRef && pdfDoc.findPageForAnnotationRef(widgetRef);
+  return page ? pages.indexOf(page) : -1;
+};
+
+const describeWidgets = (pdfDoc: PDFDocument, field: PDFField): FormFieldWidget[] =>
+  field.acroField.getWidgets().map((widget) => {
+    const pageIndex = widgetPageIndex(pdfDoc, widget);
+    return {
+      pageNumber: pageIndex === -1 ? null : pageIndex + 1,
+      rect: widget.getRectangle(),
+    };
+  });
+
+// List every AcroForm field of a PDF with its type, value and widget positions
+const listFormFields = (pdfDoc: PDFDocument): FormFieldInfo[] =>
+  pdfDoc.getForm().getFields().map((field) => ({
+    name: field.getName(),
+    type: fieldType(field),
+    value: fieldValue(field),
+    options: fieldOptions(field),
+    required: field.isRequired(),
+    readOnly: field.isReadOnly(),
+    widgets: describeWidgets(pdfDoc, field),
+  }));
+
+// Set one field's value, throwing with a message suitable for the client if it's not acceptable
+const setFieldValue = (field: PDFField, value: unknown): void => {
+  const isStringList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every((item) => typeof item === 'string');
+
+  if (field.isReadOnly()) {
+    throw new Error('field is read-only.');
+  }
+
+  if (field instanceof PDFTextField) {
+    if (typeof value !== 'string') throw new Error('value must be a string.');
+    field.setText(value); // Throws if longer than the field's max length
+  } else if (field instanceof PDFCheckBox) {
+    if (typeof value !== 'boolean') throw new Error('value must be a boolean.');
+    if (value) {
+      field.check();
+    } else {
+      field.uncheck();
+    }
+  } else if (field instanceof PDFRadioGroup) {
+    if (typeof value !== 'string') throw new Error('value must be one of the options.');
+    field.select(value); // Throws for unknown options
+  } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    if (typeof value !== 'string' && !isStringList(value)) throw new Error('value must be a string or an array of strings.');
+    // pdf-lib silently turns the field editable or multi-select to accept a value; don't let clients change the form
+    const selected = typeof value === 'string' ? [value] : value;
+    const options = field.getOptions();
+    const allowsCustom = field instanceof PDFDropdown && field.isEditable();
+    if (!allowsCustom && selected.some((option) => !options.includes(option))) {
+      throw new Error(`value must be one of: ${options.join(', ')}.`);
+    }
+    if (selected.length > 1 && !field.isMultiselect()) {
+      throw new Error('only one option may be selected.');
+    }
+    field.select(selected);
+  } else if (field instanceof PDFSignature) {
+    throw new Error('signature fields are signed through the sign endpoint.');
+  } else {
+    throw new Error('this type of field cannot be filled.');
+  }
+};
+
+// Fill AcroForm fields by name. Every value is checked before the caller saves anything;
+// sets a 400 status and throws on the first field that can't be filled.
+const fillFormFields = (pdfDoc: PDFDocument, values: Record<string, unknown>, res: Response): string[] => {
+  const form = pdfDoc.getForm();
+
+  return Object.entries(values).map(([name, value]) => {
+    const field = form.getFieldMaybe(name);
+
+    if (!field) {
+      res.status(400);
+      throw new Error(`Form field "${name}" does not exist in this document.`);
+    }
+
+    try {
+      setFieldValue(field, value);
+    } catch (error) {
+      res.status(400);
+      throw new Error(`Form field "${name}": ${error instanceof Error ? error.message : error}`);
+    }
+
+    return name;
+  });
+};
+
+// Flatten the form into the page content so values can no longer be edited.
+// pdf-lib can only flatten widgets that have an appearance stream, which unsigned
+// signature fields and some third-party forms lack; those get an empty one first.
+const flattenForm = (pdfDoc: PDFDocument): void => {
+  const form = pdfDoc.getForm();
+  form.updateFieldAppearances();
+
+  form.getFields().forEach((field) => {
+    field.acroField.getWidgets().forEach((widget) => {
+      const appearance = widget.AP()?.get(PDFName.of('N'));
+      const isStateDict = field instanceof PDFCheckBox || field instanceof PDFRadioGroup;
+      if (!(appearance instanceof PDFRef) && !(isStateDict && appearance)) {
+        const { width, height } = widget.getRectangle();
+        widget.setNormalAppearance(
+          pdfDoc.context.register(
+            pdfDoc.context.stream('', { Type: 'XObject', Subtype: 'Form', BBox: [0, 0, width, height] })
+          )
+        );
+      }
+    });
+  });
+
+  form.flatten({ updateFieldAppearances: false });
+};
+
+// Turn signatures aimed at existing signature widgets into regular fields whose position
+// and size are taken from the widget, so the signature lands exactly inside the box.
+// Sets a 400 status and throws if a name doesn't match a usable signature field.
+const snapToSignatureWidgets = (
+  pdfDoc: PDFDocument,
+  signatures: FormFieldSignature[],
+  res: Response
+): SigningField[] => {
+  const form = pdfDoc.getForm();
+  const pages = pdfDoc.getPages();
+
+  return signatures.map((signature) => {
+    const field = form.getFieldMaybe(signature.formField);
+
+    if (!(field instanceof PDFSignature)) {
+      res.status(400);
+      throw new Error(`Form field "${signature.formField}" is not a signature field in this document.`);
+    }
+
+    // The first visible widget; fields with several widgets are signed in their first box
+    const placement = field.acroField.getWidgets()
+      .map((widget) => ({ pageIndex: widgetPageIndex(pdfDoc, widget), rect: widget.getRectangle() }))
+      .find(({ pageIndex, rect }) => pageIndex !== -1 && rect.width > 0 && rect.height > 0);
+
+    if (!placement) {
+      res.status(400);
+      throw new Error(`Form field "${signature.formField}" has no visible box to sign in.`);
+    }
+
+    // The widget's box on the page as displayed, where signing fields are positioned
+    const frame = displayFrame(pages[placement.pageIndex]);
+    const box = frame.toDisplayRect(placement.rect);
+    return {
+      type: signature.type,
+      signatureType: signature.signatureType,
+      value: signature.value,
+      savedSignatureId: signature.savedSignatureId,
+      fontSize: signature.fontSize,
+      font: signature.font,
+      color: signature.color,
+      pageNumber: placement.pageIndex + 1,
+      position: { x: box.x, y: frame.height - (box.y + box.height) },
+      units: 'points',
+      fitTo: { width: box.width, height: box.height },
+      formField: signature.formField,
+    };
+  });
+};
+
+export { fillFormFields, flattenForm, listFormFields, snapToSignatureWidgets };
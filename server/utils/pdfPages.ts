@@ -0,0 +1,150 @@
+// server/utils/pdfPages.ts
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { degrees, PDFDocument, PDFSignature } from 'pdf-lib';
+import { IDocument } from '../models/Document';
+import { IPlacedField } from '../models/PlacedField';
+import { displayFrame } from './pageGeometry';
+
+export const ROTATION_ANGLES = [90, 180, 270, -90, -180, -270];
+
+// Parse a page selection: an array of 1-based page numbers or a string like "1,3-5".
+// Duplicates are dropped, the order given is kept. Sets a 400 status and throws if the
+// selection is empty or names a page the document doesn't have.
+const parsePageNumbers = (value: unknown, pageCount: number, res: Response, label = 'pages'): number[] => {
+  let pages: unknown[];
+  if (Array.isArray(value)) {
+    pages = value;
+  } else if (typeof value === 'string') {
+    // Parts that aren't a number or a valid range are kept as text, to be reported below
+    pages = value.split(',').flatMap((part): unknown[] => {
+      const text = part.trim();
+      if (/^\d+$/.test(text)) return [Number(text)];
+      const range = /^(\d+)\s*-\s*(\d+)$/.exec(text);
+      const [from, to] = range ? [Number(range[1]), Number(range[2])] : [0, -1];
+      return from >= 1 && from <= to && to <= pageCount ? Array.from({ length: to - from + 1 }, (_, i) => from + i) : [text];
+    });
+  } else {
+    pages = [];
+  }
+
+  if (pages.length === 0) {
+    res.status(400);
+    throw new Error(`${label} must list page numbers, as an array or a string like "1,3-5".`);
+  }
+
+  const invalid = pages.find((page) => !Number.isInteger(page) || (page as number) < 1 || (page as number) > pageCount);
+  if (invalid !== undefined) {
+    res.status(400);
+    throw new Error(`${label} must be page numbers from 1 to ${pageCount}; got ${JSON.stringify(invalid)}.`);
+  }
+
+  return [...new Set(pages as number[])];
+};
+
+// Turn pages clockwise by a multiple of 90 degrees, on top of any rotation they already have.
+// Placed fields are positioned on the page as displayed, so the ones on turned pages are moved
+// along with it: their corner stays on the same spot of the page, in the turned page's pixels.
+const rotatePdfPages = (
+  pdfDoc: PDFDocument,
+  pageNumbers: number[],
+  angle: number,
+  fields: IPlacedField[] = []
+): void => {
+  pageNumbers.forEach((pageNumber) => {
+    const page = pdfDoc.getPage(pageNumber - 1);
+    const before = displayFrame(page);
+    page.setRotation(degrees((((page.getRotation().angle + angle) % 360) + 360) % 360));
+    const after = displayFrame(page);
+    const quarterTurn = Math.abs(angle) % 180 === 90;
+
+    fields
+      .filter((field) => field.pageNumber === pageNumber)
+      .forEach((field) => {
+        const pixels = field.pdfPageDimensions;
+        const point = before.toPageSpace(
+          (field.position.x * before.width) / pixels.width,
+          before.height - (field.position.y * before.height) / pixels.height
+        );
+        const turned = after.toDisplayRect({ ...point, width: 0, height: 0 });
+        const turnedPixels = quarterTurn ? { width: pixels.height, height: pixels.width } : { ...pixels };
+
+        field.position = {
+          x: (turned.x * turnedPixels.width) / after.width,
+          y: ((after.height - turned.y) * turnedPixels.height) / after.height,
+        };
+        field.pdfPageDimensions = turnedPixels;
+      });
+  });
+};
+
+// Remove pages. Form fields whose widgets sat on them are left without a page.
+const deletePdfPages = (pdfDoc: PDFDocument, pageNumbers: number[]): void => {
+  [...pageNumbers].sort((a, b) => b - a).forEach((pageNumber) => pdfDoc.removePage(pageNumber - 1));
+};
+
+// Put the pages in a new order, given as the old page numbers in their new positions.
+// The pages are moved within the same file, so forms, links and metadata are kept.
+const reorderPdfPages = (pdfDoc: PDFDocument, order: number[]): void => {
+  const pages = pdfDoc.getPages();
+  for (let index = pages.length - 1; index >= 0; index--) {
+    pdfDoc.removePage(index);
+  }
+  order.forEach((pageNumber) => pdfDoc.addPage(pages[pageNumber - 1]));
+};
+
+// Copy pages, in the order given, from one or more PDFs into a new one
+const copyPagesToNewPdf = async (sources: { pdfDoc: PDFDocument; pageNumbers: number[] }[]): Promise<PDFDocument> => {
+  const target = await PDFDocument.create();
+  for (const { pdfDoc, pageNumbers } of sources) {
+    const pages = await target.copyPages(pdfDoc, pageNumbers.map((pageNumber) => pageNumber - 1));
+    pages.forEach((page) => target.addPage(page));
+  }
+  return target;
+};
+
+// Follow placed fields to the new numbers of their pages after pages were deleted or
+// moved (newPageNumber returns undefined for a page that is gone). Fields on removed
+// pages are dropped; returns how many were.
+const remapPlacedFields = (
+  fields: Types.DocumentArray<IPlacedField>,
+  newPageNumber: (pageNumber: number) => number | undefined
+): number => {
+  const removed = fields.filter((field) => newPageNumber(field.pageNumber) === undefined);
+  removed.forEach((field) => fields.pull(field._id));
+  fields.forEach((field) => {
+    field.pageNumber = newPageNumber(field.pageNumber)!;
+  });
+  return removed.length;
+};
+
+// Whether a document has been signed through the app, or its PDF holds signed signature fields
+// (e.g. it was signed elsewhere before upload). Changing the file would invalidate them.
+const carriesSignatures = (document: IDocument, pdfDoc: PDFDocument): boolean => {
+  if (
+    document.lastSignedAt ||
+    document.versions.some((version) => version.action === 'sign') ||
+    document.signers.some((signer) => signer.status === 'signed')
+  ) {
+    return true;
+  }
+
+  // getForm() would add an empty form to PDFs that have none
+  if (!pdfDoc.catalog.getAcroForm()) {
+    return false;
+  }
+  return pdfDoc
+    .getForm()
+    .getFields()
+    .some((field) => field instanceof PDFSignature && field.acroField.V() !== undefined);
+};
+
+export {
+  carriesSignatures,
+  copyPagesToNewPdf,
+  deletePdfPages,
+  parsePageNumbers,
+  remapPlacedFields,
+  reorderPdfPages,
+  rotatePdfPages,
+};
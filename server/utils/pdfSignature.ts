@@ -0,0 +1,871 @@
+// server/utils/pdfSignature.ts
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { degrees, PDFDocument, PDFFont, rgb } from 'pdf-lib';
+import { getSigningCredentials } from '../config/signing';
+import { IDocument, ISigner } from '../models/Document';
+import { FIELD_TYPES, FieldType, IPlacedField } from '../models/PlacedField';
+import SavedSignature from '../models/SavedSignature';
+import { IUser } from '../models/User';
+import { actorFromRequest, getAuditTrail, recordAuditEvent } from './auditLog';
+import { appendCertificatePage } from './certificate';
+import { saveSignedFile } from './documentFiles';
+import { addDocumentVersion } from './documentVersions';
+import { DEFAULT_FONT, embedFont, isFontId, missingGlyphs } from './fonts';
+import { DEFAULT_DATE_FORMAT, formatDate, isValidTimeZone } from './formatDate';
+import { DisplayFrame, displayFrame, isDimensions, isPoint } from './pageGeometry';
+import { digitallySignPdf } from './pdfDigitalSignature';
+import { FormFieldSignature, snapToSignatureWidgets } from './pdfForm';
+import { completesSigning, isSigningComplete } from './signingWorkflow';
+import { readStoredFile } from './storage';
+
+// What field positions and sizes are measured in, always from the top-left of the page as
+// displayed (crop box, after rotation; see GET /api/docs/:id/pages):
+// - pixels: of the page as the client rendered it, whose size is sent as pdfPageDimensions
+// - points: PDF points
+// - fraction: of the page's width and height, from 0 to 1
+export type CoordinateUnits = 'pixels' | 'points' | 'fraction';
+
+const COORDINATE_UNITS: CoordinateUnits[] = ['pixels', 'points', 'fraction'];
+const MAX_FIELDS = 100;
+const MAX_TEXT_LENGTH = 1000;
+
+// A field to stamp onto the PDF
+export interface SigningField {
+  type: FieldType;
+  pageNumber: number; // 1-based
+  position: { x: number; y: number }; // Top-left of the field on the displayed page, in units
+  units: CoordinateUnits;
+  pdfPageDimensions?: { width: number; height: number }; // Size of the rendered page on the frontend (pixels only)
+  size?: { width: number; height: number }; // Box to draw the field in, in units (defaults depend on the type)
+  signatureType?: 'draw' | 'upload' | 'text'; // signature and initials only
+  value?: string; // Image data URL (draw/upload) or text (typed signature, initials, text, name override)
+  savedSignatureId?: string; // signature and initials only: a saved signature ID, or 'default', instead of a value
+  textStyle?: { font: string; color: string }; // Typed signatures from the library
+  checked?: boolean; // checkbox only
+  dateFormat?: string; // date only, e.g. 'YYYY-MM-DD'
+  timeZone?: string; // date only, IANA name (defaults to UTC)
+  fontSize?: number | 'fit'; // Text-based fields: points, or 'fit' to fill the field's box
+  font?: string; // Text-based fields: a font ID from GET /api/fonts (overrides a saved signature's style)
+  color?: string; // Text-based fields: hex, e.g. '#1a237e'
+  formField?: string; // Name of the signature widget the field was snapped to
+  fitTo?: { width: number; height: number }; // Box (in PDF points) the signature is scaled to fit, when there is no size
+}
+
+// Values for a field already placed on the document (e.g. from a template)
+export interface PlacedFieldValue {
+  fieldId: string;
+  signatureType?: 'draw' | 'upload' | 'text';
+  value?: string;
+  savedSignatureId?: string;
+  checked?: boolean;
+  timeZone?: string;
+}
+
+// Everything applied to the document in one signing pass
+export interface SigningRequest {
+  fields: SigningField[]; // Fields positioned by the client
+  placedFields: PlacedFieldValue[]; // Values for fields placed ahead of time, resolved against the document
+  formFields: FormFieldSignature[]; // Signatures for signature widgets already in the PDF, resolved against the file
+
+  digitalSignature?: boolean; // Also embed a PKCS#7 signature with the server certificate (only when completing the document)
+}
+
+// Values filled in by the server rather than the client
+export interface SigningContext {
+  signerName?: string;
+  signedAt: Date;
+}
+
+// A field as it arrives in a request body: what a SigningField holds (or a pre-placed field's ID),
+// none of it checked yet
+type UncheckedField = { [K in keyof SigningField | 'fieldId']?: unknown };
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+// Check a field's position, size and units, where units and pdfPageDimensions may come from
+// the request as a whole. Returns an error message, or null if they are valid.
+const placementError = (
+  position: unknown,
+  size: unknown,
+  units: unknown,
+  pdfPageDimensions: unknown
+): string | null => {
+  if (!COORDINATE_UNITS.includes(units as CoordinateUnits)) {
+    return `units must be one of ${COORDINATE_UNITS.join(', ')}.`;
+  }
+  if (!isPoint(position)) {
+    return 'position must be an object with numeric x and y.';
+  }
+  if (units === 'pixels' && !isDimensions(pdfPageDimensions)) {
+    return 'pdfPageDimensions must be an object with positive numeric width and height.';
+  }
+  if (size !== undefined && !isDimensions(size)) {
+    return 'size must be an object with positive numeric width and height.';
+  }
+  const box = isDimensions(size) ? size : { width: 0, height: 0 };
+  if (
+    units === 'fraction' &&
+    [position.x, position.y, box.width, box.height].some((value) => value < 0 || value > 1)
+  ) {
+    return 'position and size must be fractions of the page between 0 and 1.';
+  }
+  return null;
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const isImageDataUrl = (value: string): boolean => /^data:image\/(png|jpe?g);base64,/.test(value);
+
+const isSavedSignatureId = (value: unknown): value is string =>
+  value === 'default' || (typeof value === 'string' && Types.ObjectId.isValid(value));
+
+// Check the font, size and color of text drawn for a field. Returns an error message, or null if they are valid.
+const textStyleError = (field: UncheckedField): string | null => {
+  const { fontSize, font, color } = field;
+  if (fontSize !== undefined && fontSize !== 'fit' && (typeof fontSize !== 'number' || fontSize < 6 || fontSize > 72)) {
+    return 'fontSize must be a number between 6 and 72, or "fit".';
+  }
+  if (fontSize === 'fit' && field.size === undefined && field.formField === undefined) {
+    return 'fontSize "fit" needs a size to fit the text into.';
+  }
+  if (font !== undefined && !isFontId(font)) {
+    return 'font must be the id of a font listed by GET /api/fonts.';
+  }
+  if (color !== undefined && (typeof color !== 'string' || !HEX_COLOR.test(color))) {
+    return 'color must be a hex color such as #1a237e.';
+  }
+  return null;
+};
+
+// Validate the original single-signature request body and turn it into one signature field.
+// Sets a 400 status and throws on invalid input.
+const validateSignaturePayload = (body: Record<string, unknown>, res: Response): SigningField => {
+  const {
+    signatureData,
+    signaturePosition,
+    pdfPageDimensions,
+    pageNumber,
+    signatureType,
+    signatureFileExtension,
+    savedSignatureId,
+    units = 'pixels',
+    signatureSize,
+    font,
+    color,
+    fontSize,
+  } = body;
+
+  // A saved signature stands in for signatureData, signatureType and signatureFileExtension
+  const usesSavedSignature = savedSignatureId !== undefined;
+  if (usesSavedSignature && !isSavedSignatureId(savedSignatureId)) {
+    res.status(400);
+    throw new Error('Invalid savedSignatureId. Must be a saved signature ID or "default".');
+  }
+
+  if (!usesSavedSignature && (!signatureData || typeof signatureData !== 'string' || signatureData.trim() === '')) {
+    res.status(400);
+    throw new Error('Missing or empty signature data.');
+  }
+
+  if (!isPoint(signaturePosition)) {
+    res.status(400);
+    throw new Error('Invalid signaturePosition. Must be an object with numeric x and y.');
+  }
+
+  if (units === 'pixels' && !isDimensions(pdfPageDimensions)) {
+    res.status(400);
+    throw new Error('Invalid PDF container dimensions. Must be an object with positive numeric width and height.');
+  }
+
+  const placement = placementError(signaturePosition, signatureSize, units, pdfPageDimensions);
+  if (placement) {
+    res.status(400);
+    throw new Error(`Invalid signature placement: ${placement}`);
+  }
+
+  const style = textStyleError({ font, color, fontSize, size: signatureSize });
+  if (style) {
+    res.status(400);
+    throw new Error(`Invalid signature style: ${style}`);
+  }
+
+  if (typeof pageNumber !== 'number' || pageNumber < 1) {
+    res.status(400);
+    throw new Error('Invalid page number. Must be a positive integer.');
+  }
+
+  if (!usesSavedSignature && !['draw', 'upload', 'text'].includes(signatureType as string)) {
+    res.status(400);
+    throw new Error('Invalid signature type. Must be "draw", "upload", or "text".');
+  }
+
+  // Validate signatureData format based on type
+  if (!usesSavedSignature && (signatureType === 'draw' || signatureType === 'upload')) {
+    if (typeof signatureData !== 'string' || !signatureData.startsWith('data:image/')) {
+      res.status(400);
+      throw new Error('Image signature data must be a valid data URL (e.g., data:image/png;base64,...).');
+    }
+    // Ensure signatureFileExtension is provided and valid for image types
+    if (!signatureFileExtension || typeof signatureFileExtension !== 'string' || !['png', 'jpeg', 'jpg'].includes(signatureFileExtension.toLowerCase())) {
+      res.status(400);
+      throw new Error('Missing or invalid signature file extension for image types. Must be "png" or "jpeg".');
+    }
+  }
+
+  const field: UncheckedField = {
+    type: 'signature',
+    pageNumber,
+    position: signaturePosition,
+    units,
+    pdfPageDimensions,
+    size: signatureSize,
+    signatureType,
+    value: signatureData,
+    savedSignatureId,
+    font,
+    color,
+    fontSize,
+  };
+  return field as SigningField; // Checked above
+};
+
+// Check one entry of the `fields` array, whose units and pdfPageDimensions may come from the
+// request as a whole. Returns an error message, or null if it is valid.
+const fieldError = (
+  value: unknown,
+  defaults: { units?: unknown; pdfPageDimensions?: unknown } = {}
+): string | null => {
+  if (!isObject(value)) {
+    return 'must be an object.';
+  }
+  const field: UncheckedField = value;
+  if (!FIELD_TYPES.includes(field.type as FieldType)) {
+    return `type must be one of ${FIELD_TYPES.join(', ')}.`;
+  }
+  if (typeof field.pageNumber !== 'number' || !Number.isInteger(field.pageNumber) || field.pageNumber < 1) {
+    return 'pageNumber must be a positive integer.';
+  }
+  const placement = placementError(
+    field.position,
+    field.size,
+    field.units ?? defaults.units ?? 'pixels',
+    field.pdfPageDimensions ?? defaults.pdfPageDimensions
+  );
+  if (placement) {
+    return placement;
+  }
+  const style = textStyleError(field);
+  if (style) {
+    return style;
+  }
+  if (field.value !== undefined && (typeof field.value !== 'string' || field.value.length > MAX_TEXT_LENGTH && !isImageDataUrl(field.value))) {
+    return `value must be a string of at most ${MAX_TEXT_LENGTH} characters.`;
+  }
+
+  switch (field.type as FieldType) {
+    case 'signature':
+    case 'initials':
+      if (field.savedSignatureId !== undefined) {
+        if (!isSavedSignatureId(field.savedSignatureId)) {
+          return 'savedSignatureId must be a saved signature ID or "default".';
+        }
+        break;
+      }
+      if (!['draw', 'upload', 'text'].includes(field.signatureType as string)) {
+        return 'signatureType must be "draw", "upload", or "text".';
+      }
+      if (typeof field.value !== 'string' || field.value.trim() === '') {
+        return 'value is required.';
+      }
+      if (field.signatureType !== 'text' && !isImageDataUrl(field.value)) {
+        return 'value must be a PNG or JPEG data URL (e.g., data:image/png;base64,...).';
+      }
+      break;
+    case 'text':
+      if (typeof field.value !== 'string' || field.value.trim() === '') {
+        return 'value is required.';
+      }
+      break;
+    case 'checkbox':
+      if (typeof field.checked !== 'boolean') {
+        return 'checked must be a boolean.';
+      }
+      break;
+    case 'date':
+      if (field.dateFormat !== undefined && (typeof field.dateFormat !== 'string' || field.dateFormat.length > 40)) {
+        return 'dateFormat must be a string of at most 40 characters.';
+      }
+      if (field.timeZone !== undefined && (typeof field.timeZone !== 'string' || !isValidTimeZone(field.timeZone))) {
+        return 'timeZone must be a valid IANA time zone name.';
+      }
+      break;
+    case 'name':
+      break;
+  }
+
+  return null;
+};
+
+// Check an entry of the `fields` array that targets a signature widget by name.
+// Returns an error message, or null if it is valid.
+const formFieldError = (field: UncheckedField): string | null => {
+  if (typeof field.formField !== 'string' || field.formField.trim() === '') {
+    return 'formField must be a non-empty string.';
+  }
+  if (field.type !== 'signature' && field.type !== 'initials') {
+    return 'only signature and initials fields can be placed into a form field.';
+  }
+  // Placement comes from the widget, so only the signature itself is left to check
+  return fieldError({ ...field, pageNumber: 1, position: { x: 0, y: 0 }, units: 'points', size: undefined });
+};
+
+// Validate a signing request. Accepts either a `fields` array or the original single-signature
+// body. Sets a 400 status and throws on invalid input, before anything is written.
+const validateSigningRequest = (body: unknown, res: Response): SigningRequest => {
+  const request = isObject(body) ? body : {};
+  const { fields, pdfPageDimensions, units, digitalSignature } = request;
+
+  if (digitalSignature !== undefined && typeof digitalSignature !== 'boolean') {
+    res.status(400);
+    throw new Error('digitalSignature must be a boolean.');
+  }
+
+  if (digitalSignature && !getSigningCredentials()) {
+    res.status(400);
+    throw new Error('Digital signatures are not configured on this server.');
+  }
+
+  if (fields === undefined) {
+    const field = validateSignaturePayload(request, res);
+    return { fields: [field], placedFields: [], formFields: [], digitalSignature };
+  }
+
+  if (!Array.isArray(fields) || fields.length === 0 || fields.length > MAX_FIELDS) {
+    res.status(400);
+    throw new Error(`fields must be a non-empty array of at most ${MAX_FIELDS} fields.`);
+  }
+
+  const validated: SigningField[] = [];
+  const placedFields: PlacedFieldValue[] = [];
+  const formFields: FormFieldSignature[] = [];
+
+  fields.forEach((value: unknown, index: number) => {
+    const field: UncheckedField = isObject(value) ? value : {};
+
+    // Pre-placed fields only carry values here; they are checked once the document is loaded
+    if (field.fieldId !== undefined) {
+      if (typeof field.fieldId !== 'string') {
+        res.status(400);
+        throw new Error(`Field ${index + 1}: fieldId must be a string.`);
+      }
+      const placedValue: UncheckedField = {
+        fieldId: field.fieldId,
+        signatureType: field.signatureType,
+        value: field.value,
+        savedSignatureId: field.savedSignatureId,
+        checked: field.checked,
+        timeZone: field.timeZone,
+      };
+      placedFields.push(placedValue as PlacedFieldValue); // Checked in resolvePlacedFields
+      return;
+    }
+
+    // Signatures aimed at an existing signature widget take their position from the PDF
+    if (field.formField !== undefined) {
+      const error = formFieldError(field);
+      if (error) {
+        res.status(400);
+        throw new Error(`Field ${index + 1}: ${error}`);
+      }
+      const formField: UncheckedField = {
+        formField: field.formField,
+        type: field.type,
+        signatureType: field.signatureType,
+        value: field.value,
+        savedSignatureId: field.savedSignatureId,
+        fontSize: field.fontSize,
+        font: field.font,
+        color: field.color,
+      };
+      formFields.push(formField as FormFieldSignature); // Checked by formFieldError
+      return;
+    }
+
+    const error = fieldError(value, { units, pdfPageDimensions });
+    if (error) {
+      res.status(400);
+      throw new Error(`Field ${index + 1}: ${error}`);
+    }
+    const checked: UncheckedField = {
+      type: field.type,
+      pageNumber: field.pageNumber,
+      position: field.position,
+      units: field.units ?? units ?? 'pixels',
+      pdfPageDimensions: field.pdfPageDimensions ?? pdfPageDimensions,
+      size: field.size,
+      signatureType: field.signatureType,
+      value: field.value,
+      savedSignatureId: field.savedSignatureId,
+      checked: field.checked,
+      dateFormat: field.dateFormat,
+      timeZone: field.timeZone,
+      fontSize: field.fontSize,
+      font: field.font,
+      color: field.color,
+    };
+    validated.push(checked as SigningField); // Checked by fieldError
+  });
+
+  return { fields: validated, placedFields, formFields, digitalSignature };
+};
+
+// Merge the values for pre-placed fields with their stored placement and check them.
+// The signer may only fill fields assigned to them (or to nobody), and must fill every
+// required field assigned to them. Sets a 400 status and throws otherwise.
+const resolvePlacedFields = (
+  document: IDocument,
+  request: SigningRequest,
+  res: Response,
+  signer?: ISigner
+): { fields: SigningField[]; filled: IPlacedField[] } => {
+  const isAssignedToCaller = (field: IPlacedField) =>
+    !field.signer || (!!signer && field.signer.toString() === signer._id.toString());
+
+  const filled: IPlacedField[] = [];
+  const fields = request.placedFields.map((placedValue): SigningField => {
+    const placed = document.fields.id(placedValue.fieldId);
+
+    if (!placed || !isAssignedToCaller(placed)) {
+      res.status(400);
+      throw new Error(`Field ${placedValue.fieldId} is not a field you can fill on this document.`);
+    }
+    if (placed.filledAt) {
+      res.status(400);
+      throw new Error(`Field ${placedValue.fieldId} has already been filled.`);
+    }
+
+    const merged = {
+      type: placed.type,
+      pageNumber: placed.pageNumber,
+      position: placed.position,
+      units: 'pixels' as CoordinateUnits,
+      pdfPageDimensions: placed.pdfPageDimensions,
+      dateFormat: placed.dateFormat,
+      fontSize: placed.fontSize,
+      ...placedValue,
+    };
+    const error = fieldError(merged);
+    if (error) {
+      res.status(400);
+      throw new Error(`Field ${placed.label || placedValue.fieldId}: ${error}`);
+    }
+
+    filled.push(placed);
+    return merged;
+  });
+
+  const missing = document.fields.filter(
+    (field) => field.required && !field.filledAt && isAssignedToCaller(field) && !filled.includes(field)
+  );
+  // Required fields only bind signers they were assigned to
+  if (missing.some((field) => field.signer)) {
+    res.status(400);
+    throw new Error(
+      `Missing required fields: ${missing.filter((field) => field.signer).map((field) => field.label || field._id).join(', ')}.`
+    );
+  }
+
+  return { fields: [...fields, ...request.fields], filled };
+};
+
+// Where a field lands on the page as displayed, in PDF points
+interface FieldGeometry {
+  frame: DisplayFrame; // Converts displayed positions to the page's own coordinates
+  x: number; // Left edge
+  top: number; // Top edge (y grows upwards)
+  scaleX: number; // Points per unit of the field's position
+  scaleY: number;
+  fitTo?: { width: number; height: number }; // Box to fit the content into (explicit size or signature widget)
+}
+
+// Default width of image signatures without a size: frontend px (as per frontend CSS),
+// scaled like the position, or points for the other units
+const IMAGE_DISPLAY_WIDTH: Record<string, number> = { signature: 150, initials: 75 };
+// drawX options placing content at a displayed point, turned to read upright on rotated pages
+const placeAt = (geometry: FieldGeometry, x: number, y: number) => ({
+  ...geometry.frame.toPageSpace(x, y),
+  rotate: degrees(geometry.frame.rotation),
+});
+
+// Points per unit of a field's position and size on the displayed page
+const unitScale = (field: SigningField, frame: DisplayFrame): { scaleX: number; scaleY: number } => {
+  switch (field.units) {
+    case 'points':
+      return { scaleX: 1, scaleY: 1 };
+    case 'fraction':
+      return { scaleX: frame.width, scaleY: frame.height };
+    default:
+      return {
+        scaleX: frame.width / field.pdfPageDimensions!.width,
+        scaleY: frame.height / field.pdfPageDimensions!.height,
+      };
+  }
+};
+
+// Default font size for text-based fields
+const DEFAULT_FONT_SIZE: Record<FieldType, number> = {
+  signature: 24,
+  initials: 16,
+  date: 12,
+  name: 12,
+  text: 12,
+  checkbox: 12,
+};
+
+const drawImageField = async (pdfDoc: PDFDocument, field: SigningField, geometry: FieldGeometry) => {
+  const dataUrl = field.value!;
+  const imageBytes = Buffer.from(dataUrl.split(',')[1], 'base64');
+
+  let embeddedImage;
+  if (dataUrl.startsWith('data:image/png')) {
+    embeddedImage = await pdfDoc.embedPng(imageBytes);
+  } else if (dataUrl.startsWith('data:image/jpeg') || dataUrl.startsWith('data:image/jpg')) {
+    embeddedImage = await pdfDoc.embedJpg(imageBytes);
+  } else {
+    throw new Error('Unsupported signature image format. Only PNG and JPEG are supported.');
+  }
+
+  if (geometry.fitTo) {
+    // Fit inside the widget's box, keeping the aspect ratio, centred in the spare space
+    const { width: boxWidth, height: boxHeight } = geometry.fitTo;
+    const { width, height } = embeddedImage.scaleToFit(boxWidth, boxHeight);
+    geometry.frame.page.drawImage(embeddedImage, {
+      ...placeAt(geometry, geometry.x + (boxWidth - width) / 2, geometry.top - boxHeight + (boxHeight - height) / 2),
+      width,
+      height,
+    });
+    return;
+  }
+
+  // Scale the frontend display size (fixed width, height from the aspect ratio) to PDF units
+  const [scaleX, scaleY] = field.units === 'pixels' ? [geometry.scaleX, geometry.scaleY] : [1, 1];
+  const displayWidth = IMAGE_DISPLAY_WIDTH[field.type];
+  const displayHeight = embeddedImage.height * (displayWidth / embeddedImage.width);
+  const width = displayWidth * scaleX;
+  const height = displayHeight * scaleY;
+
+  // PDF-lib's drawImage uses the bottom-left corner
+  geometry.frame.page.drawImage(embeddedImage, { ...placeAt(geometry, geometry.x, geometry.top - height), width, height });
+};
+
+const drawTextField = (text: string, font: PDFFont, size: number, geometry: FieldGeometry, color = rgb(0, 0, 0)) => {
+  // pdf-lib's drawText uses the baseline of the text, so move down by the text height
+  geometry.frame.page.drawText(text, {
+    ...placeAt(geometry, geometry.x, geometry.top - font.heightAtSize(size)),
+    font,
+    size,
+    color,
+  });
+};
+
+// '#rrggbb' to a pdf-lib color
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+};
+
+// The font size for a field's text: as requested but shrunk to fit its box if it has one,
+// or as large as the box allows with fontSize 'fit'
+const textFontSize = (text: string, font: PDFFont, field: SigningField, box?: { width: number; height: number }): number => {
+  const requested = typeof field.fontSize === 'number' ? field.fontSize : DEFAULT_FONT_SIZE[field.type];
+  if (!box) {
+    return requested;
+  }
+  const largest = Math.min(box.height / font.heightAtSize(1), box.width / font.widthOfTextAtSize(text, 1));
+  return field.fontSize === 'fit' ? largest : Math.min(requested, largest);
+};
+
+const drawCheckboxField = (checked: boolean, size: number, geometry: FieldGeometry) => {
+  const { frame, x, top } = geometry;
+  const y = top - size;
+
+  frame.page.drawRectangle({ ...placeAt(geometry, x, y), width: size, height: size, borderColor: rgb(0, 0, 0), borderWidth: 1 });
+
+  if (checked) {
+    const thickness = Math.max(1, size / 8);
+    const point = (dx: number, dy: number) => frame.toPageSpace(x + size * dx, y + size * dy);
+    frame.page.drawLine({ start: point(0.2, 0.5), end: point(0.4, 0.2), thickness });
+    frame.page.drawLine({ start: point(0.4, 0.2), end: point(0.8, 0.8), thickness });
+  }
+};
+
+// Draw every field onto the PDF. Page numbers are checked for all fields before anything
+// is drawn. Sets a 400 status and throws if a field can't be applied; since nothing is
+// saved until the caller serializes the PDF, a failure leaves the stored file untouched.
+const stampFields = async (
+  pdfDoc: PDFDocument,
+  fields: SigningField[],
+  context: SigningContext,
+  res: Response
+): Promise<void> => {
+  const pages = pdfDoc.getPages();
+
+  fields.forEach((field, index) => {
+    if (field.pageNumber > pages.length) {
+      res.status(400);
+      throw new Error(`Field ${index + 1}: page number ${field.pageNumber} is out of bounds. Document has ${pages.length} pages.`);
+    }
+  });
+
+  // Embed each font once, however many fields use it
+  const fonts = new Map<string, { name: string; font: PDFFont }>();
+  const fontFor = async (id: string) => {
+    if (!fonts.has(id)) {
+      fonts.set(id, await embedFont(pdfDoc, id));
+    }
+    return fonts.get(id)!;
+  };
+
+  for (const [index, field] of fields.entries()) {
+    const frame = displayFrame(pages[field.pageNumber - 1]); // PDF-LIB pages are 0-indexed
+
+    // Scale the position (the top-left of the placed element) and size to PDF points
+    // on the page as displayed, then let the frame map them onto the page itself
+    const { scaleX, scaleY } = unitScale(field, frame);
+    const geometry: FieldGeometry = {
+      frame,
+      x: field.position.x * scaleX,
+      top: frame.height - field.position.y * scaleY,
+      scaleX,
+      scaleY,
+      fitTo: field.size ? { width: field.size.width * scaleX, height: field.size.height * scaleY } : field.fitTo,
+    };
+
+    // Text is drawn in the requested font and color, else in the saved signature's style,
+    // else in black Helvetica. Fonts that can't show every character are refused.
+    const drawText = async (text: string) => {
+      const { name, font } = await fontFor(field.font ?? field.textStyle?.font ?? DEFAULT_FONT);
+      const missing = missingGlyphs(font, text);
+      if (missing.length > 0) {
+        throw new Error(
+          `The font ${name} has no glyphs for ${missing.join(' ')}; choose a font that supports this script (see GET /api/fonts).`
+        );
+      }
+      const color = field.color ?? field.textStyle?.color;
+      drawTextField(text, font, textFontSize(text, font, field, geometry.fitTo), geometry, color ? hexToRgb(color) : undefined);
+    };
+
+    try {
+      switch (field.type) {
+        case 'signature':
+        case 'initials':
+          if (field.signatureType === 'text') {
+            await drawText(field.value!);
+          } else {
+            await drawImageField(pdfDoc, field, geometry);
+          }
+          break;
+        case 'date':
+          await drawText(formatDate(context.signedAt, field.dateFormat || DEFAULT_DATE_FORMAT, field.timeZone));
+          break;
+        case 'name': {
+          const name = context.signerName || field.value;
+          if (!name) {
+            throw new Error('No signer name is known; provide it as value.');
+          }
+          await drawText(name);
+          break;
+        }
+        case 'text':
+          await drawText(field.value!);
+          break;
+        case 'checkbox':
+          drawCheckboxField(
+            field.checked!,
+            geometry.fitTo
+              ? Math.min(geometry.fitTo.width, geometry.fitTo.height)
+              : typeof field.fontSize === 'number'
+                ? field.fontSize
+                : DEFAULT_FONT_SIZE.checkbox,
+            geometry
+          );
+          break;
+      }
+    } catch (error) {
+      res.status(400);
+      throw new Error(`Field ${index + 1} (${field.type}): ${error instanceof Error ? error.message : error}`);
+    }
+  }
+};
+
+// Replace references to saved signatures with the stored image or styled text. Only signed-in
+// users have a library; sets a 400 status and throws if a reference can't be used.
+const resolveSavedSignatures = async (
+  fields: SigningField[],
+  user: IUser | undefined,
+  res: Response
+): Promise<SigningField[]> =>
+  Promise.all(fields.map(async (field): Promise<SigningField> => {
+    if (!field.savedSignatureId) {
+      return field;
+    }
+
+    if (!user) {
+      res.status(400);
+      throw new Error('Saved signatures can only be used when signed in.');
+    }
+
+    const saved = field.savedSignatureId === 'default'
+      ? await SavedSignature.findOne({ user: user._id, kind: field.type, isDefault: true })
+      : await SavedSignature.findOne({ _id: field.savedSignatureId, user: user._id });
+
+    if (!saved) {
+      res.status(400);
+      throw new Error(field.savedSignatureId === 'default'
+        ? `You have no default ${field.type} saved.`
+        : `Saved signature ${field.savedSignatureId} not found.`);
+    }
+
+    if (saved.format === 'text') {
+      return { ...field, signatureType: 'text', value: saved.text, textStyle: saved.style };
+    }
+
+    let png: Buffer;
+    try {
+      png = await readStoredFile(saved.filePath!);
+    } catch (error) {
+      console.error(`Saved signature image missing at ${saved.filePath}:`, error);
+      res.status(400);
+      throw new Error(`The image of saved signature "${saved.name}" is missing; please save it again.`);
+    }
+    // Stored images are already normalized PNGs
+    return { ...field, signatureType: 'upload', value: `data:image/png;base64,${png.toString('base64')}` };
+  }));
+
+// Stamp every field of a signing request onto the current revision of a document in one
+// load/save cycle, store the result as a new signed version and update the document
+// (and signer, if any). Used by both the authenticated sign route and guest signing links.
+const applySignatureToDocument = async (
+  document: IDocument,
+  payload: SigningRequest,
+  req: Request,
+  res: Response,
+  signer?: ISigner
+): Promise<void> => {
+  // pdf-lib rewrites the whole file on save, which invalidates the PKCS#7 signature of any earlier
+  // revision (see pdfDigitalSignature.ts). So only the signature completing the document, after
+  // which the file stops changing, may be digital; earlier signers' ones would be lost.
+  if (payload.digitalSignature && (document.status === 'signed' || (signer && !completesSigning(document, signer)))) {
+    res.status(400);
+    throw new Error(
+      'Only the signature that completes the document can be digital; sign without digitalSignature until then.'
+    );
+  }
+
+  // Read the current version of the PDF (could be original or already signed)
+  const existingPdfBytes = await readStoredFile(document.filePath);
+  const pdfDoc = await PDFDocument.load(existingPdfBytes);
+
+  const previousStatus = document.status;
+  const signedAt = new Date();
+
+  const { fields: placed, filled } = resolvePlacedFields(document, payload, res, signer);
+  const fields = await resolveSavedSignatures(
+    [...placed, ...snapToSignatureWidgets(pdfDoc, payload.formFields, res)],
+    req.user,
+    res
+  );
+  if (fields.length === 0) {
+    res.status(400);
+    throw new Error('No fields to sign.');
+  }
+
+  await stampFields(pdfDoc, fields, { signerName: signer?.name || req.user?.name, signedAt }, res);
+  filled.forEach((field) => {
+    field.filledAt = signedAt;
+  });
+
+  if (signer) {
+    signer.status = 'signed';
+    signer.signedAt = signedAt;
+  }
+  // With signers the document only counts as signed once every required signer has signed
+  if (!signer || isSigningComplete(document)) {
+    document.status = 'signed';
+  }
+
+  // A document that has just been completed gets a certificate of completion
+  // listing its audit trail, ending with this final signature
+  if (previousStatus !== 'signed' && document.status === 'signed') {
+    const trail = await getAuditTrail(document._id as Types.ObjectId);
+    await appendCertificatePage(pdfDoc, document, [
+      ...trail,
+      {
+        action: 'sign',
+        actor: actorFromRequest(req),
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+        createdAt: signedAt,
+      },
+    ]);
+  }
+
+  // The digital signature goes last: any change saved after it would invalidate it
+  const signerEmail = actorFromRequest(req).email;
+  const modifiedPdfBytes = payload.digitalSignature
+    ? await digitallySignPdf(pdfDoc, getSigningCredentials()!, {
+      reason: `Signed by ${signerEmail}`,
+      contactInfo: signerEmail,
+    }, res)
+    : await pdfDoc.save();
+  const { fileName, filePath } = await saveSignedFile(document.originalName, modifiedPdfBytes);
+
+  // Keep the previous file as an earlier version and make the signed file current
+  await addDocumentVersion(document, {
+    fileName,
+    filePath,
+    bytes: modifiedPdfBytes,
+    action: 'sign',
+    actor: actorFromRequest(req),
+    pageCount: pdfDoc.getPageCount(),
+  });
+  document.lastSignedAt = signedAt; // Track when it was signed
+  await document.save();
+
+  await recordAuditEvent(req, document, 'sign', {
+    signerId: signer?._id,
+    fields: fields.map((field) => ({ type: field.type, pageNumber: field.pageNumber, formField: field.formField })),
+    digitalSignature: !!payload.digitalSignature,
+  });
+  if (previousStatus !== document.status) {
+    await recordAuditEvent(req, document, 'status_change', { from: previousStatus, to: document.status });
+  }
+};
+
+// Complete a pending document whose required signers have all signed without a signature being
+// applied now, e.g. after the last signer still pending was removed: mark it signed and add the
+// certificate of completion as a new revision. Records the status change; the caller publishes it.
+const completeDocument = async (document: IDocument, req: Request, reason: string): Promise<void> => {
+  const pdfDoc = await PDFDocument.load(await readStoredFile(document.filePath));
+
+  const previousStatus = document.status;
+  document.status = 'signed';
+  await appendCertificatePage(pdfDoc, document, await getAuditTrail(document._id as Types.ObjectId));
+
+  const bytes = await pdfDoc.save();
+  const { fileName, filePath } = await saveSignedFile(document.originalName, bytes);
+  await addDocumentVersion(document, {
+    fileName,
+    filePath,
+    bytes,
+    action: 'complete',
+    actor: actorFromRequest(req),
+    pageCount: pdfDoc.getPageCount(),
+  });
+  await document.save();
+
+  await recordAuditEvent(req, document, 'status_change', { from: previousStatus, to: 'signed', reason });
+};
+
+export { applySignatureToDocument, completeDocument, stampFields, validateSigningRequest };
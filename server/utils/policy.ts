@@ -0,0 +1,151 @@
+// server/utils/policy.ts
+// Who may do what with documents and organizations. Controllers ask here instead of
+// comparing IDs themselves, so the rules live in one place.
+import { Types } from 'mongoose';
+import { IDocument, ISigner, SharePermission } from '../models/Document';
+import Membership, { IMembership, OrganizationRole } from '../models/Membership';
+import User, { IUser } from '../models/User';
+import { findSignerForUser } from './signingWorkflow';
+
+export type DocumentAction =
+  | 'view'
+  | 'update'
+  | 'sign'
+  | 'manage_signers'
+  | 'view_audit'
+  | 'share'
+  | 'share_manage' // Grant, change or revoke 'manage' shares, which can share in turn
+  | 'delete';
+
+export type OrganizationAction = 'view' | 'update' | 'delete' | 'manage_members' | 'add_documents' | 'list_documents';
+
+// The uploader of a document may do everything with it
+const OWNER_DOCUMENT_ACTIONS: DocumentAction[] = [
+  'view',
+  'update',
+  'sign',
+  'manage_signers',
+  'view_audit',
+  'share',
+  'share_manage',
+  'delete',
+];
+
+// What each role may do with the documents of its organization. Signing a document that
+// has no signers stays with its uploader: admins manage documents but don't sign in someone's name.
+const ROLE_DOCUMENT_ACTIONS: Record<OrganizationRole, DocumentAction[]> = {
+  owner: ['view', 'update', 'manage_signers', 'view_audit', 'share', 'share_manage', 'delete'],
+  admin: ['view', 'update', 'manage_signers', 'view_audit', 'share', 'share_manage', 'delete'],
+  member: ['view'],
+  viewer: ['view'],
+};
+
+// What each share permission allows. Deleting, and handing out 'manage' (so access can't spread
+// without the owner), stay with the owner and organization admins.
+const SHARE_DOCUMENT_ACTIONS: Record<SharePermission, DocumentAction[]> = {
+  view: ['view'],
+  sign: ['view', 'sign'],
+  manage: ['view', 'update', 'manage_signers', 'view_audit', 'share'],
+};
+
+// What each role may do with the organization itself
+const ROLE_ORGANIZATION_ACTIONS: Record<OrganizationRole, OrganizationAction[]> = {
+  owner: ['view', 'update', 'delete', 'manage_members', 'add_documents', 'list_documents'],
+  admin: ['view', 'update', 'manage_members', 'add_documents', 'list_documents'],
+  member: ['view', 'add_documents', 'list_documents'],
+  viewer: ['view', 'list_documents'],
+};
+
+// Completes "Not authorized to ... this document"
+const DOCUMENT_ACTION_PHRASES: Record<DocumentAction, string> = {
+  view: 'view',
+  update: 'update',
+  sign: 'sign',
+  manage_signers: 'manage signers for',
+  view_audit: 'view the audit trail of',
+  share: 'share',
+  share_manage: "grant or revoke 'manage' access to",
+  delete: 'delete',
+};
+
+// Everything a user may do with one document, and on what grounds
+export interface DocumentPermissions {
+  actions: DocumentAction[];
+  isOwner: boolean;
+  role?: OrganizationRole; // The user's role in the document's organization, if a member
+  share?: SharePermission; // The permission the document was shared with the user at, if any
+  signer?: ISigner; // The user's signer entry, if they were asked to sign
+}
+
+// The accepted membership of a user in an organization, if any
+const findActiveMembership = (
+  organizationId: Types.ObjectId | string,
+  userId: Types.ObjectId | string
+): Promise<IMembership | null> => Membership.findOne({ organization: organizationId, user: userId, status: 'active' });
+
+const documentPermissions = async (user: IUser, document: IDocument): Promise<DocumentPermissions> => {
+  const userId = (user._id as Types.ObjectId).toString();
+  const isOwner = document.user.toString() === userId;
+  const signer = findSignerForUser(document, user);
+  const share = (document.shares || []).find((entry) => entry.user.toString() === userId);
+  const membership = document.organization ? await findActiveMembership(document.organization, userId) : null;
+
+  const actions = new Set<DocumentAction>();
+  if (isOwner) {
+    OWNER_DOCUMENT_ACTIONS.forEach((action) => actions.add(action));
+  }
+  if (membership) {
+    ROLE_DOCUMENT_ACTIONS[membership.role].forEach((action) => actions.add(action));
+  }
+  if (share) {
+    SHARE_DOCUMENT_ACTIONS[share.permission].forEach((action) => actions.add(action));
+  }
+  if (signer) {
+    actions.add('view'); // Signers can open what they were asked to sign
+  }
+
+  return { actions: [...actions], isOwner, role: membership?.role, share: share?.permission, signer };
+};
+
+// Everyone who may view a document: its owner, the active members of its organization, the users
+// it is shared with and the signers with an account (matched as in findSignerForUser)
+const documentViewerIds = async (document: IDocument): Promise<string[]> => {
+  const ids = new Set<string>([document.user.toString()]);
+  (document.shares || []).forEach((share) => ids.add(share.user.toString()));
+  document.signers.forEach((signer) => signer.user && ids.add(signer.user.toString()));
+
+  const [members, signerUsers] = await Promise.all([
+    document.organization
+      ? Membership.find({ organization: document.organization, status: 'active' }).distinct('user')
+      : [],
+    document.signers.length > 0
+      ? User.find({
+          email: { $in: document.signers.map((signer) => signer.email) },
+          emailVerified: { $ne: false },
+        }).distinct('_id')
+      : [],
+  ]);
+  [...members, ...signerUsers].forEach((id) => id && ids.add(id.toString()));
+
+  return [...ids];
+};
+
+const canOnDocument = (permissions: DocumentPermissions, action: DocumentAction): boolean =>
+  permissions.actions.includes(action);
+
+const canOnOrganization = (role: OrganizationRole | undefined, action: OrganizationAction): boolean =>
+  !!role && ROLE_ORGANIZATION_ACTIONS[role].includes(action);
+
+// Admins manage everyone below owner; only owners may appoint, change or remove owners
+const canManageRole = (actorRole: OrganizationRole | undefined, targetRole: OrganizationRole): boolean =>
+  actorRole === 'owner' || (actorRole === 'admin' && targetRole !== 'owner');
+
+export {
+  canManageRole,
+  canOnDocument,
+  canOnOrganization,
+  DOCUMENT_ACTION_PHRASES,
+  documentPermissions,
+  documentViewerIds,
+  findActiveMembership,
+};
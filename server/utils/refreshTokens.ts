@@ -0,0 +1,145 @@
+// server/utils/refreshTokens.ts
+import crypto from 'crypto';
+import { CookieOptions, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import RefreshToken, { IRefreshToken } from '../models/RefreshToken';
+import User, { IUser } from '../models/User';
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+const REFRESH_COOKIE_NAME = 'refreshToken';
+
+// Tokens are stored hashed so a database leak doesn't expose usable sessions
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// The cookie is only sent to the auth routes. In production the frontend lives on another
+// site, so the cookie must be SameSite=None (which browsers only accept over HTTPS).
+const refreshCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+  path: '/api/auth',
+});
+
+// Issue a new refresh token, starting a new family (a login) unless one is given (a rotation).
+// Returns the raw token, which is never stored.
+const issueRefreshToken = async (
+  user: IUser,
+  req: Request,
+  family: string = crypto.randomUUID()
+): Promise<{ token: string; record: IRefreshToken }> => {
+  const token = crypto.randomBytes(48).toString('base64url');
+  const record = await RefreshToken.create({
+    user: user._id,
+    family,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+  return { token, record };
+};
+
+// Revoke every live token of a family
+const revokeFamily = async (family: string, reason: IRefreshToken['revokedReason']): Promise<void> => {
+  await RefreshToken.updateMany({ family, revokedAt: null }, { revokedAt: new Date(), revokedReason: reason });
+};
+
+// Exchange a refresh token for a new one in the same family. A token that was already
+// rotated being presented again means it was copied, so the whole family is revoked.
+// Sets a 401 status and throws if the token can't be used.
+const rotateRefreshToken = async (
+  rawToken: string,
+  req: Request,
+  res: Response
+): Promise<{ user: IUser; token: string }> => {
+  const record = await RefreshToken.findOne({ tokenHash: hashToken(rawToken) });
+
+  if (!record || record.expiresAt < new Date()) {
+    res.status(401);
+    throw new Error('Invalid or expired refresh token');
+  }
+
+  if (record.replacedBy) {
+    console.warn(`Refresh token reuse detected for user ${record.user}; revoking token family ${record.family}`);
+    await revokeFamily(record.family, 'reuse');
+    res.status(401);
+    throw new Error('Refresh token reuse detected, please log in again');
+  }
+
+  if (record.revokedAt) {
+    res.status(401);
+    throw new Error('Refresh token has been revoked');
+  }
+
+  const user = await User.findById(record.user).select('-password');
+
+  if (!user) {
+    res.status(401);
+    throw new Error('Not authorized, user not found');
+  }
+
+  // Sessions started before the last password change end with it
+  if (user.changedPasswordAfter(record.createdAt)) {
+    await revokeFamily(record.family, 'password_change');
+    res.status(401);
+    throw new Error('Password was changed, please log in again');
+  }
+
+  const { token, record: replacement } = await issueRefreshToken(user, req, record.family);
+
+  // Only one request may rotate a token; a concurrent second rotation counts as reuse
+  const rotated = await RefreshToken.findOneAndUpdate(
+    { _id: record._id, replacedBy: null, revokedAt: null },
+    { replacedBy: replacement._id }
+  );
+  if (!rotated) {
+    await revokeFamily(record.family, 'reuse');
+    res.status(401);
+    throw new Error('Refresh token reuse detected, please log in again');
+  }
+
+  return { user, token };
+};
+
+// End the session (token family) a refresh token belongs to. Unknown tokens are ignored.
+const revokeRefreshToken = async (rawToken: string): Promise<void> => {
+  const record = await RefreshToken.findOne({ tokenHash: hashToken(rawToken) });
+  if (record) {
+    await revokeFamily(record.family, 'logout');
+  }
+};
+
+// End every session of a user
+const revokeAllRefreshTokens = async (
+  userId: Types.ObjectId,
+  reason: IRefreshToken['revokedReason'] = 'logout_all'
+): Promise<void> => {
+  await RefreshToken.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date(), revokedReason: reason });
+};
+
+// Clients may keep the refresh token in the HTTP-only cookie or send it in the body
+const readRefreshToken = (req: Request): string | undefined => {
+  const token = req.cookies?.[REFRESH_COOKIE_NAME] ?? req.body?.refreshToken;
+  return typeof token === 'string' && token !== '' ? token : undefined;
+};
+
+const setRefreshCookie = (res: Response, token: string): void => {
+  res.cookie(REFRESH_COOKIE_NAME, token, {
+    ...refreshCookieOptions(),
+    maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+  });
+};
+
+const clearRefreshCookie = (res: Response): void => {
+  res.clearCookie(REFRESH_COOKIE_NAME, refreshCookieOptions());
+};
+
+export {
+  clearRefreshCookie,
+  issueRefreshToken,
+  readRefreshToken,
+  revokeAllRefreshTokens,
+  revokeRefreshToken,
+  rotateRefreshToken,
+  setRefreshCookie,
+};
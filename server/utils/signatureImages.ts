@@ -0,0 +1,78 @@
+// server/utils/signatureImages.ts
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { getStorage } from './storage';
+
+const MAX_IMAGE_BYTES = 1024 * 1024 * 2; // 2MB
+const MAX_DIMENSION = 2000; // Pixels, either side
+
+export interface NormalizedImage {
+  png: Buffer;
+  width: number;
+  height: number;
+}
+
+const isPng = (bytes: Buffer) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+// Width and height declared in a PNG's IHDR chunk, which must come first, or undefined if it's missing
+const pngDimensions = (bytes: Buffer): { width: number; height: number } | undefined =>
+  bytes.length >= 24 && bytes.toString('latin1', 12, 16) === 'IHDR'
+    ? { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) }
+    : undefined;
+
+const dimensionsError = () => new Error(`Signature images must be at most ${MAX_DIMENSION}x${MAX_DIMENSION} pixels.`);
+
+const isJpeg = (bytes: Buffer) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+// Decode a PNG or JPEG and re-encode it as a plain RGBA PNG. Going through raw pixels
+// rejects anything that isn't really an image and drops metadata and embedded chunks.
+// Throws with a message suitable for the client if the image is not acceptable.
+const normalizeSignatureImage = (bytes: Buffer): NormalizedImage => {
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Signature images must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)}MB.`);
+  }
+
+  // A small PNG can declare a huge image; check its size before decoding allocates the pixels
+  if (isPng(bytes)) {
+    const declared = pngDimensions(bytes);
+    if (declared && (declared.width > MAX_DIMENSION || declared.height > MAX_DIMENSION)) {
+      throw dimensionsError();
+    }
+  }
+
+  let decoded: { width: number; height: number; data: Buffer | Uint8Array };
+  try {
+    if (isPng(bytes)) {
+      decoded = PNG.sync.read(bytes);
+    } else if (isJpeg(bytes)) {
+      decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 4, maxMemoryUsageInMB: 64 });
+    } else {
+      throw new Error('unsupported format');
+    }
+  } catch (error) {
+    throw new Error('Signature images must be valid PNG or JPEG files.');
+  }
+
+  const { width, height } = decoded;
+  if (width < 1 || height < 1 || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw dimensionsError();
+  }
+
+  const png = new PNG({ width, height });
+  png.data = Buffer.from(decoded.data);
+  return { png: PNG.sync.write(png), width, height };
+};
+
+// Decode an image data URL (as produced by a canvas) into its bytes, or undefined if it isn't one
+const decodeImageDataUrl = (dataUrl: string): Buffer | undefined => {
+  const match = /^data:image\/(png|jpe?g);base64,(.+)$/.exec(dataUrl);
+  return match ? Buffer.from(match[2], 'base64') : undefined;
+};
+
+// Store a normalized signature image under its owner's folder. Returns the storage key.
+const saveSignatureImage = async (userId: string, signatureId: string, png: Buffer): Promise<string> => {
+  const filePath = `saved_signatures/${userId}/${signatureId}.png`;
+  await getStorage().put(filePath, png, 'image/png');
+  return filePath;
+};
+
+export { decodeImageDataUrl, normalizeSignatureImage, saveSignatureImage };
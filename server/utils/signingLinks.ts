@@ -0,0 +1,47 @@
+// server/utils/signingLinks.ts
+// Guest signing links: a signer without an account signs through a personal, single-use link
+// instead of the app. Only the hash of a link's token is stored, so a link that was sent can't be
+// sent again; a signer who needs it again gets a new one.
+import { Types } from 'mongoose';
+import { IDocument } from '../models/Document';
+import SigningLink, { ISigningLink } from '../models/SigningLink';
+import { clientUrl } from './mailTemplates';
+import { generateSigningToken, hashSigningToken } from './signingToken';
+
+const DEFAULT_LINK_TTL_HOURS = 72;
+
+export interface IssuedSigningLink {
+  link: ISigningLink;
+  token: string; // The raw token; only available here
+  url: string;
+}
+
+// Create a signing link for a signer of the document. Earlier links of the signer stay valid
+// until revoked with revokeSigningLinks.
+const issueSigningLink = async (
+  document: IDocument,
+  email: string,
+  createdBy: Types.ObjectId,
+  ttlHours: number = DEFAULT_LINK_TTL_HOURS
+): Promise<IssuedSigningLink> => {
+  const token = generateSigningToken();
+  const link = await SigningLink.create({
+    document: document._id,
+    email,
+    tokenHash: hashSigningToken(token),
+    expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+    createdBy,
+  });
+
+  return { link, token, url: clientUrl(`/sign/${token}`) };
+};
+
+// Revoke a signer's live links to the document, except the one given (e.g. the one just issued)
+const revokeSigningLinks = async (document: IDocument, email: string, except?: Types.ObjectId): Promise<void> => {
+  await SigningLink.updateMany(
+    { document: document._id, email, usedAt: null, revokedAt: null, ...(except ? { _id: { $ne: except } } : {}) },
+    { revokedAt: new Date() }
+  );
+};
+
+export { DEFAULT_LINK_TTL_HOURS, issueSigningLink, revokeSigningLinks };
@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+// Generate a random URL-safe token for a guest signing link
+const generateSigningToken = (): string => crypto.randomBytes(32).toString('base64url');
+
+// Tokens are stored hashed so a database leak doesn't expose usable links
+const hashSigningToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export { generateSigningToken, hashSigningToken };
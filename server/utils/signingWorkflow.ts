@@ -0,0 +1,86 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { IDocument, ISigner } from '../models/Document';
+import { IUser } from '../models/User';
+
+// Find the signer entry that belongs to the given user (matched by user ID, or by email
+// once the user has confirmed they own the address)
+const findSignerForUser = (document: IDocument, user: IUser): ISigner | undefined => {
+  const userId = (user._id as Types.ObjectId).toString();
+  const email = user.hasVerifiedEmail() ? user.email.toLowerCase() : undefined;
+  return document.signers.find(
+    (signer) => (signer.user && signer.user.toString() === userId) || signer.email === email
+  );
+};
+
+// Find the signer entry for an email address (used for guest signers without an account)
+const findSignerByEmail = (document: IDocument, email: string): ISigner | undefined =>
+  document.signers.find((signer) => signer.email === email.toLowerCase());
+
+// Signers sorted by their position in the signing sequence
+const sortedSigners = (document: IDocument): ISigner[] =>
+  [...document.signers].sort((a, b) => a.order - b.order);
+
+// In parallel mode any outstanding signer may sign. In sequential mode every
+// required signer ahead of this one must already have signed.
+const isSignersTurn = (document: IDocument, signer: ISigner): boolean => {
+  if (signer.status === 'signed' || signer.status === 'declined') {
+    return false;
+  }
+  if (document.signingOrder === 'parallel') {
+    return true;
+  }
+  return sortedSigners(document)
+    .filter((other) => other.order < signer.order && other.required)
+    .every((other) => other.status === 'signed');
+};
+
+// Make sure the signer may sign the document right now. Sets the status and throws otherwise.
+const assertSignerCanSign = (document: IDocument, signer: ISigner, res: Response): void => {
+  if (document.status !== 'pending') {
+    res.status(400);
+    throw new Error(`This document is ${document.status} and can no longer be signed.`);
+  }
+
+  if (signer.status === 'signed' || signer.status === 'declined') {
+    res.status(400);
+    throw new Error(`You have already ${signer.status} this document.`);
+  }
+
+  if (!isSignersTurn(document, signer)) {
+    res.status(409); // Conflict
+    throw new Error('It is not your turn to sign this document yet.');
+  }
+};
+
+// A document is complete once every required signer has signed
+// (and at least one signature exists, in case all signers are optional)
+const isSigningComplete = (document: IDocument): boolean => {
+  const required = document.signers.filter((signer) => signer.required);
+  const signedCount = document.signers.filter((signer) => signer.status === 'signed').length;
+  return signedCount > 0 && required.every((signer) => signer.status === 'signed');
+};
+
+// Whether a signer's signature would complete the document: every other required signer has signed
+const completesSigning = (document: IDocument, signer: ISigner): boolean =>
+  document.signers
+    .filter((entry) => entry.required)
+    .every((entry) => entry._id.equals(signer._id) || entry.status === 'signed');
+
+// Renumber signers 1..n following the current order
+const normalizeSignerOrder = (document: IDocument): void => {
+  sortedSigners(document).forEach((signer, index) => {
+    signer.order = index + 1;
+  });
+};
+
+export {
+  assertSignerCanSign,
+  completesSigning,
+  findSignerByEmail,
+  findSignerForUser,
+  isSignersTurn,
+  isSigningComplete,
+  normalizeSignerOrder,
+  sortedSigners,
+};
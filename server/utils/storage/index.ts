@@ -0,0 +1,37 @@
+// server/utils/storage/index.ts
+import 'colors';
+import { Readable } from 'stream';
+import { createLocalDriver } from './localDriver';
+import { createS3Driver } from './s3Driver';
+import { SignedUrlOptions, StorageDriver, StoredObject } from './types';
+
+let driver: StorageDriver | undefined;
+
+// Pick the driver from STORAGE_DRIVER (local or s3, default local)
+const getStorage = (): StorageDriver => {
+  if (!driver) {
+    driver = process.env.STORAGE_DRIVER === 's3' ? createS3Driver() : createLocalDriver();
+    console.log(`Storage driver: ${driver.name}`.cyan);
+  }
+  return driver;
+};
+
+// Replace the driver (e.g. in tests or scripts)
+const setStorage = (replacement: StorageDriver): void => {
+  driver = replacement;
+};
+
+const streamToBuffer = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Read a whole stored file into memory (PDFs and images are small enough). Rejects if it is missing.
+const readStoredFile = async (key: string, storage: StorageDriver = getStorage()): Promise<Buffer> =>
+  streamToBuffer(await storage.getStream(key));
+
+export { getStorage, readStoredFile, setStorage, streamToBuffer };
+export type { SignedUrlOptions, StorageDriver, StoredObject };
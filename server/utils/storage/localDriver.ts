@@ -0,0 +1,168 @@
+// server/utils/storage/localDriver.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { SignedUrlOptions, StorageDriver, StoredObject } from './types';
+
+// Keys map to files below this folder. Like uploads/ before it, it is wiped on every
+// deploy on hosts without a persistent disk (such as Render's free plan).
+const storageRoot = (): string => path.resolve(process.env.STORAGE_DIR || path.join(__dirname, '../../../storage'));
+
+// The absolute path of a key; keys that would escape the storage folder are refused
+const resolveKey = (key: string): string => {
+  const root = storageRoot();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+};
+
+const isMissingFile = (error: unknown): boolean => error instanceof Error && 'code' in error && error.code === 'ENOENT';
+
+// The paths of every file below a folder; a missing folder has none
+const listFiles = async function* (dir: string): AsyncGenerator<string> {
+  let entries;
+  try {
+    entries = await fsp.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return;
+    }
+    throw error;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      yield* listFiles(entryPath);
+    } else if (entry.isFile()) {
+      yield entryPath;
+    }
+  }
+};
+
+// The key file URLs are signed with: STORAGE_URL_SECRET, or else a key derived from JWT_SECRET with
+// HKDF, so the secret that signs access tokens never signs anything else
+const urlSigningKey = (): Buffer => {
+  if (process.env.STORAGE_URL_SECRET) {
+    return Buffer.from(process.env.STORAGE_URL_SECRET);
+  }
+  if (process.env.JWT_SECRET) {
+    return Buffer.from(crypto.hkdfSync('sha256', process.env.JWT_SECRET, '', 'storage-url-signing', 32));
+  }
+  throw new Error('STORAGE_URL_SECRET (or JWT_SECRET to derive a key from) must be set to sign file URLs.');
+};
+
+// The signature covers everything that decides what the URL serves and how
+const signUrlParams = (key: string, expires: number, disposition: string, fileName: string, contentType: string) =>
+  crypto
+    .createHmac('sha256', urlSigningKey())
+    .update([key, expires, disposition, fileName, contentType].join('\n'))
+    .digest('base64url');
+
+// Check the query string of a signed file URL (see routes/fileRoutes.ts). Returns how to
+// serve the file, or null if the signature is wrong or the URL has expired.
+const verifySignedUrl = (
+  query: Record<string, unknown>
+): { key: string; disposition: 'inline' | 'attachment'; fileName: string; contentType: string } | null => {
+  const { key, expires, disposition, name, type, signature } = query;
+  if (
+    typeof key !== 'string' ||
+    typeof expires !== 'string' ||
+    (disposition !== 'inline' && disposition !== 'attachment') ||
+    typeof name !== 'string' ||
+    typeof type !== 'string' ||
+    typeof signature !== 'string'
+  ) {
+    return null;
+  }
+
+  if (Number(expires) < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  const expected = Buffer.from(signUrlParams(key, Number(expires), disposition, name, type));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return null;
+  }
+
+  return { key, disposition, fileName: name, contentType: type };
+};
+
+const localDriver: StorageDriver = {
+  name: 'local',
+
+  put: async (key, data) => {
+    const filePath = resolveKey(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, data);
+  },
+
+  getStream: async (key) => {
+    const filePath = resolveKey(key);
+    await fsp.access(filePath); // Fail here rather than on the first read
+    return fs.createReadStream(filePath) as Readable;
+  },
+
+  delete: async (key) => {
+    try {
+      await fsp.unlink(resolveKey(key));
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        throw error;
+      }
+    }
+  },
+
+  exists: async (key) => {
+    try {
+      await fsp.access(resolveKey(key));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+
+  async *list(prefix): AsyncGenerator<StoredObject> {
+    const root = storageRoot();
+    // A folder prefix names the folder to walk; any other prefix is part of a file name
+    const dir = prefix.endsWith('/') ? resolveKey(prefix) : path.dirname(resolveKey(prefix));
+    for await (const filePath of listFiles(dir)) {
+      const key = path.relative(root, filePath).split(path.sep).join('/');
+      if (key.startsWith(prefix)) {
+        const stats = await fsp.stat(filePath);
+        yield { key, size: stats.size, lastModified: stats.mtime };
+      }
+    }
+  },
+
+  // Files on local disk are served by this API, so the URL points back at it
+  signedUrl: async (key, options) => {
+    resolveKey(key); // Validate before signing
+    const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const disposition = options.disposition || 'inline';
+    const fileName = options.fileName || path.basename(key);
+    const contentType = options.contentType || 'application/octet-stream';
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      disposition,
+      name: fileName,
+      type: contentType,
+      signature: signUrlParams(key, expires, disposition, fileName, contentType),
+    });
+    return `${process.env.API_URL || ''}/api/files?${params.toString()}`;
+  },
+};
+
+// Throws if there is no key to sign file URLs with
+const createLocalDriver = (): StorageDriver => {
+  urlSigningKey();
+  return localDriver;
+};
+
+export { createLocalDriver, verifySignedUrl };
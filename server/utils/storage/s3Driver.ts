@@ -0,0 +1,108 @@
+// server/utils/storage/s3Driver.ts
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import { StorageDriver, StoredObject } from './types';
+
+// Stores files in an S3 bucket, or any S3-compatible service (MinIO, Cloudflare R2, ...)
+// when S3_ENDPOINT is set. For a local MinIO:
+//   S3_ENDPOINT=http://localhost:9000 S3_BUCKET=documents S3_ACCESS_KEY_ID=minioadmin S3_SECRET_ACCESS_KEY=minioadmin
+const createS3Driver = (): StorageDriver => {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET must be set to use the s3 storage driver.');
+  }
+  const prefix = process.env.S3_KEY_PREFIX || ''; // Lets several environments share a bucket
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT,
+    // MinIO and most self-hosted services only support path-style URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : !!process.env.S3_ENDPOINT,
+    // Without explicit keys the SDK falls back to its usual chain (environment, instance role, ...)
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '' }
+      : undefined,
+  });
+
+  const objectKey = (key: string) => `${prefix}${key}`;
+
+  return {
+    name: 's3',
+
+    put: async (key, data, contentType) => {
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: objectKey(key), Body: data, ContentType: contentType })
+      );
+    },
+
+    getStream: async (key) => {
+      const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+      return result.Body as Readable;
+    },
+
+    delete: async (key) => {
+      // S3 treats deleting a missing object as success
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+    },
+
+    exists: async (key) => {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        return true;
+      } catch (error) {
+        if (
+          error instanceof S3ServiceException &&
+          (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404)
+        ) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async *list(keyPrefix): AsyncGenerator<StoredObject> {
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({ Bucket: bucket, Prefix: objectKey(keyPrefix), ContinuationToken: continuationToken })
+        );
+        for (const object of page.Contents ?? []) {
+          yield {
+            key: object.Key!.slice(prefix.length),
+            size: object.Size ?? 0,
+            lastModified: object.LastModified ?? new Date(),
+          };
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+    },
+
+    // Presigned URLs are served by the bucket itself, so downloads don't go through the API
+    signedUrl: async (key, options) => {
+      const fileName = options.fileName ? `; filename*=UTF-8''${encodeURIComponent(options.fileName)}` : '';
+      return getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: objectKey(key),
+          ResponseContentDisposition: `${options.disposition || 'inline'}${fileName}`,
+          ResponseContentType: options.contentType,
+        }),
+        { expiresIn: options.expiresInSeconds }
+      );
+    },
+  };
+};
+
+export { createS3Driver };
@@ -0,0 +1,33 @@
+// server/utils/storage/types.ts
+import { Readable } from 'stream';
+
+// How a signed URL should present the file when it is opened
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  fileName?: string; // Name offered to the browser
+  contentType?: string;
+  disposition?: 'inline' | 'attachment';
+}
+
+// A stored file, as listed by a driver
+export interface StoredObject {
+  key: string;
+  size: number; // Bytes
+  lastModified: Date;
+}
+
+// Where stored files (uploads, signed revisions, saved signature images) live. Files are
+// addressed by an opaque key such as 'uploads/document-123.pdf'; callers never build paths.
+export interface StorageDriver {
+  name: string;
+  put(key: string, data: Uint8Array, contentType?: string): Promise<void>;
+  // Rejects if the file doesn't exist
+  getStream(key: string): Promise<Readable>;
+  // Resolves even if the file is already gone
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  // Every file whose key starts with prefix (usually a folder, such as 'uploads/'), in no particular order
+  list(prefix: string): AsyncIterable<StoredObject>;
+  // A URL that serves the file without further authentication until it expires
+  signedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
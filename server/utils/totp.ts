@@ -0,0 +1,97 @@
+// server/utils/totp.ts
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+// HMAC-SHA1, 6 digits, 30 second steps, base32 secrets.
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code to allow for clock skew
+
+const base32Encode = (bytes: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (text: string): Buffer => {
+  const clean = text.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// A new random secret (160 bits, as recommended by RFC 4226), base32-encoded
+const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+// The HOTP value for a given counter (RFC 4226, section 5.3)
+const hotp = (secret: string, counter: number): string => {
+  const counterBytes = Buffer.alloc(8);
+  counterBytes.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBytes).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return binary.toString().padStart(DIGITS, '0');
+};
+
+const currentStep = (now: number = Date.now()): number => Math.floor(now / 1000 / STEP_SECONDS);
+
+// Check a code against the secret. Returns the time step it matched, so callers can refuse
+// to accept the same code twice, or null if it doesn't match.
+const verifyTotp = (secret: string, code: string, lastUsedStep?: number): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const step = currentStep();
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const candidate = step + drift;
+    if (lastUsedStep !== undefined && candidate <= lastUsedStep) {
+      continue; // Already used (or older than a code that was)
+    }
+    const expected = hotp(secret, candidate);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+// The otpauth:// URI authenticator apps read from a QR code
+const totpUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// One-time recovery codes, e.g. '4f9a-2c1e-77b0'
+const generateRecoveryCodes = (count: number = 10): string[] =>
+  Array.from({ length: count }, () => crypto.randomBytes(6).toString('hex').replace(/(.{4})(?=.)/g, '$1-'));
+
+export { generateRecoveryCodes, generateTotpSecret, totpUri, verifyTotp };
@@ -0,0 +1,68 @@
+// server/utils/trash.ts
+// Deleting a document moves it to the trash: deletedAt is set, which hides it from every query
+// (see the Document model), but its files stay so it can be restored. It is purged for good, files
+// included, when its owner empties the trash or TRASH_RETENTION_DAYS (default 30) after deletion.
+import 'colors';
+import { FilterQuery, Types } from 'mongoose';
+import Document, { IDocument } from '../models/Document';
+import SigningLink from '../models/SigningLink';
+import { recordSystemAuditEvent } from './auditLog';
+import { cancelDeadlineJobs } from './deadlines';
+import { removeStoredFile } from './documentFiles';
+import { allVersionPaths } from './documentVersions';
+import { defineJob, scheduleRecurringJob } from './jobs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_SECONDS = 60 * 60;
+const PURGE_BATCH_SIZE = 500; // Per run; the rest waits for the next run
+
+const PURGE_JOB = 'documents.purge_trash';
+
+const retentionDays = (): number => Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+
+// When a trashed document will be purged
+const purgeDate = (document: IDocument): Date => new Date(document.deletedAt!.getTime() + retentionDays() * DAY_MS);
+
+// The documents in a user's trash: the ones they own and the ones they deleted
+const trashFilter = (userId: Types.ObjectId): FilterQuery<IDocument> => ({
+  deletedAt: { $ne: null },
+  $or: [{ user: userId }, { deletedBy: userId }],
+});
+
+// Delete a trashed document for good, with its files, signing links and queued jobs. Record the
+// purge in the audit trail first: the event carries the hash of the file.
+const purgeDocument = async (document: IDocument): Promise<void> => {
+  // The record goes first; files left behind if removing them fails are found as orphans later
+  await Document.deleteOne({ _id: document._id, deletedAt: { $ne: null } });
+  await SigningLink.deleteMany({ document: document._id });
+  await cancelDeadlineJobs(document);
+
+  for (const filePath of allVersionPaths(document)) {
+    await removeStoredFile(filePath);
+  }
+};
+
+// Purge the documents that have been in the trash for longer than the retention period
+const purgeExpiredTrash = async (): Promise<void> => {
+  const days = retentionDays();
+  const documents = await Document.find({ deletedAt: { $lte: new Date(Date.now() - days * DAY_MS) } }).limit(
+    PURGE_BATCH_SIZE
+  );
+
+  for (const document of documents) {
+    await recordSystemAuditEvent(document, 'purge', { reason: 'retention_period', retentionDays: days });
+    await purgeDocument(document);
+  }
+};
+
+// Register the purge job handler and queue it to run every hour
+const registerTrashJobs = (): void => {
+  defineJob(PURGE_JOB, purgeExpiredTrash);
+
+  scheduleRecurringJob(PURGE_JOB, PURGE_INTERVAL_SECONDS).catch((error) =>
+    console.error('Failed to schedule the trash purge:'.red, error)
+  );
+};
+
+export { purgeDate, purgeDocument, registerTrashJobs, trashFilter };
@@ -0,0 +1,94 @@
+// server/utils/twoFactor.ts
+import jwt from 'jsonwebtoken';
+import { hashUserToken, IUser } from '../models/User';
+import { verifyTotp } from './totp';
+
+// How long a user has to enter their code after the password step
+const LOGIN_CHALLENGE_TTL = '5m';
+// Wrong codes allowed before two-factor login is locked. The count carries over between
+// password logins and only resets once a code is accepted (or the lock is applied).
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+// Fields holding 2FA state are not selected by default
+const TWO_FACTOR_FIELDS =
+  '+twoFactorSecret +twoFactorLastUsedStep +twoFactorRecoveryCodes +twoFactorFailedAttempts +twoFactorLockedUntil';
+
+const jwtSecret = (): string => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET environment variable is not defined.');
+  }
+  return process.env.JWT_SECRET;
+};
+
+// A short-lived token proving the password step passed. It carries a `purpose`, which
+// access tokens don't, so protect refuses it.
+const createLoginChallenge = (userId: string): string =>
+  jwt.sign({ id: userId, purpose: '2fa' }, jwtSecret(), { expiresIn: LOGIN_CHALLENGE_TTL });
+
+// Returns the user ID and issue time of a valid challenge, or null
+const readLoginChallenge = (token: string): { id: string; issuedAt: Date } | null => {
+  try {
+    const decoded = jwt.verify(token, jwtSecret()) as { id: string; purpose?: string; iat: number };
+    return decoded.purpose === '2fa' ? { id: decoded.id, issuedAt: new Date(decoded.iat * 1000) } : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Check a TOTP code or a recovery code for a user loaded with TWO_FACTOR_FIELDS.
+// Records the accepted code (or consumes the recovery code) on the user; the caller saves it.
+const checkSecondFactor = (
+  user: IUser,
+  input: { code?: unknown; recoveryCode?: unknown }
+): 'totp' | 'recovery' | null => {
+  if (typeof input.code === 'string' && user.twoFactorSecret) {
+    const step = verifyTotp(user.twoFactorSecret, input.code, user.twoFactorLastUsedStep);
+    if (step !== null) {
+      user.twoFactorLastUsedStep = step;
+      return 'totp';
+    }
+  }
+
+  if (typeof input.recoveryCode === 'string') {
+    const hash = hashUserToken(input.recoveryCode.trim().toLowerCase());
+    const remaining = user.twoFactorRecoveryCodes || [];
+    if (remaining.includes(hash)) {
+      user.twoFactorRecoveryCodes = remaining.filter((code) => code !== hash); // Single use
+      return 'recovery';
+    }
+  }
+
+  return null;
+};
+
+// Count a wrong code on a user loaded with TWO_FACTOR_FIELDS, locking two-factor login for
+// LOCKOUT_MINUTES once MAX_FAILED_ATTEMPTS is reached. The caller saves the user.
+// Returns whether the user is now locked out.
+const recordFailedSecondFactor = (user: IUser): boolean => {
+  const failed = (user.twoFactorFailedAttempts || 0) + 1;
+  if (failed >= MAX_FAILED_ATTEMPTS) {
+    user.twoFactorFailedAttempts = 0;
+    user.twoFactorLockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    return true;
+  }
+  user.twoFactorFailedAttempts = failed;
+  return false;
+};
+
+// Whether two-factor login is locked for a user loaded with TWO_FACTOR_FIELDS
+const isSecondFactorLocked = (user: IUser): boolean =>
+  !!user.twoFactorLockedUntil && user.twoFactorLockedUntil.getTime() > Date.now();
+
+// Recovery codes are stored hashed, like passwords
+const hashRecoveryCodes = (codes: string[]): string[] => codes.map((code) => hashUserToken(code));
+
+export {
+  checkSecondFactor,
+  createLoginChallenge,
+  hashRecoveryCodes,
+  isSecondFactorLocked,
+  readLoginChallenge,
+  recordFailedSecondFactor,
+  TWO_FACTOR_FIELDS,
+};
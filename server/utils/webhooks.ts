@@ -0,0 +1,241 @@
+// server/utils/webhooks.ts
+// Outbound webhooks. For each event published on the document event bus, a delivery is stored for
+// each active webhook of the document's owner subscribed to it and sent right away; failed deliveries are retried
+// with exponential backoff by a worker polling the database, so retries survive restarts.
+//
+// Each request is a POST with a JSON body { id, event, createdAt, data } and these headers:
+//   X-Webhook-Id         the delivery ID, the same on every retry (use it to ignore duplicates)
+//   X-Webhook-Event      e.g. document.signed
+//   X-Webhook-Timestamp  Unix time of this attempt, in seconds
+//   X-Webhook-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>" keyed with the webhook's secret>
+// Any 2xx response counts as delivered; redirects are not followed.
+//
+// Webhook URLs must resolve to public addresses, checked when registered and again before each
+// request, so users can't reach internal services through the server (the start of each response
+// is shown in the delivery log). WEBHOOK_ALLOW_PRIVATE_URLS=true lifts this, e.g. to test against
+// a receiver on localhost.
+import 'colors';
+import crypto from 'crypto';
+import dns from 'dns';
+import { Types } from 'mongoose';
+import { BlockList, isIP } from 'net';
+import Webhook, { IWebhook } from '../models/Webhook';
+import WebhookDelivery, { IWebhookDelivery } from '../models/WebhookDelivery';
+import { DocumentEvent, subscribeToDocumentEvents } from './eventBus';
+
+const MAX_ATTEMPTS = 8;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+// How long a delivery being sent is hidden from the worker, so one attempt isn't made twice
+const CLAIM_SECONDS = 60;
+const WORKER_BATCH_SIZE = 20;
+
+// First retry after WEBHOOK_RETRY_BASE_SECONDS (default 30), doubling each time: about an hour in all
+const retryDelaySeconds = (attemptCount: number): number =>
+  (Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30) * 2 ** (attemptCount - 1);
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const nonPublicAddresses = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]) => nonPublicAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => nonPublicAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// Why a webhook URL may not be called, or null if it may: every address its host resolves to must be public
+const webhookUrlError = async (url: string): Promise<string | null> => {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') {
+    return null;
+  }
+
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1'); // IPv6 literals come bracketed
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await dns.promises.lookup(host, { all: true });
+  } catch (error) {
+    return `Could not resolve ${host}`;
+  }
+
+  const blocked = addresses.find(({ address, family }) =>
+    nonPublicAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  );
+  if (!blocked) {
+    return null;
+  }
+  return blocked.address === host
+    ? `${host} is not a public address`
+    : `${host} resolves to ${blocked.address}, which is not a public address`;
+};
+
+const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+
+// The signature header value for a body sent at a given time
+const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Make one request for a delivery and record it. A failed automatic attempt is scheduled for a
+// retry until MAX_ATTEMPTS is reached; a failed manual redelivery leaves the schedule as it was.
+const attemptDelivery = async (delivery: IWebhookDelivery, manual = false): Promise<IWebhookDelivery> => {
+  const webhook = await Webhook.findById(delivery.webhook).select('+secret');
+  const attemptedAt = new Date();
+
+  let statusCode: number | undefined;
+  let error: string | undefined;
+  let responseBody: string | undefined;
+
+  // Checked on every attempt: DNS answers can change after the webhook was registered
+  const urlError = webhook && (webhook.active || manual) ? await webhookUrlError(webhook.url) : null;
+
+  if (!webhook || (!webhook.active && !manual)) {
+    error = 'Webhook is disabled or was deleted';
+  } else if (urlError) {
+    error = urlError;
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'DocumentSignatureApp-Webhooks/1.0',
+          'X-Webhook-Id': (delivery._id as Types.ObjectId).toString(),
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    } catch (err) {
+      // fetch hides the network error in its cause
+      const cause = err instanceof Error && err.cause instanceof Error ? err.cause : err;
+      if (err instanceof Error && err.name === 'TimeoutError') {
+        error = `No response within ${REQUEST_TIMEOUT_MS / 1000}s`;
+      } else {
+        error = cause instanceof Error ? cause.message : String(cause);
+      }
+    }
+  }
+
+  delivery.attempts.push({
+    attemptedAt,
+    manual,
+    statusCode,
+    error,
+    responseBody,
+    durationMs: Date.now() - attemptedAt.getTime(),
+  });
+
+  if (statusCode !== undefined && statusCode >= 200 && statusCode < 300) {
+    delivery.status = 'succeeded';
+    delivery.deliveredAt = new Date();
+    delivery.nextAttemptAt = undefined;
+  } else if (!manual) {
+    const automaticAttempts = delivery.attempts.filter((attempt) => !attempt.manual).length;
+    if (automaticAttempts >= MAX_ATTEMPTS || !webhook) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+    } else {
+      delivery.nextAttemptAt = new Date(Date.now() + retryDelaySeconds(automaticAttempts) * 1000);
+    }
+  }
+
+  return delivery.save();
+};
+
+// Store a delivery for a webhook. It stays hidden from the worker for a while, for the caller to send it.
+const createDelivery = async (
+  webhook: IWebhook,
+  event: IWebhookDelivery['event'],
+  data: Record<string, unknown>
+): Promise<IWebhookDelivery> => {
+  const delivery = new WebhookDelivery({
+    webhook: webhook._id,
+    user: webhook.user,
+    event,
+    status: 'pending',
+    nextAttemptAt: new Date(Date.now() + CLAIM_SECONDS * 1000),
+  });
+  delivery.payload = { id: delivery._id, event, createdAt: new Date(), data };
+  return delivery.save();
+};
+
+// Queue and send a document event to the owner's webhooks subscribed to it
+const deliverDocumentEvent = async ({ type, document, data }: DocumentEvent): Promise<void> => {
+  const webhooks = await Webhook.find({ user: document.user, active: true, events: type });
+  for (const webhook of webhooks) {
+    const delivery = await createDelivery(webhook, type, data);
+    // Sent in the background; the worker retries it if this process stops first
+    attemptDelivery(delivery).catch((error) =>
+      console.error(`Webhook delivery ${delivery._id} failed to run:`.red, error)
+    );
+  }
+};
+
+// Retry every delivery that is due. Each is claimed first, so several server instances
+// polling the same database don't send it twice.
+let processing = false;
+const processDueDeliveries = async (): Promise<void> => {
+  if (processing) {
+    return;
+  }
+  processing = true;
+  try {
+    for (let i = 0; i < WORKER_BATCH_SIZE; i++) {
+      const now = new Date();
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        { status: 'pending', nextAttemptAt: { $lte: now } },
+        { nextAttemptAt: new Date(now.getTime() + CLAIM_SECONDS * 1000) },
+        { new: true, sort: { nextAttemptAt: 1 } }
+      );
+      if (!delivery) {
+        break;
+      }
+      await attemptDelivery(delivery);
+    }
+  } catch (error) {
+    console.error('Webhook worker failed:'.red, error);
+  } finally {
+    processing = false;
+  }
+};
+
+// Send document events to webhooks, and poll for due retries every WEBHOOK_POLL_SECONDS (default 15)
+const startWebhooks = (): NodeJS.Timeout => {
+  subscribeToDocumentEvents(deliverDocumentEvent);
+
+  const intervalSeconds = Number(process.env.WEBHOOK_POLL_SECONDS) || 15;
+  const timer = setInterval(processDueDeliveries, intervalSeconds * 1000);
+  timer.unref();
+  return timer;
+};
+
+export {
+  attemptDelivery,
+  createDelivery,
+  generateWebhookSecret,
+  processDueDeliveries,
+  signWebhookPayload,
+  startWebhooks,
+  webhookUrlError,
+};